@@ -0,0 +1,178 @@
+/** Minimal DER reading and writing for the handful of structures the inspector needs to handle */
+
+export const TAG = {
+	BOOLEAN: 0x01,
+	INTEGER: 0x02,
+	BIT_STRING: 0x03,
+	OCTET_STRING: 0x04,
+	NULL: 0x05,
+	OID: 0x06,
+	ENUMERATED: 0x0a,
+	UTF8_STRING: 0x0c,
+	PRINTABLE_STRING: 0x13,
+	IA5_STRING: 0x16,
+	UTC_TIME: 0x17,
+	GENERALIZED_TIME: 0x18,
+	SEQUENCE: 0x30,
+	SET: 0x31,
+} as const;
+
+export type DerNode = {
+	tag: number;
+	/** Offset of the tag byte within the buffer the node was read from */
+	start: number;
+	/** Offset just after the node's content */
+	end: number;
+	/** The whole encoding, tag and length included */
+	raw: Buffer;
+	content: Buffer;
+};
+
+/** Tag byte of a context-specific field such as `[0]` */
+export function contextTag(number: number, constructed: boolean): number {
+	return 0x80 | (constructed ? 0x20 : 0) | number;
+}
+
+export function readNode(buffer: Buffer, offset = 0): DerNode {
+	if (offset + 2 > buffer.length) {
+		throw new Error("Truncated DER data.");
+	}
+
+	const tag = buffer[offset];
+	let length = buffer[offset + 1];
+	let contentStart = offset + 2;
+
+	if (length & 0x80) {
+		const octets = length & 0x7f;
+		if (octets === 0 || octets > 4 || contentStart + octets > buffer.length) {
+			throw new Error("Unsupported DER length.");
+		}
+
+		length = 0;
+		for (let index = 0; index < octets; index++) {
+			length = length * 256 + buffer[contentStart + index];
+		}
+		contentStart += octets;
+	}
+
+	const end = contentStart + length;
+	if (end > buffer.length) {
+		throw new Error("Truncated DER data.");
+	}
+
+	return {
+		tag,
+		start: offset,
+		end,
+		raw: buffer.subarray(offset, end),
+		content: buffer.subarray(contentStart, end),
+	};
+}
+
+/** Reads every node directly inside a constructed node */
+export function children(node: DerNode): DerNode[] {
+	const nodes: DerNode[] = [];
+	let offset = 0;
+
+	while (offset < node.content.length) {
+		const child = readNode(node.content, offset);
+		nodes.push(child);
+		offset = child.end;
+	}
+
+	return nodes;
+}
+
+export function encode(tag: number, content: Buffer): Buffer {
+	let header: Buffer;
+
+	if (content.length < 0x80) {
+		header = Buffer.from([tag, content.length]);
+	} else {
+		const lengthBytes: number[] = [];
+		for (let remaining = content.length; remaining > 0; remaining = Math.floor(remaining / 256)) {
+			lengthBytes.unshift(remaining % 256);
+		}
+		header = Buffer.from([tag, 0x80 | lengthBytes.length, ...lengthBytes]);
+	}
+
+	return Buffer.concat([header, content]);
+}
+
+export function sequence(...items: Buffer[]): Buffer {
+	return encode(TAG.SEQUENCE, Buffer.concat(items));
+}
+
+export function encodeOid(oid: string): Buffer {
+	const [first, second, ...rest] = oid.split(".").map((part) => Number.parseInt(part, 10));
+	const bytes = [first * 40 + second];
+
+	for (const value of rest) {
+		const encoded = [value & 0x7f];
+		for (let remaining = Math.floor(value / 128); remaining > 0; remaining = Math.floor(remaining / 128)) {
+			encoded.unshift((remaining & 0x7f) | 0x80);
+		}
+		bytes.push(...encoded);
+	}
+
+	return encode(TAG.OID, Buffer.from(bytes));
+}
+
+export function decodeOid(node: DerNode): string {
+	const bytes = node.content;
+	if (bytes.length === 0) {
+		return "";
+	}
+
+	const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+	let value = 0;
+
+	for (let index = 1; index < bytes.length; index++) {
+		value = value * 128 + (bytes[index] & 0x7f);
+		if ((bytes[index] & 0x80) === 0) {
+			parts.push(value);
+			value = 0;
+		}
+	}
+
+	return parts.join(".");
+}
+
+/** Decodes a UTCTime or GeneralizedTime as an ISO timestamp */
+export function decodeTime(node: DerNode): string | null {
+	const text = node.content.toString("ascii");
+	let match: RegExpMatchArray | null;
+
+	if (node.tag === TAG.UTC_TIME) {
+		match = text.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?Z$/);
+		if (match) {
+			const year = Number.parseInt(match[1], 10);
+			match[1] = String(year < 50 ? 2000 + year : 1900 + year);
+		}
+	} else if (node.tag === TAG.GENERALIZED_TIME) {
+		match = text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:\.\d+)?Z$/);
+	} else {
+		return null;
+	}
+
+	if (!match) {
+		return null;
+	}
+
+	const [, year, month, day, hour, minute, second = "00"] = match;
+	return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`).toISOString();
+}
+
+/** Contents of a BIT STRING without the leading unused-bits byte */
+export function bitStringBytes(node: DerNode): Buffer {
+	return node.content.subarray(1);
+}
+
+/** Decodes a small INTEGER or ENUMERATED value */
+export function decodeSmallInteger(node: DerNode): number {
+	let value = 0;
+	for (const byte of node.content) {
+		value = value * 256 + byte;
+	}
+	return value;
+}
@@ -0,0 +1,118 @@
+import { X509Certificate } from "node:crypto";
+import tls from "node:tls";
+import { TAG, readNode } from "./asn1";
+import { isSelfSigned } from "./x509";
+
+const PEM_CERTIFICATE = /-----BEGIN CERTIFICATE-----([A-Za-z0-9+/=\s]+?)-----END CERTIFICATE-----/g;
+
+/** An uploaded chain put in issuing order, with the verdict a TLS client would reach on it */
+export type VerifiedBundle = {
+	/** The leaf first, then each issuer found in the upload, then the trusted root when one was found */
+	chain: X509Certificate[];
+	authorized: boolean;
+	/** OpenSSL's name for the problem, matching what a live handshake reports */
+	authorizationError: string | null;
+};
+
+let trustedRoots: X509Certificate[] | undefined;
+
+/** Node's bundled root store, the same one live handshakes are checked against */
+function rootCertificates(): X509Certificate[] {
+	trustedRoots ??= tls.rootCertificates.map((pem) => new X509Certificate(pem));
+	return trustedRoots;
+}
+
+/** Reads every certificate from a PEM bundle, or from one or more DER certificates laid end to end */
+export function splitCertificateBundle(data: Buffer): Buffer[] {
+	const text = data.toString("latin1");
+
+	if (text.includes("-----BEGIN")) {
+		const certificates = [...text.matchAll(PEM_CERTIFICATE)].map(([, body]) => Buffer.from(body.replace(/\s+/g, ""), "base64"));
+		if (certificates.length === 0) {
+			throw new Error("The PEM bundle does not contain a CERTIFICATE block.");
+		}
+		return certificates;
+	}
+
+	const certificates: Buffer[] = [];
+	for (let offset = 0; offset < data.length; ) {
+		const node = readNode(data, offset);
+		if (node.tag !== TAG.SEQUENCE) {
+			throw new Error("The upload is neither a PEM bundle nor DER-encoded certificates.");
+		}
+
+		certificates.push(node.raw);
+		offset = node.end;
+	}
+
+	if (certificates.length === 0) {
+		throw new Error("The upload is empty.");
+	}
+	return certificates;
+}
+
+function issuedBy(certificate: X509Certificate, issuer: X509Certificate): boolean {
+	try {
+		return certificate.checkIssued(issuer) && certificate.verify(issuer.publicKey);
+	} catch {
+		return false;
+	}
+}
+
+function isTrustedRoot(certificate: X509Certificate): boolean {
+	return rootCertificates().some((root) => root.fingerprint256 === certificate.fingerprint256);
+}
+
+function validityError(chain: X509Certificate[], now: number): string | null {
+	for (const certificate of chain) {
+		if (Date.parse(certificate.validTo) < now) {
+			return "CERT_HAS_EXPIRED";
+		}
+		if (Date.parse(certificate.validFrom) > now) {
+			return "CERT_NOT_YET_VALID";
+		}
+	}
+	return null;
+}
+
+/**
+ * Builds the chain from the leaf, looking for each issuer among the uploaded certificates before the
+ * root store. This is how the chain would look to a client, whatever order the bundle was assembled
+ * in; the leaf is the first certificate that did not issue any of the others.
+ */
+export function verifyBundle(certificates: X509Certificate[], now = Date.now()): VerifiedBundle {
+	const leaf =
+		certificates.find((candidate) => !certificates.some((other) => other !== candidate && issuedBy(other, candidate))) ?? certificates[0];
+	const chain = [leaf];
+	const remaining = certificates.filter((certificate) => certificate !== leaf);
+
+	for (let current = leaf; !isSelfSigned(current); ) {
+		const index = remaining.findIndex((candidate) => issuedBy(current, candidate));
+		if (index >= 0) {
+			current = remaining.splice(index, 1)[0];
+			chain.push(current);
+			continue;
+		}
+
+		const root = rootCertificates().find((candidate) => issuedBy(current, candidate));
+		if (root) {
+			chain.push(root);
+			break;
+		}
+
+		return {
+			chain,
+			authorized: false,
+			authorizationError: chain.length === 1 ? "UNABLE_TO_VERIFY_LEAF_SIGNATURE" : "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+		};
+	}
+
+	// The loop also stops on a self-signed certificate, which only counts when the root store has it
+	const top = chain[chain.length - 1];
+	if (isSelfSigned(top) && !isTrustedRoot(top)) {
+		return { chain, authorized: false, authorizationError: chain.length === 1 ? "DEPTH_ZERO_SELF_SIGNED_CERT" : "SELF_SIGNED_CERT_IN_CHAIN" };
+	}
+
+	const error = validityError(chain, now);
+	return { chain, authorized: error === null, authorizationError: error };
+}
@@ -0,0 +1,158 @@
+import { X509Certificate } from "node:crypto";
+import net from "node:net";
+import { Duplex } from "node:stream";
+import tls from "node:tls";
+import { type ConnectionTarget, negotiateStartTls, sniName } from "./starttls";
+import { isSelfSigned, nameRecord } from "./x509";
+
+/** A certificate exactly as the server sent it, in the order it was sent */
+export type SentCertificate = {
+	subject: Record<string, string> | null;
+	issuer: Record<string, string> | null;
+	fingerprint256: string;
+	selfSigned: boolean;
+};
+
+const TLS_HANDSHAKE_RECORD = 22;
+const CERTIFICATE_MESSAGE = 11;
+
+/** The server's first flight easily fits; anything beyond it is not needed */
+const MAX_CAPTURE_BYTES = 256 * 1024;
+
+/**
+ * Passes a socket's traffic through unchanged while keeping a copy of what the server sends, so
+ * the Certificate handshake message can be read before Node reorders the chain it reports.
+ */
+class HandshakeRecorder extends Duplex {
+	private captured: Buffer[] = [];
+	private capturedBytes = 0;
+
+	constructor(private readonly socket: net.Socket) {
+		super();
+
+		socket.on("data", (chunk: Buffer) => {
+			if (this.capturedBytes < MAX_CAPTURE_BYTES) {
+				this.captured.push(chunk);
+				this.capturedBytes += chunk.length;
+			}
+
+			if (!this.push(chunk)) {
+				socket.pause();
+			}
+		});
+		socket.once("end", () => this.push(null));
+		socket.once("error", (error) => this.destroy(error));
+	}
+
+	get received(): Buffer {
+		return Buffer.concat(this.captured);
+	}
+
+	override _read(): void {
+		this.socket.resume();
+	}
+
+	override _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+		this.socket.write(chunk, callback);
+	}
+
+	override _final(callback: (error?: Error | null) => void): void {
+		this.socket.end(callback);
+	}
+
+	override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+		this.socket.destroy();
+		callback(error);
+	}
+}
+
+/** Reads the certificate_list from the plaintext handshake records of a TLS 1.2 or earlier server flight */
+export function parseCertificateMessage(received: Buffer): Buffer[] | null {
+	const fragments: Buffer[] = [];
+
+	// Handshake records run until the server switches to ChangeCipherSpec or application data
+	for (let offset = 0; offset + 5 <= received.length; ) {
+		const type = received[offset];
+		const length = received.readUInt16BE(offset + 3);
+		if (type !== TLS_HANDSHAKE_RECORD || offset + 5 + length > received.length) {
+			break;
+		}
+
+		fragments.push(received.subarray(offset + 5, offset + 5 + length));
+		offset += 5 + length;
+	}
+
+	const handshake = Buffer.concat(fragments);
+	for (let offset = 0; offset + 4 <= handshake.length; ) {
+		const type = handshake[offset];
+		const length = handshake.readUIntBE(offset + 1, 3);
+		const body = handshake.subarray(offset + 4, offset + 4 + length);
+
+		if (type === CERTIFICATE_MESSAGE && body.length === length) {
+			const certificates: Buffer[] = [];
+			for (let position = 3; position + 3 <= body.length; ) {
+				const certificateLength = body.readUIntBE(position, 3);
+				certificates.push(body.subarray(position + 3, position + 3 + certificateLength));
+				position += 3 + certificateLength;
+			}
+
+			return certificates;
+		}
+
+		offset += 4 + length;
+	}
+
+	return null;
+}
+
+export function describeSentCertificate(der: Buffer): SentCertificate {
+	const certificate = new X509Certificate(der);
+	return {
+		subject: nameRecord(certificate.subject),
+		issuer: nameRecord(certificate.issuer),
+		fingerprint256: certificate.fingerprint256,
+		selfSigned: isSelfSigned(certificate),
+	};
+}
+
+/**
+ * TLS 1.3 encrypts the server's Certificate message, so this makes a separate handshake capped
+ * at TLS 1.2 to see the chain as sent. Resolves null when the server only speaks TLS 1.3 or the
+ * message cannot be read.
+ */
+export async function readSentChain(target: ConnectionTarget, timeoutMs: number): Promise<SentCertificate[] | null> {
+	const { address, port, protocol } = target;
+
+	let plaintextSocket: net.Socket;
+	try {
+		plaintextSocket = protocol === "tls" ? net.connect({ host: address, port }) : await negotiateStartTls({ ...target, protocol }, timeoutMs);
+	} catch {
+		return null;
+	}
+
+	const recorder = new HandshakeRecorder(plaintextSocket);
+
+	return new Promise((resolve) => {
+		const socket = tls.connect(
+			{
+				socket: recorder,
+				servername: sniName(target.servername),
+				rejectUnauthorized: false,
+				maxVersion: "TLSv1.2",
+			},
+			() => {
+				try {
+					const certificates = parseCertificateMessage(recorder.received);
+					resolve(certificates ? certificates.map(describeSentCertificate) : null);
+				} catch {
+					resolve(null);
+				} finally {
+					socket.destroy();
+				}
+			}
+		);
+
+		plaintextSocket.setTimeout(timeoutMs, () => socket.destroy(new Error("Timed out")));
+		socket.once("error", () => resolve(null));
+	});
+}
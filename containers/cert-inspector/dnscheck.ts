@@ -0,0 +1,257 @@
+import { X509Certificate, createHash } from "node:crypto";
+import { Resolver } from "node:dns/promises";
+import net from "node:net";
+
+export type CaaRecord = { critical: boolean; tag: string; value: string };
+
+/**
+ * `none` when no name up the tree has CAA records, so any CA may issue; `unknown-issuer` when there
+ * are records but the issuer is not one this check can map to a CAA identifier.
+ */
+export type CaaStatus = "none" | "permitted" | "forbidden" | "unknown-issuer" | "error";
+
+export type CaaCheck = {
+	status: CaaStatus;
+	/** The closest name with CAA records, which is the one that applies */
+	domain: string | null;
+	records: CaaRecord[];
+	/** The CAA identifiers the records allow to issue this certificate; empty when none may */
+	allowedIssuers: string[];
+	/** The CAA identifiers the certificate's issuer is known by */
+	issuerIdentifiers: string[];
+	error: string | null;
+};
+
+export type TlsaStatus = "none" | "valid" | "invalid" | "error";
+
+export type TlsaRecordCheck = {
+	usage: number;
+	selector: number;
+	matchingType: number;
+	/** Hex of the association data */
+	data: string;
+	matched: boolean;
+};
+
+export type TlsaCheck = {
+	status: TlsaStatus;
+	/** The `_port._tcp.host` name the records were looked up at */
+	name: string;
+	records: TlsaRecordCheck[];
+	error: string | null;
+};
+
+export type DnsChecks = { caa: CaaCheck; tlsa: TlsaCheck };
+
+const DNS_TIMEOUT_MS = 5000;
+
+/** Names that mean the record set is empty rather than that the lookup failed */
+const NO_RECORDS_CODES = new Set(["ENODATA", "ENOTFOUND"]);
+
+/**
+ * The CAA identifiers of widely used CAs, keyed by the pattern their certificates' issuer
+ * organization matches. An issuer that matches none of them is reported as `unknown-issuer`.
+ */
+const CAA_IDENTIFIERS: Array<{ issuer: RegExp; identifiers: string[] }> = [
+	{ issuer: /let's encrypt/i, identifiers: ["letsencrypt.org"] },
+	{ issuer: /google trust services/i, identifiers: ["pki.goog"] },
+	{ issuer: /amazon/i, identifiers: ["amazon.com", "amazontrust.com", "awstrust.com", "amazonaws.com"] },
+	{
+		issuer: /digicert|geotrust|rapidssl|thawte|symantec/i,
+		identifiers: ["digicert.com", "www.digicert.com", "symantec.com", "geotrust.com", "rapidssl.com", "thawte.com"],
+	},
+	{ issuer: /sectigo|comodo|usertrust|zerossl/i, identifiers: ["sectigo.com", "comodoca.com", "comodo.com", "usertrust.com", "trust-provider.com"] },
+	{ issuer: /globalsign/i, identifiers: ["globalsign.com"] },
+	{ issuer: /godaddy|starfield/i, identifiers: ["godaddy.com", "starfieldtech.com"] },
+	{ issuer: /entrust|affirmtrust/i, identifiers: ["entrust.net", "affirmtrust.com"] },
+	{ issuer: /microsoft/i, identifiers: ["microsoft.com"] },
+	{ issuer: /ssl corporation|ssl\.com/i, identifiers: ["ssl.com"] },
+	{ issuer: /buypass/i, identifiers: ["buypass.com", "buypass.no"] },
+	{ issuer: /certum|unizeto|asseco/i, identifiers: ["certum.pl", "certum.eu"] },
+	{ issuer: /harica|hellenic academic/i, identifiers: ["harica.gr"] },
+];
+
+/** Reads `DNS_RESOLVERS` from the environment the worker starts the container with; a bad entry stops the server starting */
+export function createDnsResolver(env: NodeJS.ProcessEnv = process.env): Resolver {
+	const resolver = new Resolver({ timeout: DNS_TIMEOUT_MS, tries: 2 });
+	const servers = (env.DNS_RESOLVERS ?? "")
+		.split(",")
+		.map((server) => server.trim())
+		.filter(Boolean);
+
+	if (servers.length > 0) {
+		resolver.setServers(servers);
+	}
+	return resolver;
+}
+
+export const dnsResolver = createDnsResolver();
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+function isNoRecordsError(error: unknown): boolean {
+	return error instanceof Error && NO_RECORDS_CODES.has((error as NodeJS.ErrnoException).code ?? "");
+}
+
+function toCaaRecord(record: Awaited<ReturnType<Resolver["resolveCaa"]>>[number]): CaaRecord {
+	const { critical, ...properties } = record;
+	const [tag, value] = Object.entries(properties).find(([, value]) => typeof value === "string") ?? ["unknown", ""];
+	return { critical: critical !== 0, tag, value: String(value) };
+}
+
+/** The issuer domain of an `issue` or `issuewild` value, dropping any parameters; empty forbids every CA */
+function caaIssuerDomain(value: string): string {
+	return value.split(";")[0].trim().toLowerCase();
+}
+
+/** RFC 8659: the records that apply are those of the closest name, walking up from the host, that has any */
+async function findCaaRecords(host: string, resolver: Resolver): Promise<{ domain: string; records: CaaRecord[] } | null> {
+	const labels = host.replace(/\.$/, "").split(".");
+
+	for (let index = 0; index < labels.length; index++) {
+		const domain = labels.slice(index).join(".");
+		try {
+			const records = await resolver.resolveCaa(domain);
+			if (records.length > 0) {
+				return { domain, records: records.map(toCaaRecord) };
+			}
+		} catch (error) {
+			if (!isNoRecordsError(error)) {
+				throw error;
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Whether the CAA records that apply to `host` let the certificate's issuer issue for it. A
+ * wildcard certificate covering the host is checked against `issuewild` when the records have any.
+ * CAA is only enforced at issuance, so a forbidden issuer may simply predate the records.
+ */
+export async function checkCaa(
+	host: string,
+	issuerOrganization: string | null,
+	wildcard: boolean,
+	resolver: Resolver = dnsResolver
+): Promise<CaaCheck> {
+	const issuerIdentifiers = issuerOrganization
+		? CAA_IDENTIFIERS.filter((entry) => entry.issuer.test(issuerOrganization)).flatMap((entry) => entry.identifiers)
+		: [];
+	const check: CaaCheck = { status: "none", domain: null, records: [], allowedIssuers: [], issuerIdentifiers, error: null };
+
+	let found: Awaited<ReturnType<typeof findCaaRecords>>;
+	try {
+		found = await findCaaRecords(host, resolver);
+	} catch (error) {
+		return { ...check, status: "error", error: errorMessage(error) };
+	}
+
+	if (!found) {
+		return check;
+	}
+
+	const issue = found.records.filter((record) => record.tag === "issue");
+	const issueWild = found.records.filter((record) => record.tag === "issuewild");
+	const applicable = wildcard && issueWild.length > 0 ? issueWild : issue;
+	const allowedIssuers = [...new Set(applicable.map((record) => caaIssuerDomain(record.value)).filter(Boolean))];
+
+	// Records that only carry other tags, such as iodef, restrict nothing
+	const restricted = applicable.length > 0;
+	const status: CaaStatus = !restricted
+		? "permitted"
+		: allowedIssuers.some((identifier) => issuerIdentifiers.includes(identifier))
+			? "permitted"
+			: issuerIdentifiers.length > 0 || allowedIssuers.length === 0
+				? "forbidden"
+				: "unknown-issuer";
+
+	return { ...check, status, domain: found.domain, records: found.records, allowedIssuers };
+}
+
+function tlsaDigest(data: Buffer, matchingType: number): Buffer | null {
+	switch (matchingType) {
+		case 0:
+			return data;
+		case 1:
+			return createHash("sha256").update(data).digest();
+		case 2:
+			return createHash("sha512").update(data).digest();
+		default:
+			return null;
+	}
+}
+
+/**
+ * RFC 6698: an end-entity usage (1, 3) is matched against the leaf and a trust anchor usage (0, 2)
+ * against the CA certificates in the chain. The PKIX usages (0, 1) also need the chain to verify.
+ * The resolver's answer is taken as is; TLSA only means something from a DNSSEC-validating resolver.
+ */
+export async function checkTlsa(
+	host: string,
+	port: number,
+	chainDer: Buffer[],
+	authorized: boolean,
+	resolver: Resolver = dnsResolver
+): Promise<TlsaCheck> {
+	const name = `_${port}._tcp.${host.replace(/\.$/, "")}`;
+
+	let records: Awaited<ReturnType<Resolver["resolveTlsa"]>>;
+	try {
+		records = await resolver.resolveTlsa(name);
+	} catch (error) {
+		if (isNoRecordsError(error)) {
+			return { status: "none", name, records: [], error: null };
+		}
+		return { status: "error", name, records: [], error: errorMessage(error) };
+	}
+
+	let certificates: Array<{ der: Buffer; spki: Buffer }>;
+	try {
+		certificates = chainDer.map((der) => ({ der, spki: new X509Certificate(der).publicKey.export({ type: "spki", format: "der" }) }));
+	} catch (error) {
+		return { status: "error", name, records: [], error: `Could not read the certificate chain: ${errorMessage(error)}` };
+	}
+
+	const checked = records.map((record): TlsaRecordCheck => {
+		const data = Buffer.from(record.data);
+		const candidates = record.certUsage === 1 || record.certUsage === 3 ? certificates.slice(0, 1) : certificates.slice(1);
+		const usable = record.certUsage <= 3 && (record.certUsage >= 2 || authorized);
+
+		const matched =
+			usable &&
+			candidates.some((certificate) => {
+				const selected = record.selector === 0 ? certificate.der : record.selector === 1 ? certificate.spki : null;
+				const digest = selected && tlsaDigest(selected, record.match);
+				return digest !== null && digest.equals(data);
+			});
+
+		return { usage: record.certUsage, selector: record.selector, matchingType: record.match, data: data.toString("hex"), matched };
+	});
+
+	if (checked.length === 0) {
+		return { status: "none", name, records: [], error: null };
+	}
+	return { status: checked.some((record) => record.matched) ? "valid" : "invalid", name, records: checked, error: null };
+}
+
+/** Null for an IP address, which has neither CAA nor TLSA records */
+export async function checkDns(
+	servername: string,
+	port: number,
+	chainDer: Buffer[],
+	certificate: { issuerOrganization: string | null; wildcard: boolean; authorized: boolean }
+): Promise<DnsChecks | null> {
+	if (net.isIP(servername) !== 0 || chainDer.length === 0) {
+		return null;
+	}
+
+	const [caa, tlsa] = await Promise.all([
+		checkCaa(servername, certificate.issuerOrganization, certificate.wildcard),
+		checkTlsa(servername, port, chainDer, certificate.authorized),
+	]);
+	return { caa, tlsa };
+}
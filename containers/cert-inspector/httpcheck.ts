@@ -0,0 +1,185 @@
+import http, { type IncomingHttpHeaders } from "node:http";
+import net from "node:net";
+import type tls from "node:tls";
+import { checkHost, resolveAllowedAddresses } from "./policy";
+
+/** The response headers worth reporting on; the rest of the response is discarded */
+export const SECURITY_HEADERS = [
+	"strict-transport-security",
+	"content-security-policy",
+	"x-frame-options",
+	"x-content-type-options",
+	"referrer-policy",
+	"permissions-policy",
+] as const;
+
+export type SecurityHeader = (typeof SECURITY_HEADERS)[number];
+
+export type HstsPolicy = {
+	/** Null when the header has no valid max-age, which browsers ignore */
+	maxAge: number | null;
+	includeSubDomains: boolean;
+	preload: boolean;
+};
+
+/** The response to `GET /` sent over the inspected TLS connection */
+export type HttpsCheck = {
+	status: number | null;
+	location: string | null;
+	/** Only the security headers the response set */
+	headers: Partial<Record<SecurityHeader, string>>;
+	hsts: HstsPolicy | null;
+	error: string | null;
+};
+
+export type RedirectHop = { url: string; status: number; location: string | null };
+
+/** What a plain HTTP request to port 80 leads to */
+export type RedirectCheck = {
+	/** Each plain HTTP response in turn, following redirects until one leads to HTTPS */
+	hops: RedirectHop[];
+	/** The HTTPS URL the redirects end on, or null when they never reach one */
+	httpsUrl: string | null;
+	error: string | null;
+};
+
+export type HttpChecks = { https: HttpsCheck; redirect: RedirectCheck };
+
+/** Where the checks go: the inspected host, the checked address to connect to and the name to ask for */
+export type HttpTarget = {
+	host: string;
+	address: string;
+	port: number;
+	servername: string;
+};
+
+const HTTP_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+const USER_AGENT = "cert-inspector";
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/** `host` or `host:port`, with brackets around IPv6 literals, for the Host header and URLs */
+function authority(host: string, port: number, defaultPort: number): string {
+	const name = net.isIPv6(host) ? `[${host}]` : host;
+	return port === defaultPort ? name : `${name}:${port}`;
+}
+
+function headerValue(headers: IncomingHttpHeaders, name: string): string | null {
+	const value = headers[name];
+	return Array.isArray(value) ? value.join(", ") : value ?? null;
+}
+
+/** RFC 6797 section 6.1; directive names are case-insensitive and max-age may be quoted */
+export function parseHsts(header: string): HstsPolicy {
+	const directives = header.split(";").map((directive) => directive.trim().toLowerCase());
+	const maxAge = directives.map((directive) => directive.match(/^max-age\s*=\s*"?(\d+)"?$/)).find(Boolean);
+
+	return {
+		maxAge: maxAge ? Number.parseInt(maxAge[1], 10) : null,
+		includeSubDomains: directives.includes("includesubdomains"),
+		preload: directives.includes("preload"),
+	};
+}
+
+/** Sends one request and resolves with the response headers, discarding the body */
+function request(options: http.RequestOptions): Promise<http.IncomingMessage> {
+	return new Promise((resolve, reject) => {
+		const outgoing = http.request({ ...options, method: "GET", headers: { ...options.headers, "user-agent": USER_AGENT, accept: "*/*" } });
+
+		outgoing.setTimeout(HTTP_TIMEOUT_MS, () => {
+			outgoing.destroy(new Error("Timed out waiting for the HTTP response."));
+		});
+		outgoing.once("response", (response) => {
+			response.destroy();
+			resolve(response);
+		});
+		outgoing.once("error", reject);
+		outgoing.end();
+	});
+}
+
+/**
+ * Asks for `/` over the connection the certificate was read from, so the headers describe the same
+ * backend. The handshake offered no ALPN, so the server speaks HTTP/1.1. The socket is closed after.
+ */
+async function checkHttps(socket: tls.TLSSocket, target: HttpTarget): Promise<HttpsCheck> {
+	try {
+		const response = await request({
+			createConnection: () => socket,
+			path: "/",
+			headers: { host: authority(target.servername, target.port, 443) },
+		});
+
+		const headers: HttpsCheck["headers"] = {};
+		for (const name of SECURITY_HEADERS) {
+			const value = headerValue(response.headers, name);
+			if (value !== null) {
+				headers[name] = value;
+			}
+		}
+
+		return {
+			status: response.statusCode ?? null,
+			location: headerValue(response.headers, "location"),
+			headers,
+			hsts: headers["strict-transport-security"] ? parseHsts(headers["strict-transport-security"]) : null,
+			error: null,
+		};
+	} catch (error) {
+		return { status: null, location: null, headers: {}, hsts: null, error: errorMessage(error) };
+	} finally {
+		socket.destroy();
+	}
+}
+
+/**
+ * Requests `http://servername/` on port 80 and follows plain HTTP redirects until one leads to
+ * HTTPS. The first request goes to the inspected address; every later host is checked against the
+ * target policy like any other target, and a refused one ends the chain with an error.
+ */
+async function checkRedirects(target: HttpTarget): Promise<RedirectCheck> {
+	const hops: RedirectHop[] = [];
+	let url = new URL(`http://${authority(target.servername, 80, 80)}/`);
+
+	try {
+		for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+			const hostname = url.hostname.replace(/^\[|\]$/g, "");
+			const port = Number.parseInt(url.port || "80", 10);
+			const first = hops.length === 0;
+
+			checkHost(first ? target.host : hostname, port);
+			const [address] = first ? [target.address] : await resolveAllowedAddresses(hostname);
+
+			const response = await request({ host: address, port, path: `${url.pathname}${url.search}`, headers: { host: url.host } });
+			const location = headerValue(response.headers, "location");
+			const status = response.statusCode ?? 0;
+			hops.push({ url: url.toString(), status, location });
+
+			if (status < 300 || status >= 400 || !location) {
+				return { hops, httpsUrl: null, error: null };
+			}
+
+			const next = new URL(location, url);
+			if (next.protocol === "https:") {
+				return { hops, httpsUrl: next.toString(), error: null };
+			}
+			if (next.protocol !== "http:") {
+				return { hops, httpsUrl: null, error: `Redirected to an unsupported URL: ${next.toString()}` };
+			}
+			url = next;
+		}
+
+		return { hops, httpsUrl: null, error: `Stopped after ${MAX_REDIRECTS} redirects.` };
+	} catch (error) {
+		return { hops, httpsUrl: null, error: errorMessage(error) };
+	}
+}
+
+/** Both checks run at once; `socket` is the inspected connection, which this takes over and closes */
+export async function checkHttp(socket: tls.TLSSocket, target: HttpTarget): Promise<HttpChecks> {
+	const [https, redirect] = await Promise.all([checkHttps(socket, target), checkRedirects(target)]);
+	return { https, redirect };
+}
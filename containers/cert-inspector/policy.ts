@@ -0,0 +1,149 @@
+import dns from "node:dns/promises";
+import net from "node:net";
+import { type TargetLists, hostMatches, loadTargetLists, parseList, targetListsRefusal } from "../../shared/targetLists";
+
+/** Thrown when a target is refused by the policy; the server answers 403 rather than 502 for it */
+export class TargetNotAllowedError extends Error {
+	override name = "TargetNotAllowedError";
+}
+
+type AddressRange = { network: string; prefix: number; family: "ipv4" | "ipv6"; label: string };
+
+/** Ranges that are never public: a target resolving into one is refused unless an allowed CIDR covers it */
+const BLOCKED_RANGES: AddressRange[] = [
+	{ network: "0.0.0.0", prefix: 8, family: "ipv4", label: "this network" },
+	{ network: "10.0.0.0", prefix: 8, family: "ipv4", label: "private" },
+	{ network: "100.64.0.0", prefix: 10, family: "ipv4", label: "shared address space" },
+	{ network: "127.0.0.0", prefix: 8, family: "ipv4", label: "loopback" },
+	{ network: "169.254.0.0", prefix: 16, family: "ipv4", label: "link-local and cloud metadata" },
+	{ network: "172.16.0.0", prefix: 12, family: "ipv4", label: "private" },
+	{ network: "192.0.0.0", prefix: 24, family: "ipv4", label: "protocol assignments" },
+	{ network: "192.0.2.0", prefix: 24, family: "ipv4", label: "documentation" },
+	{ network: "192.168.0.0", prefix: 16, family: "ipv4", label: "private" },
+	{ network: "198.18.0.0", prefix: 15, family: "ipv4", label: "benchmarking" },
+	{ network: "198.51.100.0", prefix: 24, family: "ipv4", label: "documentation" },
+	{ network: "203.0.113.0", prefix: 24, family: "ipv4", label: "documentation" },
+	{ network: "224.0.0.0", prefix: 4, family: "ipv4", label: "multicast" },
+	{ network: "240.0.0.0", prefix: 4, family: "ipv4", label: "reserved" },
+	{ network: "::", prefix: 128, family: "ipv6", label: "unspecified" },
+	{ network: "::1", prefix: 128, family: "ipv6", label: "loopback" },
+	// NAT64 and 6to4 addresses embed an IPv4 address, which may be an internal one
+	{ network: "64:ff9b::", prefix: 96, family: "ipv6", label: "NAT64" },
+	{ network: "64:ff9b:1::", prefix: 48, family: "ipv6", label: "local-use translation" },
+	{ network: "100::", prefix: 64, family: "ipv6", label: "discard" },
+	{ network: "2001:db8::", prefix: 32, family: "ipv6", label: "documentation" },
+	{ network: "2002::", prefix: 16, family: "ipv6", label: "6to4" },
+	{ network: "fc00::", prefix: 7, family: "ipv6", label: "unique local and cloud metadata" },
+	{ network: "fe80::", prefix: 10, family: "ipv6", label: "link-local" },
+	{ network: "ff00::", prefix: 8, family: "ipv6", label: "multicast" },
+];
+
+export type TargetPolicy = TargetLists & {
+	/** Addresses in these ranges are allowed even when they fall in a blocked range */
+	allowCidrs: net.BlockList;
+	/** Refused on top of the built-in blocked ranges */
+	denyCidrs: net.BlockList;
+};
+
+function parseCidrs(name: string, value: string | undefined): net.BlockList {
+	const list = new net.BlockList();
+
+	for (const entry of parseList(value)) {
+		const [address, prefix] = entry.split("/");
+		const family = net.isIP(address);
+		const bits = prefix === undefined ? (family === 6 ? 128 : 32) : Number(prefix);
+
+		if (family === 0 || !Number.isInteger(bits) || bits < 0 || bits > (family === 6 ? 128 : 32)) {
+			throw new Error(`${name} contains ${entry}, which is not an IP address or CIDR range.`);
+		}
+
+		list.addSubnet(address, bits, family === 6 ? "ipv6" : "ipv4");
+	}
+
+	return list;
+}
+
+/** Reads the policy from the environment the worker starts the container with; a bad entry stops the server starting */
+export function loadTargetPolicy(env: NodeJS.ProcessEnv = process.env): TargetPolicy {
+	return {
+		...loadTargetLists(env),
+		allowCidrs: parseCidrs("TARGET_ALLOW_CIDRS", env.TARGET_ALLOW_CIDRS),
+		denyCidrs: parseCidrs("TARGET_DENY_CIDRS", env.TARGET_DENY_CIDRS),
+	};
+}
+
+export const targetPolicy = loadTargetPolicy();
+
+const blockedRanges = BLOCKED_RANGES.map((range) => {
+	const list = new net.BlockList();
+	list.addSubnet(range.network, range.prefix, range.family);
+	return { list, ...range };
+});
+
+/** `::ffff:10.0.0.1` reaches 10.0.0.1, so mapped addresses are checked as the IPv4 address they carry */
+function unmapAddress(address: string): { address: string; family: "ipv4" | "ipv6" } {
+	const mapped = address.toLowerCase().match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+	if (mapped?.[1]) {
+		return { address: mapped[1], family: "ipv4" };
+	}
+	if (mapped?.[2]) {
+		const high = Number.parseInt(mapped[2], 16);
+		const low = Number.parseInt(mapped[3], 16);
+		return { address: [high >> 8, high & 0xff, low >> 8, low & 0xff].join("."), family: "ipv4" };
+	}
+	return { address, family: net.isIP(address) === 6 ? "ipv6" : "ipv4" };
+}
+
+/** Refuses a host or port before anything is resolved or connected to */
+export function checkHost(host: string, port: number, policy: TargetPolicy = targetPolicy): void {
+	const refusal = targetListsRefusal(policy, host, port);
+	if (refusal !== null) {
+		throw new TargetNotAllowedError(refusal);
+	}
+}
+
+export function checkAddress(address: string, policy: TargetPolicy = targetPolicy): void {
+	const { address: checked, family } = unmapAddress(address);
+
+	if (policy.denyCidrs.check(checked, family)) {
+		throw new TargetNotAllowedError(`${address} is in a denied range.`);
+	}
+	if (policy.allowCidrs.check(checked, family)) {
+		return;
+	}
+
+	const blocked = blockedRanges.find((range) => range.family === family && range.list.check(checked, family));
+	if (blocked) {
+		throw new TargetNotAllowedError(`${address} is in a blocked ${blocked.label} range.`);
+	}
+}
+
+/**
+ * Resolves the host and checks every address it has, so a name with one internal record cannot
+ * slip through. Callers connect to the returned addresses rather than the name, which keeps a
+ * second lookup from answering differently.
+ */
+export async function resolveAllowedAddresses(host: string, policy: TargetPolicy = targetPolicy): Promise<string[]> {
+	const resolved = net.isIP(host) ? [{ address: host }] : await dns.lookup(host, { all: true, verbatim: true });
+	const addresses = [...new Set(resolved.map(({ address }) => address))];
+
+	for (const address of addresses) {
+		checkAddress(address, policy);
+	}
+
+	return addresses;
+}
+
+/**
+ * For OCSP and CRL URLs taken from certificates, which the server being inspected controls. The
+ * allow lists describe what may be inspected, so only the deny list and address checks apply here.
+ * Resolves with the addresses to connect to, like `resolveAllowedAddresses`.
+ */
+export async function checkUrl(url: string, policy: TargetPolicy = targetPolicy): Promise<string[]> {
+	const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+
+	if (policy.denyHosts.some((pattern) => hostMatches(host.toLowerCase(), pattern))) {
+		throw new TargetNotAllowedError(`${host} is on the deny list.`);
+	}
+	return resolveAllowedAddresses(host, policy);
+}
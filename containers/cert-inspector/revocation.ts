@@ -0,0 +1,423 @@
+import crypto, { type KeyObject, X509Certificate } from "node:crypto";
+import http from "node:http";
+import https from "node:https";
+import net from "node:net";
+import {
+	type DerNode,
+	TAG,
+	bitStringBytes,
+	children,
+	contextTag,
+	decodeOid,
+	decodeSmallInteger,
+	decodeTime,
+	encode,
+	encodeOid,
+	readNode,
+	sequence,
+} from "./asn1";
+import { type TargetPolicy, checkUrl, targetPolicy } from "./policy";
+import { OID, type ParsedCertificate, crlDistributionPoints, ocspResponderUrls, parseCertificate, parseExtensions, signatureDigest } from "./x509";
+
+export type RevocationStatus = "good" | "revoked" | "unknown" | "unavailable";
+
+export type RevocationSource = "stapled-ocsp" | "ocsp" | "crl";
+
+export type RevocationCheck = {
+	status: RevocationStatus;
+	source: RevocationSource | null;
+	/** The responder or distribution point that answered; null for a stapled response */
+	url: string | null;
+	thisUpdate: string | null;
+	nextUpdate: string | null;
+	revokedAt: string | null;
+	reason: string | null;
+	/** Whether the response was signed by the issuer or a responder it delegated to; null when the algorithm is unsupported */
+	signatureValid: boolean | null;
+	/** Why each source that was tried could not give an answer */
+	errors: string[];
+};
+
+type RevocationAnswer = Pick<RevocationCheck, "status" | "thisUpdate" | "nextUpdate" | "revokedAt" | "reason" | "signatureValid">;
+
+/** RFC 5280 CRLReason values; 7 is unused */
+const REVOCATION_REASONS: Record<number, string> = {
+	0: "unspecified",
+	1: "keyCompromise",
+	2: "cACompromise",
+	3: "affiliationChanged",
+	4: "superseded",
+	5: "cessationOfOperation",
+	6: "certificateHold",
+	8: "removeFromCRL",
+	9: "privilegeWithdrawn",
+	10: "aACompromise",
+};
+
+const OCSP_RESPONSE_STATUSES: Record<number, string> = {
+	1: "malformedRequest",
+	2: "internalError",
+	3: "tryLater",
+	5: "sigRequired",
+	6: "unauthorized",
+};
+
+const CERT_ID_DIGESTS: Record<string, string> = {
+	[OID.sha1]: "sha1",
+	"2.16.840.1.101.3.4.2.1": "sha256",
+	"2.16.840.1.101.3.4.2.2": "sha384",
+	"2.16.840.1.101.3.4.2.3": "sha512",
+};
+
+const MAX_OCSP_RESPONSE_BYTES = 64 * 1024;
+const MAX_CRL_BYTES = 20 * 1024 * 1024;
+
+type FetchInit = { method?: "GET" | "POST"; headers?: Record<string, string>; body?: Buffer };
+
+/** Subject of a CertID: the certificate's serial plus hashes that identify its issuer */
+type CertificateIdentity = {
+	certificate: ParsedCertificate;
+	issuer: X509Certificate;
+	issuerPublicKey: Buffer;
+};
+
+function digest(algorithm: string, data: Buffer): Buffer {
+	return crypto.createHash(algorithm).update(data).digest();
+}
+
+function reasonName(code: number): string {
+	return REVOCATION_REASONS[code] ?? `unknown (${code})`;
+}
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+function verifySignature(signed: DerNode, algorithm: DerNode, signature: DerNode, keys: KeyObject[]): boolean | null {
+	const hash = signatureDigest(algorithm);
+	if (hash === undefined) {
+		return null;
+	}
+
+	return keys.some((key) => {
+		try {
+			return crypto.verify(hash, signed.raw, key, bitStringBytes(signature));
+		} catch {
+			return false;
+		}
+	});
+}
+
+/** OCSPRequest { tbsRequest { requestList { Request { reqCert CertID } } } } using SHA-1 as RFC 5019 recommends */
+export function buildOcspRequest({ certificate, issuerPublicKey }: CertificateIdentity): Buffer {
+	const certId = sequence(
+		sequence(encodeOid(OID.sha1), encode(TAG.NULL, Buffer.alloc(0))),
+		encode(TAG.OCTET_STRING, digest("sha1", certificate.issuerName)),
+		encode(TAG.OCTET_STRING, digest("sha1", issuerPublicKey)),
+		encode(TAG.INTEGER, certificate.serialNumber)
+	);
+
+	return sequence(sequence(sequence(sequence(certId))));
+}
+
+function matchesCertId(certId: DerNode, { certificate, issuerPublicKey }: CertificateIdentity): boolean {
+	const [algorithm, issuerNameHash, issuerKeyHash, serialNumber] = children(certId);
+	const hash = CERT_ID_DIGESTS[decodeOid(children(algorithm)[0])];
+
+	return (
+		hash !== undefined &&
+		serialNumber.content.equals(certificate.serialNumber) &&
+		issuerNameHash.content.equals(digest(hash, certificate.issuerName)) &&
+		issuerKeyHash.content.equals(digest(hash, issuerPublicKey))
+	);
+}
+
+/** Keys allowed to sign OCSP responses: the issuer's own, or a responder certificate it issued for OCSP signing */
+function ocspSigningKeys(basicResponseFields: DerNode[], issuer: X509Certificate): KeyObject[] {
+	const keys = [issuer.publicKey];
+	const certs = basicResponseFields.find((field) => field.tag === contextTag(0, true));
+
+	for (const certificate of certs ? children(readNode(certs.content)) : []) {
+		try {
+			const responder = new X509Certificate(certificate.raw);
+			if (responder.checkIssued(issuer) && responder.verify(issuer.publicKey) && responder.keyUsage?.includes(OID.ocspSigning)) {
+				keys.push(responder.publicKey);
+			}
+		} catch {
+			// Ignore certificates that cannot be parsed
+		}
+	}
+
+	return keys;
+}
+
+export function parseOcspResponse(der: Buffer, identity: CertificateIdentity): RevocationAnswer {
+	const [responseStatus, responseBytes] = children(readNode(der));
+	const statusCode = decodeSmallInteger(responseStatus);
+
+	if (statusCode !== 0) {
+		throw new Error(`The OCSP responder returned ${OCSP_RESPONSE_STATUSES[statusCode] ?? `status ${statusCode}`}.`);
+	}
+
+	if (!responseBytes) {
+		throw new Error("The OCSP response has no response body.");
+	}
+
+	const [responseType, response] = children(readNode(responseBytes.content));
+	if (decodeOid(responseType) !== OID.ocspBasicResponse) {
+		throw new Error("The OCSP response is not a basic OCSP response.");
+	}
+
+	const basicResponseFields = children(readNode(response.content));
+	const [tbsResponseData, signatureAlgorithm, signature] = basicResponseFields;
+
+	// ResponseData { version [0] OPTIONAL, responderID, producedAt, responses, responseExtensions [1] OPTIONAL }
+	const responseData = children(tbsResponseData);
+	const responses = responseData[responseData[0].tag === contextTag(0, true) ? 3 : 2];
+	const single = children(responses).find((candidate) => matchesCertId(children(candidate)[0], identity));
+
+	if (!single) {
+		throw new Error("The OCSP response does not cover this certificate.");
+	}
+
+	const [, certStatus, thisUpdate, ...rest] = children(single);
+	const nextUpdate = rest.find((field) => field.tag === contextTag(0, true));
+	const answer: RevocationAnswer = {
+		status: "unknown",
+		thisUpdate: decodeTime(thisUpdate),
+		nextUpdate: nextUpdate ? decodeTime(readNode(nextUpdate.content)) : null,
+		revokedAt: null,
+		reason: null,
+		signatureValid: verifySignature(tbsResponseData, signatureAlgorithm, signature, ocspSigningKeys(basicResponseFields, identity.issuer)),
+	};
+
+	if (certStatus.tag === contextTag(0, false)) {
+		answer.status = "good";
+	} else if (certStatus.tag === contextTag(1, true)) {
+		// RevokedInfo { revocationTime, revocationReason [0] EXPLICIT CRLReason OPTIONAL }
+		const [revocationTime, revocationReason] = children(certStatus);
+		answer.status = "revoked";
+		answer.revokedAt = decodeTime(revocationTime);
+		answer.reason = revocationReason ? reasonName(decodeSmallInteger(readNode(revocationReason.content))) : null;
+	}
+
+	return answer;
+}
+
+export function parseCrl(der: Buffer, identity: CertificateIdentity): RevocationAnswer {
+	const [tbsCertList, signatureAlgorithm, signature] = children(readNode(der));
+	const fields = children(tbsCertList);
+
+	// TBSCertList { version OPTIONAL, signature, issuer, thisUpdate, nextUpdate OPTIONAL, revokedCertificates OPTIONAL, ... }
+	let index = fields[0].tag === TAG.INTEGER ? 1 : 0;
+	const issuer = fields[index + 1];
+	const thisUpdate = fields[index + 2];
+	index += 3;
+
+	const nextUpdate = fields[index]?.tag === TAG.UTC_TIME || fields[index]?.tag === TAG.GENERALIZED_TIME ? fields[index++] : undefined;
+	const revokedCertificates = fields[index]?.tag === TAG.SEQUENCE ? fields[index] : undefined;
+
+	if (!issuer.raw.equals(identity.certificate.issuerName)) {
+		throw new Error("The CRL was published by a different issuer.");
+	}
+
+	const answer: RevocationAnswer = {
+		status: "good",
+		thisUpdate: decodeTime(thisUpdate),
+		nextUpdate: nextUpdate ? decodeTime(nextUpdate) : null,
+		revokedAt: null,
+		reason: null,
+		signatureValid: verifySignature(tbsCertList, signatureAlgorithm, signature, [identity.issuer.publicKey]),
+	};
+
+	for (const entry of revokedCertificates ? children(revokedCertificates) : []) {
+		const [serialNumber, revocationDate, entryExtensions] = children(entry);
+		if (!serialNumber.content.equals(identity.certificate.serialNumber)) {
+			continue;
+		}
+
+		const reason = entryExtensions ? parseExtensions(entryExtensions).get(OID.crlReason) : undefined;
+		answer.status = "revoked";
+		answer.revokedAt = decodeTime(revocationDate);
+		answer.reason = reason ? reasonName(decodeSmallInteger(reason.value)) : null;
+		break;
+	}
+
+	return answer;
+}
+
+/** Answers every lookup with the address that was checked, so the connection cannot go elsewhere */
+function pinnedLookup(address: string): net.LookupFunction {
+	const family = net.isIP(address);
+	return (_hostname, options, callback) => (options.all ? callback(null, [{ address, family }]) : callback(null, address, family));
+}
+
+/** Redirects are not followed, since they could lead somewhere the policy refuses */
+async function fetchBytes(url: string, init: FetchInit, timeoutMs: number, maxBytes: number, policy: TargetPolicy): Promise<Buffer> {
+	const target = new URL(url);
+	const [address] = await checkUrl(url, policy);
+	const client = target.protocol === "https:" ? https : http;
+
+	return new Promise((resolve, reject) => {
+		const request = client.request(
+			target,
+			{ method: init.method ?? "GET", headers: init.headers, lookup: pinnedLookup(address), signal: AbortSignal.timeout(timeoutMs) },
+			(response) => {
+				const status = response.statusCode ?? 0;
+				if (status < 200 || status >= 300) {
+					request.destroy(new Error(`${url} responded with status ${status}.`));
+					return;
+				}
+				if (Number(response.headers["content-length"] ?? 0) > maxBytes) {
+					request.destroy(new Error(`${url} returned more than ${maxBytes} bytes.`));
+					return;
+				}
+
+				const chunks: Buffer[] = [];
+				let length = 0;
+				response.on("data", (chunk: Buffer) => {
+					length += chunk.length;
+					if (length > maxBytes) {
+						request.destroy(new Error(`${url} returned more than ${maxBytes} bytes.`));
+						return;
+					}
+					chunks.push(chunk);
+				});
+				response.once("end", () => resolve(Buffer.concat(chunks)));
+				response.once("error", reject);
+			}
+		);
+
+		request.once("error", reject);
+		request.end(init.body);
+	});
+}
+
+/** CRLs are normally DER but some distribution points serve PEM */
+function decodeCrl(body: Buffer): Buffer {
+	const text = body.subarray(0, 64).toString("ascii");
+	if (!text.startsWith("-----BEGIN")) {
+		return body;
+	}
+
+	const base64 = body.toString("ascii").replace(/-----(BEGIN|END)[^-]+-----/g, "").replace(/\s+/g, "");
+	return Buffer.from(base64, "base64");
+}
+
+/** Stale or unverifiable answers are reported as errors so the next source gets a chance */
+function rejectUntrusted(answer: RevocationAnswer): RevocationAnswer {
+	if (answer.signatureValid === false) {
+		throw new Error("The response signature does not verify against the issuer.");
+	}
+
+	if (answer.nextUpdate && Date.parse(answer.nextUpdate) < Date.now()) {
+		throw new Error(`The response expired at ${answer.nextUpdate}.`);
+	}
+
+	return answer;
+}
+
+function isHttpUrl(url: string): boolean {
+	return /^https?:\/\//i.test(url);
+}
+
+/**
+ * Checks whether the leaf certificate has been revoked, preferring a stapled OCSP response, then
+ * the certificate's OCSP responders and finally its CRL distribution points. Failures never throw;
+ * they are collected in `errors` and the status becomes `unavailable` when no source answered.
+ * Responders and distribution points are only fetched when `policy` allows their addresses.
+ */
+export async function checkRevocation(
+	leafDer: Buffer,
+	issuerDer: Buffer | null,
+	stapledOcsp: Buffer | null,
+	timeoutMs: number,
+	policy: TargetPolicy = targetPolicy
+): Promise<RevocationCheck> {
+	const errors: string[] = [];
+	const unavailable = (): RevocationCheck => ({
+		status: "unavailable",
+		source: null,
+		url: null,
+		thisUpdate: null,
+		nextUpdate: null,
+		revokedAt: null,
+		reason: null,
+		signatureValid: null,
+		errors,
+	});
+
+	if (!issuerDer) {
+		errors.push("The server did not send the issuer certificate.");
+		return unavailable();
+	}
+
+	let identity: CertificateIdentity;
+	try {
+		const issuer = new X509Certificate(issuerDer);
+		identity = { certificate: parseCertificate(leafDer), issuer, issuerPublicKey: parseCertificate(issuerDer).subjectPublicKey };
+	} catch (error) {
+		errors.push(`The certificate could not be parsed: ${errorMessage(error)}`);
+		return unavailable();
+	}
+
+	let fallback = null as RevocationCheck | null;
+	const attempt = async (source: RevocationSource, url: string | null, load: () => Promise<RevocationAnswer>): Promise<RevocationCheck | null> => {
+		try {
+			const check: RevocationCheck = { source, url, ...rejectUntrusted(await load()), errors };
+			if (check.status !== "unknown") {
+				return check;
+			}
+
+			// An OCSP responder that does not know the certificate should not hide a CRL entry
+			fallback ??= check;
+		} catch (error) {
+			errors.push(`${source}${url ? ` ${url}` : ""}: ${errorMessage(error)}`);
+		}
+
+		return null;
+	};
+
+	if (stapledOcsp) {
+		const result = await attempt("stapled-ocsp", null, async () => parseOcspResponse(stapledOcsp, identity));
+		if (result) {
+			return result;
+		}
+	}
+
+	const request = buildOcspRequest(identity);
+	for (const url of ocspResponderUrls(identity.certificate).filter(isHttpUrl)) {
+		const result = await attempt("ocsp", url, async () => {
+			const body = await fetchBytes(
+				url,
+				{ method: "POST", headers: { "content-type": "application/ocsp-request" }, body: request },
+				timeoutMs,
+				MAX_OCSP_RESPONSE_BYTES,
+				policy
+			);
+			return parseOcspResponse(body, identity);
+		});
+		if (result) {
+			return result;
+		}
+	}
+
+	for (const url of crlDistributionPoints(identity.certificate).filter(isHttpUrl)) {
+		const result = await attempt("crl", url, async () =>
+			parseCrl(decodeCrl(await fetchBytes(url, {}, timeoutMs, MAX_CRL_BYTES, policy)), identity)
+		);
+		if (result) {
+			return result;
+		}
+	}
+
+	if (fallback) {
+		return fallback;
+	}
+
+	if (errors.length === 0) {
+		errors.push("The certificate names no OCSP responder or CRL distribution point.");
+	}
+
+	return unavailable();
+}
@@ -0,0 +1,187 @@
+import tls from "node:tls";
+import { type ConnectionTarget, negotiateStartTls, sniName } from "./starttls";
+
+export const TLS_VERSIONS = ["TLSv1", "TLSv1.1", "TLSv1.2", "TLSv1.3"] as const;
+
+export type TlsVersion = (typeof TLS_VERSIONS)[number];
+
+export type TlsGrade = "A" | "B" | "C" | "F";
+
+export type AcceptedCipher = {
+	version: TlsVersion;
+	name: string;
+	standardName: string | null;
+	weaknesses: string[];
+};
+
+export type TlsScanResult = {
+	versions: Array<{ version: TlsVersion; supported: boolean }>;
+	ciphers: AcceptedCipher[];
+	weaknesses: string[];
+	grade: TlsGrade;
+};
+
+type ScanTarget = ConnectionTarget & {
+	timeoutMs: number;
+};
+
+type Negotiated = {
+	version: string | null;
+	name: string;
+	standardName: string | null;
+};
+
+const TLS13_CIPHER_SUITES = [
+	"TLS_AES_256_GCM_SHA384",
+	"TLS_CHACHA20_POLY1305_SHA256",
+	"TLS_AES_128_GCM_SHA256",
+	"TLS_AES_128_CCM_SHA256",
+	"TLS_AES_128_CCM_8_SHA256",
+];
+
+/** Every TLS 1.2 and earlier suite the local OpenSSL knows, including the ones it disables by default */
+const LEGACY_CIPHER_LIST = "ALL:COMPLEMENTOFALL";
+
+/** Stops a misbehaving server from keeping the scan going forever */
+const MAX_CIPHERS_PER_VERSION = 64;
+
+const WEAK_CIPHER_PATTERNS: Array<{ pattern: RegExp; weakness: string; insecure: boolean }> = [
+	{ pattern: /RC4/, weakness: "RC4", insecure: true },
+	{ pattern: /NULL/, weakness: "no encryption", insecure: true },
+	{ pattern: /EXP/, weakness: "export-grade", insecure: true },
+	{ pattern: /^(ADH|AECDH)|ANON/, weakness: "anonymous key exchange", insecure: true },
+	{ pattern: /MD5/, weakness: "MD5 MAC", insecure: true },
+	{ pattern: /(^|-)DES-CBC-/, weakness: "single DES", insecure: true },
+	{ pattern: /DES-CBC3|3DES/, weakness: "3DES", insecure: false },
+];
+
+const INSECURE_WEAKNESSES = new Set(WEAK_CIPHER_PATTERNS.filter(({ insecure }) => insecure).map(({ weakness }) => weakness));
+
+/** Classifies a suite by its OpenSSL name; TLS 1.3 suites are always forward secret */
+export function cipherWeaknesses(name: string): string[] {
+	const upper = name.toUpperCase();
+	const weaknesses = WEAK_CIPHER_PATTERNS.filter(({ pattern }) => pattern.test(upper)).map(({ weakness }) => weakness);
+
+	if (!upper.startsWith("TLS_") && !/^(ECDHE|DHE|EDH)-/.test(upper)) {
+		weaknesses.push("no forward secrecy");
+	}
+
+	return weaknesses;
+}
+
+/** Completes one handshake with the given limits, resolving null when the server refuses it */
+async function probe(target: ScanTarget, options: Pick<tls.ConnectionOptions, "minVersion" | "maxVersion" | "ciphers">): Promise<Negotiated | null> {
+	let secureContext: tls.SecureContext;
+	try {
+		secureContext = tls.createSecureContext(options);
+	} catch {
+		// The local OpenSSL cannot offer any of the requested suites
+		return null;
+	}
+
+	let plaintextSocket;
+	try {
+		plaintextSocket = target.protocol === "tls" ? undefined : await negotiateStartTls({ ...target, protocol: target.protocol }, target.timeoutMs);
+	} catch {
+		return null;
+	}
+
+	return new Promise((resolve) => {
+		const socket = tls.connect(
+			{
+				host: target.address,
+				port: target.port,
+				servername: sniName(target.servername),
+				rejectUnauthorized: false,
+				socket: plaintextSocket,
+				secureContext,
+				minVersion: options.minVersion,
+				maxVersion: options.maxVersion,
+			},
+			() => {
+				const cipher = socket.getCipher();
+				resolve({ version: socket.getProtocol(), name: cipher.name, standardName: cipher.standardName ?? null });
+				socket.destroy();
+			}
+		);
+
+		socket.setTimeout(target.timeoutMs, () => socket.destroy(new Error("Timed out")));
+		socket.once("error", () => resolve(null));
+	});
+}
+
+/**
+ * Lists the suites a server accepts for one version by repeatedly excluding the suite it just
+ * picked, which also reveals them in the server's order of preference.
+ */
+async function enumerateCiphers(target: ScanTarget, version: TlsVersion): Promise<AcceptedCipher[]> {
+	const accepted: AcceptedCipher[] = [];
+	let tls13Remaining = [...TLS13_CIPHER_SUITES];
+
+	while (accepted.length < MAX_CIPHERS_PER_VERSION) {
+		const ciphers =
+			version === "TLSv1.3"
+				? tls13Remaining.join(":")
+				: [LEGACY_CIPHER_LIST, ...accepted.map(({ name }) => `!${name}`), "@SECLEVEL=0"].join(":");
+
+		if (!ciphers) {
+			break;
+		}
+
+		const negotiated = await probe(target, { minVersion: version, maxVersion: version, ciphers });
+		if (!negotiated || accepted.some(({ name }) => name === negotiated.name)) {
+			break;
+		}
+
+		accepted.push({ version, name: negotiated.name, standardName: negotiated.standardName, weaknesses: cipherWeaknesses(negotiated.name) });
+		tls13Remaining = tls13Remaining.filter((suite) => suite !== negotiated.name);
+	}
+
+	return accepted;
+}
+
+function gradeScan(versions: TlsScanResult["versions"], ciphers: AcceptedCipher[]): { grade: TlsGrade; weaknesses: string[] } {
+	const supported = versions.filter(({ supported }) => supported).map(({ version }) => version);
+	const cipherWeaknessSet = new Set(ciphers.flatMap(({ weaknesses }) => weaknesses));
+	const weaknesses: string[] = [];
+
+	for (const legacy of ["TLSv1", "TLSv1.1"] as const) {
+		if (supported.includes(legacy)) {
+			weaknesses.push(`${legacy} is enabled`);
+		}
+	}
+
+	for (const weakness of cipherWeaknessSet) {
+		const suites = ciphers.filter((cipher) => cipher.weaknesses.includes(weakness)).map(({ name }) => name);
+		weaknesses.push(`${weakness}: ${[...new Set(suites)].join(", ")}`);
+	}
+
+	if (supported.length === 0 || [...cipherWeaknessSet].some((weakness) => INSECURE_WEAKNESSES.has(weakness))) {
+		return { grade: "F", weaknesses };
+	}
+
+	if (supported.includes("TLSv1") || supported.includes("TLSv1.1") || cipherWeaknessSet.has("3DES")) {
+		return { grade: "C", weaknesses };
+	}
+
+	if (cipherWeaknessSet.has("no forward secrecy")) {
+		return { grade: "B", weaknesses };
+	}
+
+	return { grade: "A", weaknesses };
+}
+
+/** Probes every TLS version and the suites accepted for each, then grades the configuration */
+export async function scanTls(connection: ConnectionTarget, timeoutMs: number): Promise<TlsScanResult> {
+	const target: ScanTarget = { ...connection, timeoutMs };
+	const versions: TlsScanResult["versions"] = [];
+	const ciphers: AcceptedCipher[] = [];
+
+	for (const version of TLS_VERSIONS) {
+		const accepted = await enumerateCiphers(target, version);
+		versions.push({ version, supported: accepted.length > 0 });
+		ciphers.push(...accepted);
+	}
+
+	return { versions, ciphers, ...gradeScan(versions, ciphers) };
+}
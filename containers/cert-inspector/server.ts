@@ -1,20 +1,54 @@
+import dns from "node:dns/promises";
 import http, { type IncomingMessage, type ServerResponse } from "node:http";
+import net from "node:net";
 import tls, { type DetailedPeerCertificate, type PeerCertificate } from "node:tls";
+import { X509Certificate } from "node:crypto";
+import { splitCertificateBundle, verifyBundle } from "./bundle";
+import { type SentCertificate, describeSentCertificate, readSentChain } from "./chain";
+import { type DnsChecks, checkDns } from "./dnscheck";
+import { type HttpChecks, checkHttp } from "./httpcheck";
+import { TargetNotAllowedError, checkAddress, checkHost, resolveAllowedAddresses } from "./policy";
+import { type RevocationCheck, checkRevocation } from "./revocation";
+import { type TlsScanResult, scanTls } from "./scan";
+import { type ConnectionTarget, type StartTlsProtocol, STARTTLS_PROTOCOLS, isStartTlsProtocol, negotiateStartTls, sniName } from "./starttls";
+import { type CertificateProfile, describeCertificate, nameRecord } from "./x509";
 
 type NameRecord = Record<string, string>;
 
-type SimplifiedCertificate = {
+type SimplifiedCertificate = CertificateProfile & {
 	subject: NameRecord | null;
 	issuer: NameRecord | null;
 	validFrom: string | null;
 	validTo: string | null;
 	fingerprint256: string | null;
 	serialNumber: string | null;
+	/** Only present when the PEM was requested */
+	pem?: string;
+};
+
+/** `tls` connects with TLS straight away; anything else upgrades a plaintext session first */
+type InspectionProtocol = "tls" | StartTlsProtocol;
+
+/** How the inspected connection itself was negotiated */
+type NegotiatedConnection = {
+	tlsVersion: string | null;
+	cipher: string | null;
+	cipherStandardName: string | null;
+	ephemeralKey: { type: string; name: string | null; size: number | null } | null;
 };
 
 type InspectionResult = {
 	host: string;
 	port: number;
+	/** The address actually connected to */
+	ip: string | null;
+	/** The name sent as SNI and checked against the certificate */
+	servername: string;
+	protocol: InspectionProtocol;
+	negotiated: NegotiatedConnection;
+	/** Only present when a deep scan was requested */
+	scan?: TlsScanResult;
+	revocation: RevocationCheck;
 	authorized: boolean;
 	authorizationError: string | null;
 	validFrom: string | null;
@@ -26,20 +60,84 @@ type InspectionResult = {
 	subject: NameRecord | null;
 	issuer: NameRecord | null;
 	chain: SimplifiedCertificate[];
+	/** The certificates in the order the server sent them; null when only TLS 1.3 is offered */
+	sentChain: SentCertificate[] | null;
 	inspectedAt: string;
+	/** Milliseconds from resolving the target to the last check finishing; uploads leave it out */
+	durationMs?: number;
+	/** CAA and TLSA checks for the servername; null for an IP address, and uploads leave it out */
+	dns?: DnsChecks | null;
+	/** Only present when the HTTP checks were requested */
+	http?: HttpChecks;
 };
 
 type InspectRequest = {
 	host?: unknown;
 	port?: unknown;
+	protocol?: unknown;
+	deepScan?: unknown;
+	includePem?: unknown;
+	http?: unknown;
+	ip?: unknown;
+	servername?: unknown;
+};
+
+type ParseRequest = {
+	/** Base64 of the uploaded PEM bundle or DER certificates */
+	certificate?: unknown;
+	host?: unknown;
+	port?: unknown;
+	servername?: unknown;
+	includePem?: unknown;
+};
+
+type BatchInspectRequest = {
+	targets?: unknown;
+	concurrency?: unknown;
+};
+
+type BatchInspectionOutcome =
+	| { host: string; port: number; ip: string | null; ok: true; result: InspectionResult }
+	| { host: string; port: number; ip: string | null; ok: false; error: string };
+
+type InspectionTarget = ConnectionTarget & {
+	host: string;
+	/** Connect to this address instead of resolving `host` */
+	ip: string | null;
+	deepScan: boolean;
+	includePem: boolean;
+	/** Also request `/` over the inspected connection and probe plain HTTP on port 80 */
+	http: boolean;
+};
+
+/** What the handshake produced, along with the raw material the revocation check needs */
+type Handshake = {
+	result: Omit<InspectionResult, "revocation" | "sentChain">;
+	leafDer: Buffer;
+	issuerDer: Buffer | null;
+	/** The leaf and each issuer after it, for matching against TLSA records */
+	chainDer: Buffer[];
+	stapledOcsp: Buffer | null;
+	/** The inspected connection, left open for the HTTP checks when they were requested */
+	socket: tls.TLSSocket | null;
 };
 
+const CONNECT_TIMEOUT_MS = 15000;
+const REVOCATION_TIMEOUT_MS = 10000;
+
+const MAX_BATCH_TARGETS = 200;
+const DEFAULT_BATCH_CONCURRENCY = 8;
+const MAX_BATCH_CONCURRENCY = 32;
+
+/** Each address is a full inspection, so a name with a long list of records only has this many inspected */
+const MAX_INSPECTED_ADDRESSES = 16;
+
 function sendJson(response: ServerResponse, statusCode: number, payload: unknown): void {
 	response.writeHead(statusCode, { "content-type": "application/json" });
 	response.end(JSON.stringify(payload));
 }
 
-async function readJsonBody(request: IncomingMessage): Promise<InspectRequest> {
+async function readJsonBody<T = InspectRequest>(request: IncomingMessage): Promise<T> {
 	const chunks: Buffer[] = [];
 
 	for await (const chunk of request) {
@@ -47,11 +145,11 @@ async function readJsonBody(request: IncomingMessage): Promise<InspectRequest> {
 	}
 
 	if (chunks.length === 0) {
-		return {};
+		return {} as T;
 	}
 
 	try {
-		return JSON.parse(Buffer.concat(chunks).toString("utf8")) as InspectRequest;
+		return JSON.parse(Buffer.concat(chunks).toString("utf8")) as T;
 	} catch {
 		throw new Error("Request body must be valid JSON.");
 	}
@@ -69,22 +167,37 @@ function sanitizeName(name: unknown): NameRecord | null {
 	) as NameRecord;
 }
 
-function simplifyCertificate(certificate: PeerCertificate | DetailedPeerCertificate): SimplifiedCertificate | null {
-	if (!certificate || Object.keys(certificate).length === 0) {
+function simplifyCertificate(certificate: PeerCertificate | DetailedPeerCertificate, includePem: boolean): SimplifiedCertificate | null {
+	if (!certificate || Object.keys(certificate).length === 0 || !certificate.raw) {
 		return null;
 	}
 
 	return {
+		...describeCertificate(certificate.raw),
 		subject: sanitizeName(certificate.subject),
 		issuer: sanitizeName(certificate.issuer),
 		validFrom: "valid_from" in certificate ? certificate.valid_from ?? null : null,
 		validTo: "valid_to" in certificate ? certificate.valid_to ?? null : null,
 		fingerprint256: "fingerprint256" in certificate ? certificate.fingerprint256 ?? null : null,
 		serialNumber: "serialNumber" in certificate ? certificate.serialNumber ?? null : null,
+		...(includePem ? { pem: new X509Certificate(certificate.raw).toString() } : {}),
 	};
 }
 
-function buildCertificateChain(certificate: DetailedPeerCertificate): SimplifiedCertificate[] {
+function simplifyX509Certificate(certificate: X509Certificate, includePem: boolean): SimplifiedCertificate {
+	return {
+		...describeCertificate(certificate.raw),
+		subject: nameRecord(certificate.subject),
+		issuer: nameRecord(certificate.issuer),
+		validFrom: certificate.validFrom,
+		validTo: certificate.validTo,
+		fingerprint256: certificate.fingerprint256,
+		serialNumber: certificate.serialNumber,
+		...(includePem ? { pem: certificate.toString() } : {}),
+	};
+}
+
+function buildCertificateChain(certificate: DetailedPeerCertificate, includePem: boolean): SimplifiedCertificate[] {
 	const chain: SimplifiedCertificate[] = [];
 	const seenFingerprints = new Set<string>();
 	let current: DetailedPeerCertificate | PeerCertificate | undefined = certificate;
@@ -102,7 +215,7 @@ function buildCertificateChain(certificate: DetailedPeerCertificate): Simplified
 		}
 
 		seenFingerprints.add(fingerprint);
-		const simplified = simplifyCertificate(current);
+		const simplified = simplifyCertificate(current, includePem);
 		if (!simplified) {
 			break;
 		}
@@ -119,21 +232,184 @@ function buildCertificateChain(certificate: DetailedPeerCertificate): Simplified
 	return chain;
 }
 
-function inspectCertificate(host: string, targetPort: number): Promise<InspectionResult> {
+/** The DER of the leaf and each issuer Node linked it to, stopping at the self-signed root */
+function peerChainDer(certificate: DetailedPeerCertificate): Buffer[] {
+	const chain: Buffer[] = [];
+	let current: DetailedPeerCertificate | undefined = certificate;
+
+	while (current?.raw) {
+		const der = current.raw;
+		if (chain.some((seen) => seen.equals(der))) {
+			break;
+		}
+
+		chain.push(der);
+		current = current.issuerCertificate;
+	}
+
+	return chain;
+}
+
+function isInspectionProtocol(value: unknown): value is InspectionProtocol {
+	return value === "tls" || isStartTlsProtocol(value);
+}
+
+/** Validates one target from a request body, returning an error message when it is invalid */
+function parseInspectionTarget(body: InspectRequest): InspectionTarget | string {
+	const host = typeof body.host === "string" ? body.host.trim() : "";
+	const targetPort = typeof body.port === "number" && Number.isInteger(body.port) ? body.port : 443;
+
+	if (!host) {
+		return "The request body must include a host.";
+	}
+
+	if (targetPort < 1 || targetPort > 65535) {
+		return "The requested port must be between 1 and 65535.";
+	}
+
+	if (body.protocol !== undefined && !isInspectionProtocol(body.protocol)) {
+		return `The protocol must be one of tls, ${STARTTLS_PROTOCOLS.join(", ")}.`;
+	}
+
+	if (body.deepScan !== undefined && typeof body.deepScan !== "boolean") {
+		return "The deepScan option must be a boolean.";
+	}
+
+	if (body.includePem !== undefined && typeof body.includePem !== "boolean") {
+		return "The includePem option must be a boolean.";
+	}
+
+	if (body.http !== undefined && typeof body.http !== "boolean") {
+		return "The http option must be a boolean.";
+	}
+
+	if (body.http === true && body.protocol !== undefined && body.protocol !== "tls") {
+		return "The http option only applies to the tls protocol.";
+	}
+
+	if (body.ip !== undefined && (typeof body.ip !== "string" || net.isIP(body.ip) === 0)) {
+		return "The ip must be an IPv4 or IPv6 address.";
+	}
+
+	if (body.servername !== undefined && (typeof body.servername !== "string" || !body.servername.trim())) {
+		return "The servername must be a non-empty string.";
+	}
+
+	const ip = body.ip ?? null;
+	return {
+		host,
+		port: targetPort,
+		ip,
+		address: ip ?? host,
+		servername: body.servername?.trim() ?? host,
+		protocol: body.protocol ?? "tls",
+		deepScan: body.deepScan ?? false,
+		includePem: body.includePem ?? false,
+		http: body.http ?? false,
+	};
+}
+
+function describeNegotiation(socket: tls.TLSSocket): NegotiatedConnection {
+	const cipher = socket.getCipher();
+	const ephemeralKey = socket.getEphemeralKeyInfo();
+
+	return {
+		tlsVersion: socket.getProtocol(),
+		cipher: cipher?.name ?? null,
+		cipherStandardName: cipher?.standardName ?? null,
+		ephemeralKey: ephemeralKey && "type" in ephemeralKey && ephemeralKey.type
+			? { type: ephemeralKey.type, name: ephemeralKey.name ?? null, size: ephemeralKey.size ?? null }
+			: null,
+	};
+}
+
+/**
+ * Checks the target against the policy and settles which address to connect to. Every later
+ * connection for the inspection, including STARTTLS, the sent-chain probe and the deep scan, goes
+ * to that checked address, so a second DNS answer cannot point them somewhere else.
+ */
+async function authorizeTarget(target: InspectionTarget): Promise<InspectionTarget> {
+	checkHost(target.host, target.port);
+
+	if (target.ip !== null) {
+		checkAddress(target.ip);
+		return target;
+	}
+
+	const [address] = await resolveAllowedAddresses(target.host);
+	return { ...target, address };
+}
+
+async function inspectCertificate(requested: InspectionTarget): Promise<InspectionResult> {
+	const startedAt = performance.now();
+	const target = await authorizeTarget(requested);
+	const { protocol } = target;
+	const plaintextSocket = protocol === "tls" ? undefined : await negotiateStartTls({ ...target, protocol }, CONNECT_TIMEOUT_MS);
+	const { result: handshake, leafDer, issuerDer, chainDer, stapledOcsp, socket } = await completeHandshake(target, plaintextSocket);
+
+	// Started straight away so the connection is not left idle while the other checks run
+	const httpChecks = socket ? checkHttp(socket, target) : null;
+
+	// The DNS lookups need nothing from the connection, so they run alongside the other checks
+	const parentDomain = target.servername.split(".").slice(1).join(".");
+	const dnsChecks = checkDns(target.servername, target.port, chainDer, {
+		issuerOrganization: handshake.issuer?.O ?? handshake.issuer?.CN ?? null,
+		wildcard: (handshake.subjectAltName ?? "").split(", ").includes(`DNS:*.${parentDomain}`),
+		authorized: handshake.authorized,
+	});
+
+	// Awaited together, so whichever fails first cannot leave another's rejection unhandled
+	const [revocation, sentChain, dns, http] = await Promise.all([
+		checkRevocation(leafDer, issuerDer, stapledOcsp, REVOCATION_TIMEOUT_MS),
+		readSentChain(target, CONNECT_TIMEOUT_MS),
+		dnsChecks,
+		httpChecks,
+	]);
+	const result: InspectionResult = { ...handshake, revocation, sentChain, dns };
+
+	if (target.deepScan) {
+		result.scan = await scanTls(target, CONNECT_TIMEOUT_MS);
+	}
+
+	if (http) {
+		result.http = http;
+	}
+
+	result.durationMs = Math.round(performance.now() - startedAt);
+	return result;
+}
+
+function completeHandshake(target: InspectionTarget, plaintextSocket: net.Socket | undefined): Promise<Handshake> {
+	const { host, port: targetPort, servername, protocol, includePem } = target;
+
 	return new Promise((resolve, reject) => {
+		let stapledOcsp: Buffer | null = null;
+		let keepOpen = false;
+
+		// `tls.connect` passes `requestOCSP` through to the socket even though its typings leave it out.
+		// Untrusted certificates are still inspected; `authorized` and the findings report the problem.
+		const options: tls.ConnectionOptions & { requestOCSP: boolean } = {
+			host: target.address,
+			port: targetPort,
+			servername: sniName(servername),
+			rejectUnauthorized: false,
+			requestOCSP: true,
+			socket: plaintextSocket,
+		};
+
 		const socket = tls.connect(
-			{
-				host,
-				port: targetPort,
-				servername: host,
-				rejectUnauthorized: true,
-			},
+			options,
 			() => {
 				try {
 					const certificate = socket.getPeerCertificate(true);
-					resolve({
+					const issuer = certificate.issuerCertificate;
+					const result = {
 						host,
 						port: targetPort,
+						ip: plaintextSocket?.remoteAddress ?? socket.remoteAddress ?? target.ip,
+						servername,
+						protocol,
+						negotiated: describeNegotiation(socket),
 						authorized: socket.authorized,
 						authorizationError: socket.authorizationError ? String(socket.authorizationError) : null,
 						validFrom: certificate.valid_from ?? null,
@@ -144,18 +420,35 @@ function inspectCertificate(host: string, targetPort: number): Promise<Inspectio
 						subjectAltName: certificate.subjectaltname ?? null,
 						subject: sanitizeName(certificate.subject),
 						issuer: sanitizeName(certificate.issuer),
-						chain: buildCertificateChain(certificate),
+						chain: buildCertificateChain(certificate, includePem),
 						inspectedAt: new Date().toISOString(),
+					};
+
+					keepOpen = target.http;
+					resolve({
+						result,
+						leafDer: certificate.raw,
+						issuerDer: issuer?.raw ?? null,
+						chainDer: peerChainDer(certificate),
+						stapledOcsp,
+						socket: keepOpen ? socket : null,
 					});
 				} catch (error) {
 					reject(error);
 				} finally {
-					socket.end();
+					if (!keepOpen) {
+						socket.end();
+					}
 				}
 			}
 		);
 
-		socket.setTimeout(15000, () => {
+		// Emitted during the handshake, before the secure connection callback runs
+		socket.once("OCSPResponse", (response: Buffer | null) => {
+			stapledOcsp = response && response.length > 0 ? response : null;
+		});
+
+		socket.setTimeout(CONNECT_TIMEOUT_MS, () => {
 			socket.destroy(new Error("Timed out while connecting to remote TLS endpoint."));
 		});
 
@@ -163,6 +456,97 @@ function inspectCertificate(host: string, targetPort: number): Promise<Inspectio
 	});
 }
 
+/**
+ * Describes uploaded certificates the way a live inspection would, so a certificate can be checked
+ * before it is deployed. The upload order stands in for the order a server would send.
+ */
+async function inspectUpload(body: ParseRequest): Promise<InspectionResult | string> {
+	if (typeof body.certificate !== "string" || !body.certificate) {
+		return "The request body must include the certificate.";
+	}
+
+	if (body.host !== undefined && typeof body.host !== "string") {
+		return "The host must be a string.";
+	}
+
+	if (body.servername !== undefined && typeof body.servername !== "string") {
+		return "The servername must be a string.";
+	}
+
+	let certificates: X509Certificate[];
+	try {
+		certificates = splitCertificateBundle(Buffer.from(body.certificate, "base64")).map((der) => new X509Certificate(der));
+	} catch (error) {
+		return `The certificate could not be parsed: ${error instanceof Error ? error.message : String(error)}`;
+	}
+
+	const { chain, authorized, authorizationError } = verifyBundle(certificates);
+	const [leaf] = chain;
+	const host = body.host?.trim() ?? "";
+	const includePem = body.includePem === true;
+
+	return {
+		host,
+		port: typeof body.port === "number" && Number.isInteger(body.port) ? body.port : 443,
+		ip: null,
+		servername: body.servername?.trim() || host,
+		protocol: "tls",
+		negotiated: { tlsVersion: null, cipher: null, cipherStandardName: null, ephemeralKey: null },
+		revocation: await checkRevocation(leaf.raw, chain[1]?.raw ?? null, null, REVOCATION_TIMEOUT_MS),
+		authorized,
+		authorizationError,
+		validFrom: leaf.validFrom,
+		validTo: leaf.validTo,
+		fingerprint: leaf.fingerprint,
+		fingerprint256: leaf.fingerprint256,
+		serialNumber: leaf.serialNumber,
+		subjectAltName: leaf.subjectAltName ?? null,
+		subject: nameRecord(leaf.subject),
+		issuer: nameRecord(leaf.issuer),
+		chain: chain.map((certificate) => simplifyX509Certificate(certificate, includePem)),
+		sentChain: certificates.map((certificate) => describeSentCertificate(certificate.raw)),
+		inspectedAt: new Date().toISOString(),
+	};
+}
+
+/** Runs `task` over every item with at most `concurrency` in flight, keeping the input order */
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, task: (item: T) => Promise<R>): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let nextIndex = 0;
+
+	async function worker(): Promise<void> {
+		while (nextIndex < items.length) {
+			const index = nextIndex++;
+			results[index] = await task(items[index]);
+		}
+	}
+
+	await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => worker()));
+	return results;
+}
+
+async function inspectBatch(targets: InspectionTarget[], concurrency: number): Promise<BatchInspectionOutcome[]> {
+	return mapWithConcurrency(targets, concurrency, async (target): Promise<BatchInspectionOutcome> => {
+		const { host, port, ip } = target;
+		try {
+			return { host, port, ip, ok: true, result: await inspectCertificate(target) };
+		} catch (error) {
+			return { host, port, ip, ok: false, error: error instanceof Error ? error.message : String(error) };
+		}
+	});
+}
+
+/** Inspects every address the host resolves to, up to `MAX_INSPECTED_ADDRESSES`, presenting the same server name to each */
+async function inspectAllAddresses(target: InspectionTarget): Promise<{ addresses: string[]; results: BatchInspectionOutcome[] }> {
+	// Each address is checked as it is inspected, so a refused one only fails its own result
+	checkHost(target.host, target.port);
+	const resolved = await dns.lookup(target.host, { all: true, verbatim: true });
+	const addresses = [...new Set(resolved.map(({ address }) => address))].slice(0, MAX_INSPECTED_ADDRESSES);
+	const targets = addresses.map((address) => ({ ...target, ip: address, address }));
+
+	return { addresses, results: await inspectBatch(targets, DEFAULT_BATCH_CONCURRENCY) };
+}
+
 const listenPort = Number.parseInt(process.env.PORT ?? "8080", 10);
 
 const server = http.createServer(async (request, response) => {
@@ -174,24 +558,96 @@ const server = http.createServer(async (request, response) => {
 
 	if (request.method === "POST" && request.url === "/inspect") {
 		try {
-			const body = await readJsonBody(request);
-			const host = typeof body.host === "string" ? body.host.trim() : "";
-			const targetPort = typeof body.port === "number" && Number.isInteger(body.port) ? body.port : 443;
+			const target = parseInspectionTarget(await readJsonBody(request));
 
-			if (!host) {
-				sendJson(response, 400, { error: "The request body must include a host." });
+			if (typeof target === "string") {
+				sendJson(response, 400, { error: target });
 				return;
 			}
 
-			if (targetPort < 1 || targetPort > 65535) {
-				sendJson(response, 400, { error: "The requested port must be between 1 and 65535." });
+			const result = await inspectCertificate(target);
+			sendJson(response, 200, result);
+		} catch (error) {
+			sendJson(response, error instanceof TargetNotAllowedError ? 403 : 502, {
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+		return;
+	}
+
+	if (request.method === "POST" && request.url === "/inspect/addresses") {
+		try {
+			const target = parseInspectionTarget(await readJsonBody(request));
+
+			if (typeof target === "string") {
+				sendJson(response, 400, { error: target });
+				return;
+			}
+
+			if (target.ip !== null) {
+				sendJson(response, 400, { error: "Every resolved address is inspected, so an ip cannot be pinned as well." });
+				return;
+			}
+
+			sendJson(response, 200, { host: target.host, port: target.port, servername: target.servername, ...(await inspectAllAddresses(target)) });
+		} catch (error) {
+			sendJson(response, error instanceof TargetNotAllowedError ? 403 : 502, {
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+		return;
+	}
+
+	if (request.method === "POST" && request.url === "/parse") {
+		try {
+			const result = await inspectUpload(await readJsonBody<ParseRequest>(request));
+
+			if (typeof result === "string") {
+				sendJson(response, 400, { error: result });
 				return;
 			}
 
-			const result = await inspectCertificate(host, targetPort);
 			sendJson(response, 200, result);
 		} catch (error) {
-			sendJson(response, 502, {
+			sendJson(response, 400, {
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+		return;
+	}
+
+	if (request.method === "POST" && request.url === "/inspect/batch") {
+		try {
+			const body = await readJsonBody<BatchInspectRequest>(request);
+			const concurrency = typeof body.concurrency === "number" && Number.isInteger(body.concurrency)
+				? Math.min(Math.max(body.concurrency, 1), MAX_BATCH_CONCURRENCY)
+				: DEFAULT_BATCH_CONCURRENCY;
+
+			if (!Array.isArray(body.targets) || body.targets.length === 0) {
+				sendJson(response, 400, { error: "The request body must include at least one target." });
+				return;
+			}
+
+			if (body.targets.length > MAX_BATCH_TARGETS) {
+				sendJson(response, 400, { error: `A batch can include at most ${MAX_BATCH_TARGETS} targets.` });
+				return;
+			}
+
+			const targets: InspectionTarget[] = [];
+			for (const candidate of body.targets as InspectRequest[]) {
+				const target = parseInspectionTarget(candidate ?? {});
+
+				if (typeof target === "string") {
+					sendJson(response, 400, { error: target });
+					return;
+				}
+
+				targets.push(target);
+			}
+
+			sendJson(response, 200, { results: await inspectBatch(targets, concurrency) });
+		} catch (error) {
+			sendJson(response, 400, {
 				error: error instanceof Error ? error.message : String(error),
 			});
 		}
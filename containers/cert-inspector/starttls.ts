@@ -0,0 +1,293 @@
+import net from "node:net";
+
+export const STARTTLS_PROTOCOLS = ["smtp", "imap", "pop3", "ldap", "ftp", "xmpp", "postgres"] as const;
+
+export type StartTlsProtocol = (typeof STARTTLS_PROTOCOLS)[number];
+
+export function isStartTlsProtocol(value: unknown): value is StartTlsProtocol {
+	return typeof value === "string" && (STARTTLS_PROTOCOLS as readonly string[]).includes(value);
+}
+
+/** Where to connect and which name to present; `address` is a pinned IP or the host name itself */
+export type ConnectionTarget = {
+	address: string;
+	port: number;
+	servername: string;
+	protocol: "tls" | StartTlsProtocol;
+};
+
+/** SNI can only carry host names, so IP literals are left out of the handshake */
+export function sniName(servername: string): string | undefined {
+	return net.isIP(servername) === 0 ? servername : undefined;
+}
+
+const CLIENT_NAME = "cert-inspector";
+
+/** LDAPMessage { messageID 1, ExtendedRequest { requestName "1.3.6.1.4.1.1466.20037" } } */
+const LDAP_STARTTLS_REQUEST = Buffer.concat([
+	Buffer.from([0x30, 0x1d, 0x02, 0x01, 0x01, 0x77, 0x18, 0x80, 0x16]),
+	Buffer.from("1.3.6.1.4.1.1466.20037", "ascii"),
+]);
+
+/** PostgreSQL SSLRequest: length 8 followed by the magic request code 80877103 */
+const POSTGRES_SSL_REQUEST = Buffer.from([0x00, 0x00, 0x00, 0x08, 0x04, 0xd2, 0x16, 0x2f]);
+
+/**
+ * Reads from a plaintext socket until `isComplete` accepts everything received so far. Data
+ * listeners are removed afterwards so nothing is consumed once the TLS handshake starts.
+ */
+class PlaintextConversation {
+	private buffer = Buffer.alloc(0);
+
+	constructor(private readonly socket: net.Socket) {}
+
+	send(data: string | Buffer): void {
+		this.socket.write(data);
+	}
+
+	read(isComplete: (received: Buffer) => boolean): Promise<Buffer> {
+		return new Promise((resolve, reject) => {
+			const cleanup = () => {
+				this.socket.off("data", onData);
+				this.socket.off("error", onError);
+				this.socket.off("close", onClose);
+			};
+
+			const check = () => {
+				if (isComplete(this.buffer)) {
+					const received = this.buffer;
+					this.buffer = Buffer.alloc(0);
+					cleanup();
+					resolve(received);
+					return true;
+				}
+
+				return false;
+			};
+
+			const onData = (chunk: Buffer) => {
+				this.buffer = Buffer.concat([this.buffer, chunk]);
+				check();
+			};
+
+			const onError = (error: Error) => {
+				cleanup();
+				reject(error);
+			};
+
+			const onClose = () => {
+				cleanup();
+				reject(new Error("The server closed the connection before upgrading to TLS."));
+			};
+
+			if (!check()) {
+				this.socket.on("data", onData);
+				this.socket.once("error", onError);
+				this.socket.once("close", onClose);
+			}
+		});
+	}
+
+	/** Reads a complete SMTP or FTP reply, which ends with a line of the form `250 text` */
+	async readReply(): Promise<{ code: number; text: string }> {
+		const received = await this.read((data) => /(^|\r?\n)\d{3} [^\n]*\r?\n$/.test(data.toString("utf8")));
+		const text = received.toString("utf8");
+		const lines = text.trimEnd().split(/\r?\n/);
+		return { code: Number.parseInt(lines[lines.length - 1].slice(0, 3), 10), text };
+	}
+
+	async readLine(): Promise<string> {
+		const received = await this.read((data) => data.includes("\n"));
+		return received.toString("utf8").trim();
+	}
+
+	/** Reads IMAP responses until the tagged completion line for `tag` */
+	async readTagged(tag: string): Promise<string> {
+		const received = await this.read((data) => new RegExp(`(^|\\r?\\n)${tag} [^\\n]*\\r?\\n$`).test(data.toString("utf8")));
+		const lines = received.toString("utf8").trimEnd().split(/\r?\n/);
+		return lines[lines.length - 1];
+	}
+}
+
+function expectCode(reply: { code: number; text: string }, expected: number, step: string): void {
+	if (reply.code !== expected) {
+		throw new Error(`Unexpected ${step} response: ${reply.text.trim()}`);
+	}
+}
+
+async function negotiateSmtp(conversation: PlaintextConversation): Promise<void> {
+	expectCode(await conversation.readReply(), 220, "SMTP greeting");
+
+	conversation.send(`EHLO ${CLIENT_NAME}\r\n`);
+	const ehlo = await conversation.readReply();
+	expectCode(ehlo, 250, "SMTP EHLO");
+	if (!/^250[ -]STARTTLS\b/im.test(ehlo.text)) {
+		throw new Error("The SMTP server does not advertise STARTTLS.");
+	}
+
+	conversation.send("STARTTLS\r\n");
+	expectCode(await conversation.readReply(), 220, "SMTP STARTTLS");
+}
+
+async function negotiateFtp(conversation: PlaintextConversation): Promise<void> {
+	expectCode(await conversation.readReply(), 220, "FTP greeting");
+
+	conversation.send("AUTH TLS\r\n");
+	expectCode(await conversation.readReply(), 234, "FTP AUTH TLS");
+}
+
+async function negotiateImap(conversation: PlaintextConversation): Promise<void> {
+	const greeting = await conversation.readLine();
+	if (!greeting.startsWith("* OK")) {
+		throw new Error(`Unexpected IMAP greeting: ${greeting}`);
+	}
+
+	conversation.send("a001 STARTTLS\r\n");
+	const completion = await conversation.readTagged("a001");
+	if (!completion.startsWith("a001 OK")) {
+		throw new Error(`Unexpected IMAP STARTTLS response: ${completion}`);
+	}
+}
+
+async function negotiatePop3(conversation: PlaintextConversation): Promise<void> {
+	const greeting = await conversation.readLine();
+	if (!greeting.startsWith("+OK")) {
+		throw new Error(`Unexpected POP3 greeting: ${greeting}`);
+	}
+
+	conversation.send("STLS\r\n");
+	const response = await conversation.readLine();
+	if (!response.startsWith("+OK")) {
+		throw new Error(`Unexpected POP3 STLS response: ${response}`);
+	}
+}
+
+async function negotiateXmpp(conversation: PlaintextConversation, servername: string): Promise<void> {
+	conversation.send(
+		`<?xml version='1.0'?><stream:stream to='${servername}' xmlns='jabber:client' ` +
+			`xmlns:stream='http://etherx.jabber.org/streams' version='1.0'>`
+	);
+
+	const features = (await conversation.read((data) => data.includes("</stream:features>") || data.includes("</stream:stream>"))).toString("utf8");
+	if (!features.includes("<starttls")) {
+		throw new Error("The XMPP server does not offer STARTTLS.");
+	}
+
+	conversation.send("<starttls xmlns='urn:ietf:params:xml:ns:xmpp-tls'/>");
+	const response = (await conversation.read((data) => data.includes("<proceed") || data.includes("<failure"))).toString("utf8");
+	if (!response.includes("<proceed")) {
+		throw new Error("The XMPP server refused STARTTLS.");
+	}
+}
+
+async function negotiatePostgres(conversation: PlaintextConversation): Promise<void> {
+	conversation.send(POSTGRES_SSL_REQUEST);
+	const response = await conversation.read((data) => data.length >= 1);
+	if (response[0] !== 0x53) {
+		throw new Error("The PostgreSQL server does not accept SSL connections.");
+	}
+}
+
+/** Reads a BER length at `offset`, returning the length and where its content starts */
+function readBerLength(data: Buffer, offset: number): { length: number; start: number } | null {
+	if (offset >= data.length) {
+		return null;
+	}
+
+	const first = data[offset];
+	if (first < 0x80) {
+		return { length: first, start: offset + 1 };
+	}
+
+	const octets = first & 0x7f;
+	if (offset + 1 + octets > data.length) {
+		return null;
+	}
+
+	let length = 0;
+	for (let index = 0; index < octets; index++) {
+		length = length * 256 + data[offset + 1 + index];
+	}
+
+	return { length, start: offset + 1 + octets };
+}
+
+function isCompleteBerMessage(data: Buffer): boolean {
+	const header = readBerLength(data, 1);
+	return header !== null && data.length >= header.start + header.length;
+}
+
+async function negotiateLdap(conversation: PlaintextConversation): Promise<void> {
+	conversation.send(LDAP_STARTTLS_REQUEST);
+	const response = await conversation.read(isCompleteBerMessage);
+
+	// SEQUENCE { messageID INTEGER, ExtendedResponse [APPLICATION 24] { resultCode ENUMERATED, ... } }
+	const message = readBerLength(response, 1);
+	const messageId = message && readBerLength(response, message.start + 1);
+	const operationOffset = messageId ? messageId.start + messageId.length : -1;
+	const operation = operationOffset >= 0 && response[operationOffset] === 0x78 ? readBerLength(response, operationOffset + 1) : null;
+	const resultCode = operation && response[operation.start] === 0x0a ? readBerLength(response, operation.start + 1) : null;
+
+	if (!resultCode) {
+		throw new Error("Unexpected LDAP StartTLS response.");
+	}
+
+	if (response[resultCode.start] !== 0) {
+		throw new Error(`The LDAP server refused StartTLS with result code ${response[resultCode.start]}.`);
+	}
+}
+
+/**
+ * Connects in plaintext and performs the protocol's upgrade handshake, resolving with a socket
+ * that is ready for `tls.connect({ socket })`.
+ */
+export function negotiateStartTls(target: ConnectionTarget & { protocol: StartTlsProtocol }, timeoutMs: number): Promise<net.Socket> {
+	const { address, port, servername, protocol } = target;
+
+	return new Promise((resolve, reject) => {
+		const socket = net.connect({ host: address, port });
+
+		socket.setTimeout(timeoutMs, () => {
+			socket.destroy(new Error(`Timed out while negotiating ${protocol.toUpperCase()} STARTTLS.`));
+		});
+
+		socket.once("error", reject);
+
+		socket.once("connect", async () => {
+			const conversation = new PlaintextConversation(socket);
+
+			try {
+				switch (protocol) {
+					case "smtp":
+						await negotiateSmtp(conversation);
+						break;
+					case "ftp":
+						await negotiateFtp(conversation);
+						break;
+					case "imap":
+						await negotiateImap(conversation);
+						break;
+					case "pop3":
+						await negotiatePop3(conversation);
+						break;
+					case "xmpp":
+						await negotiateXmpp(conversation, servername);
+						break;
+					case "postgres":
+						await negotiatePostgres(conversation);
+						break;
+					case "ldap":
+						await negotiateLdap(conversation);
+						break;
+				}
+
+				socket.off("error", reject);
+				socket.setTimeout(0);
+				resolve(socket);
+			} catch (error) {
+				socket.destroy();
+				reject(error);
+			}
+		});
+	});
+}
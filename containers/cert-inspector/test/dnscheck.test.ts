@@ -0,0 +1,158 @@
+import { X509Certificate, createHash } from "node:crypto";
+import { createSocket, type Socket } from "node:dgram";
+import { Resolver } from "node:dns/promises";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { checkCaa, checkDns, checkTlsa } from "../dnscheck";
+
+const CERTIFICATE = new X509Certificate(`-----BEGIN CERTIFICATE-----
+MIIBgzCCASmgAwIBAgIUMD59JpMJKRS0aXPd0bSheTgjfG4wCgYIKoZIzj0EAwIw
+FzEVMBMGA1UEAwwMZXhhbXBsZS50ZXN0MB4XDTI2MTAxOTE1NDEyOFoXDTM2MTAx
+NjE1NDEyOFowFzEVMBMGA1UEAwwMZXhhbXBsZS50ZXN0MFkwEwYHKoZIzj0CAQYI
+KoZIzj0DAQcDQgAEqYtPIQd+pr73M8jpxgmkULP/Zj9MU4d0Fq+MQ3E+qC3bSjcR
+u7TcS7+rqFaG3/fUOPz5jB9Yh/pZNpX9FO3yXqNTMFEwHQYDVR0OBBYEFPML1KIE
+VC4ApAeMGezxt0SsbcFdMB8GA1UdIwQYMBaAFPML1KIEVC4ApAeMGezxt0SsbcFd
+MA8GA1UdEwEB/wQFMAMBAf8wCgYIKoZIzj0EAwIDSAAwRQIhALI30FDfTG8bJ95V
+mLwytxWPuS9Hfx4WQf3HHQbiXjK5AiARWYe5YtuxoBM6tCt5FnTa27hdPEqIJdp+
+EQ7mf4vNWw==
+-----END CERTIFICATE-----`);
+const SPKI_SHA256 = createHash("sha256").update(CERTIFICATE.publicKey.export({ type: "spki", format: "der" })).digest();
+
+const CAA = 257;
+const TLSA = 52;
+const SERVFAIL = 2;
+const NXDOMAIN = 3;
+
+function caaRecord(tag: string, value: string): Buffer {
+	return Buffer.concat([Buffer.from([0, tag.length]), Buffer.from(tag), Buffer.from(value)]);
+}
+
+function tlsaRecord(usage: number, selector: number, matchingType: number, data: Buffer): Buffer {
+	return Buffer.concat([Buffer.from([usage, selector, matchingType]), data]);
+}
+
+/** The stand-in's zone: the records of each name and type, or the error code it answers with */
+const ZONE: Record<string, Partial<Record<number, Buffer[] | number>>> = {
+	"example.test": { [CAA]: [caaRecord("issue", "letsencrypt.org"), caaRecord("iodef", "mailto:security@example.test")] },
+	"wild.example.test": { [CAA]: [caaRecord("issue", "letsencrypt.org"), caaRecord("issuewild", ";")] },
+	"broken.test": { [CAA]: SERVFAIL },
+	"_443._tcp.example.test": { [TLSA]: [tlsaRecord(3, 1, 1, SPKI_SHA256)] },
+	"_443._tcp.mismatch.test": { [TLSA]: [tlsaRecord(3, 1, 1, Buffer.alloc(32))] },
+	"_443._tcp.pkix.test": { [TLSA]: [tlsaRecord(1, 1, 1, SPKI_SHA256)] },
+	"_443._tcp.broken.test": { [TLSA]: SERVFAIL },
+};
+
+/** Reads the question's name, type and where it ends */
+function parseQuestion(message: Buffer): { name: string; type: number; end: number } {
+	const labels: string[] = [];
+	let offset = 12;
+	while (message[offset] !== 0) {
+		labels.push(message.subarray(offset + 1, offset + 1 + message[offset]).toString("ascii"));
+		offset += message[offset] + 1;
+	}
+	return { name: labels.join(".").toLowerCase(), type: message.readUInt16BE(offset + 1), end: offset + 5 };
+}
+
+/** Answers each query from `ZONE`; a name it does not know does not exist */
+function answer(query: Buffer): Buffer {
+	const { name, type, end } = parseQuestion(query);
+	const entry = ZONE[name];
+	const records = entry?.[type] ?? [];
+	const rcode = !entry ? NXDOMAIN : typeof records === "number" ? records : 0;
+	const answers = typeof records === "number" ? [] : records;
+
+	const header = Buffer.alloc(12);
+	query.copy(header, 0, 0, 2);
+	header.writeUInt16BE(0x8180 | rcode, 2);
+	header.writeUInt16BE(1, 4);
+	header.writeUInt16BE(answers.length, 6);
+
+	const resourceRecords = answers.map((data) => {
+		const fixed = Buffer.alloc(12);
+		fixed.writeUInt16BE(0xc00c, 0);
+		fixed.writeUInt16BE(type, 2);
+		fixed.writeUInt16BE(1, 4);
+		fixed.writeUInt32BE(60, 6);
+		fixed.writeUInt16BE(data.length, 10);
+		return Buffer.concat([fixed, data]);
+	});
+	return Buffer.concat([header, query.subarray(12, end), ...resourceRecords]);
+}
+
+let server: Socket;
+let resolver: Resolver;
+
+beforeAll(async () => {
+	server = createSocket("udp4");
+	server.on("message", (query, remote) => server.send(answer(query), remote.port, remote.address));
+	await new Promise<void>((resolve) => server.bind(0, "127.0.0.1", resolve));
+
+	resolver = new Resolver({ timeout: 1000, tries: 1 });
+	resolver.setServers([`127.0.0.1:${(server.address() as AddressInfo).port}`]);
+});
+
+afterAll(() => {
+	server.close();
+});
+
+describe("checkCaa", () => {
+	it("applies the closest name's records and permits the issuers they list", async () => {
+		const check = await checkCaa("www.example.test", "Let's Encrypt", false, resolver);
+
+		expect(check).toMatchObject({ status: "permitted", domain: "example.test", allowedIssuers: ["letsencrypt.org"] });
+		expect(check.records).toHaveLength(2);
+	});
+
+	it("forbids a known CA the records leave out and flags an issuer it cannot map", async () => {
+		expect((await checkCaa("example.test", "DigiCert Inc", false, resolver)).status).toBe("forbidden");
+		expect((await checkCaa("example.test", "Example Private CA", false, resolver)).status).toBe("unknown-issuer");
+	});
+
+	it("checks a wildcard certificate against issuewild", async () => {
+		const check = await checkCaa("wild.example.test", "Let's Encrypt", true, resolver);
+
+		expect(check).toMatchObject({ status: "forbidden", allowedIssuers: [] });
+	});
+
+	it("reports names without records and failed lookups", async () => {
+		expect(await checkCaa("nothing.test", "Let's Encrypt", false, resolver)).toMatchObject({ status: "none", domain: null });
+		expect((await checkCaa("broken.test", "Let's Encrypt", false, resolver)).status).toBe("error");
+	});
+});
+
+describe("checkTlsa", () => {
+	const chain = [CERTIFICATE.raw];
+
+	it("matches an end-entity record against the leaf's public key", async () => {
+		const check = await checkTlsa("example.test", 443, chain, false, resolver);
+
+		expect(check).toMatchObject({ status: "valid", name: "_443._tcp.example.test", error: null });
+		expect(check.records).toEqual([{ usage: 3, selector: 1, matchingType: 1, data: SPKI_SHA256.toString("hex"), matched: true }]);
+	});
+
+	it("only accepts a PKIX record when the chain verifies", async () => {
+		expect((await checkTlsa("pkix.test", 443, chain, false, resolver)).status).toBe("invalid");
+		expect((await checkTlsa("pkix.test", 443, chain, true, resolver)).status).toBe("valid");
+	});
+
+	it("reports mismatches, missing records and failed lookups", async () => {
+		expect((await checkTlsa("mismatch.test", 443, chain, true, resolver)).status).toBe("invalid");
+		expect((await checkTlsa("example.test", 8443, chain, true, resolver)).status).toBe("none");
+		expect((await checkTlsa("broken.test", 443, chain, true, resolver)).status).toBe("error");
+	});
+
+	it("reports a chain it cannot read as an error instead of throwing", async () => {
+		const check = await checkTlsa("example.test", 443, [Buffer.from("not a certificate")], true, resolver);
+
+		expect(check.status).toBe("error");
+		expect(check.error).toMatch(/^Could not read the certificate chain/);
+	});
+});
+
+describe("checkDns", () => {
+	it("skips IP addresses, which have neither CAA nor TLSA records", async () => {
+		const certificate = { issuerOrganization: null, wildcard: false, authorized: true };
+
+		expect(await checkDns("192.0.2.1", 443, [CERTIFICATE.raw], certificate)).toBeNull();
+	});
+});
@@ -0,0 +1,240 @@
+import crypto, { type KeyObject } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { type DerNode, TAG, children, contextTag, encode, encodeOid, readNode, sequence } from "../asn1";
+import { loadTargetPolicy } from "../policy";
+import { checkRevocation } from "../revocation";
+import { OID } from "../x509";
+
+const ECDSA_WITH_SHA256 = sequence(encodeOid("1.2.840.10045.4.3.2"));
+const KEY_COMPROMISE = 1;
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const TIMEOUT_MS = 5000;
+
+/** The responders listen on loopback, which the default policy blocks */
+const LOOPBACK_POLICY = loadTargetPolicy({ TARGET_ALLOW_CIDRS: "127.0.0.1/32" });
+
+function integer(value: number): Buffer {
+	return encode(TAG.INTEGER, Buffer.from([value]));
+}
+
+function explicit(number: number, content: Buffer): Buffer {
+	return encode(contextTag(number, true), content);
+}
+
+function utcTime(date: Date): Buffer {
+	return encode(TAG.UTC_TIME, Buffer.from(`${date.toISOString().replace(/[-:T]/g, "").slice(2, 14)}Z`));
+}
+
+function generalizedTime(date: Date): Buffer {
+	return encode(TAG.GENERALIZED_TIME, Buffer.from(`${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`));
+}
+
+function commonName(name: string): Buffer {
+	return sequence(encode(TAG.SET, sequence(encodeOid("2.5.4.3"), encode(TAG.UTF8_STRING, Buffer.from(name)))));
+}
+
+function extension(oid: string, value: Buffer): Buffer {
+	return sequence(encodeOid(oid), encode(TAG.OCTET_STRING, value));
+}
+
+function uri(url: string): Buffer {
+	return encode(contextTag(6, false), Buffer.from(url));
+}
+
+/** Certificates, CRLs and basic OCSP responses all wrap what is signed the same way */
+function signed(tbs: Buffer, key: KeyObject): Buffer {
+	return sequence(tbs, ECDSA_WITH_SHA256, encode(TAG.BIT_STRING, Buffer.concat([Buffer.from([0]), crypto.sign("sha256", tbs, key)])));
+}
+
+const ca = crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+const leafKey = crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+const CA_NAME = commonName("Test Revocation CA");
+
+function issueCertificate(serial: number, subject: Buffer, publicKey: KeyObject, extensions: Buffer[]): Buffer {
+	const now = Date.now();
+	return signed(
+		sequence(
+			explicit(0, integer(2)),
+			integer(serial),
+			ECDSA_WITH_SHA256,
+			CA_NAME,
+			sequence(utcTime(new Date(now - DAY_IN_MS)), utcTime(new Date(now + 90 * DAY_IN_MS))),
+			subject,
+			publicKey.export({ type: "spki", format: "der" }),
+			...(extensions.length > 0 ? [explicit(3, sequence(...extensions))] : [])
+		),
+		ca.privateKey
+	);
+}
+
+const CA_DER = issueCertificate(1, CA_NAME, ca.publicKey, []);
+
+/** A leaf that points at the given OCSP responder and CRL distribution point */
+function issueLeaf(serial: number, urls: { ocsp?: string; crl?: string }): Buffer {
+	const extensions: Buffer[] = [];
+	if (urls.ocsp) {
+		extensions.push(extension(OID.authorityInfoAccess, sequence(sequence(encodeOid(OID.ocspAccessMethod), uri(urls.ocsp)))));
+	}
+	if (urls.crl) {
+		extensions.push(extension(OID.crlDistributionPoints, sequence(sequence(explicit(0, explicit(0, uri(urls.crl)))))));
+	}
+	return issueCertificate(serial, commonName(`leaf-${serial}.example.test`), leafKey.publicKey, extensions);
+}
+
+/** The serials the stand-in CA has revoked */
+const REVOKED = new Set([20, 30]);
+
+/** The CertID of OCSPRequest { tbsRequest { requestList { Request { reqCert } } } } */
+function requestedCertId(request: Buffer): DerNode {
+	return children(children(children(children(readNode(request))[0])[0])[0])[0];
+}
+
+/** A signed basic response that answers for the given CertID */
+function ocspResponse(certId: DerNode): Buffer {
+	const serial = children(certId)[3].content[0];
+	const now = new Date();
+
+	const certStatus = REVOKED.has(serial)
+		? encode(contextTag(1, true), Buffer.concat([generalizedTime(now), explicit(0, encode(TAG.ENUMERATED, Buffer.from([KEY_COMPROMISE])))]))
+		: encode(contextTag(0, false), Buffer.alloc(0));
+	const single = sequence(certId.raw, certStatus, generalizedTime(now), explicit(0, generalizedTime(new Date(now.getTime() + DAY_IN_MS))));
+	const basic = signed(sequence(explicit(1, CA_NAME), generalizedTime(now), sequence(single)), ca.privateKey);
+
+	return sequence(
+		encode(TAG.ENUMERATED, Buffer.from([0])),
+		explicit(0, sequence(encodeOid(OID.ocspBasicResponse), encode(TAG.OCTET_STRING, basic)))
+	);
+}
+
+function crl(): Buffer {
+	const now = Date.now();
+	const entries = [...REVOKED].map((serial) =>
+		sequence(
+			integer(serial),
+			utcTime(new Date(now)),
+			sequence(extension(OID.crlReason, encode(TAG.ENUMERATED, Buffer.from([KEY_COMPROMISE]))))
+		)
+	);
+
+	return signed(
+		sequence(integer(1), ECDSA_WITH_SHA256, CA_NAME, utcTime(new Date(now)), utcTime(new Date(now + DAY_IN_MS)), sequence(...entries)),
+		ca.privateKey
+	);
+}
+
+let server: Server;
+let base: string;
+const requested: string[] = [];
+
+beforeAll(async () => {
+	server = createServer((request, response) => {
+		requested.push(request.url ?? "");
+		const chunks: Buffer[] = [];
+		request.on("data", (chunk: Buffer) => chunks.push(chunk));
+		request.on("end", () => {
+			switch (request.url) {
+				case "/ocsp":
+					response
+						.writeHead(200, { "content-type": "application/ocsp-response" })
+						.end(ocspResponse(requestedCertId(Buffer.concat(chunks))));
+					break;
+				case "/crl":
+					response.writeHead(200, { "content-type": "application/pkix-crl" }).end(crl());
+					break;
+				case "/redirect":
+					response.writeHead(302, { location: "/ocsp" }).end();
+					break;
+				case "/large":
+					response.writeHead(200).end(Buffer.alloc(128 * 1024));
+					break;
+				default:
+					response.writeHead(500).end();
+			}
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+	await new Promise((resolve) => server.close(resolve));
+});
+
+describe("checkRevocation", () => {
+	it("takes a good status from the OCSP responder", async () => {
+		const check = await checkRevocation(issueLeaf(10, { ocsp: `${base}/ocsp` }), CA_DER, null, TIMEOUT_MS, LOOPBACK_POLICY);
+
+		expect(check).toMatchObject({ status: "good", source: "ocsp", url: `${base}/ocsp`, signatureValid: true, errors: [] });
+	});
+
+	it("reports a revocation with its reason", async () => {
+		const check = await checkRevocation(issueLeaf(20, { ocsp: `${base}/ocsp` }), CA_DER, null, TIMEOUT_MS, LOOPBACK_POLICY);
+
+		expect(check).toMatchObject({ status: "revoked", source: "ocsp", reason: "keyCompromise", signatureValid: true });
+		expect(check.revokedAt).not.toBeNull();
+	});
+
+	it("prefers a stapled response over asking the responder", async () => {
+		const leaf = issueLeaf(11, { ocsp: `${base}/unavailable` });
+		const stapled = ocspResponse(readNode(certIdFor(leaf)));
+		const before = requested.length;
+
+		const check = await checkRevocation(leaf, CA_DER, stapled, TIMEOUT_MS, LOOPBACK_POLICY);
+
+		expect(check).toMatchObject({ status: "good", source: "stapled-ocsp", url: null });
+		expect(requested.length).toBe(before);
+	});
+
+	it("falls back to the CRL when the OCSP responder fails", async () => {
+		const leaf = issueLeaf(30, { ocsp: `${base}/unavailable`, crl: `${base}/crl` });
+		const check = await checkRevocation(leaf, CA_DER, null, TIMEOUT_MS, LOOPBACK_POLICY);
+
+		expect(check).toMatchObject({ status: "revoked", source: "crl", url: `${base}/crl`, reason: "keyCompromise", signatureValid: true });
+		expect(check.errors).toEqual([`ocsp ${base}/unavailable: ${base}/unavailable responded with status 500.`]);
+	});
+
+	it("does not follow redirects", async () => {
+		const before = requested.length;
+		const check = await checkRevocation(issueLeaf(12, { ocsp: `${base}/redirect` }), CA_DER, null, TIMEOUT_MS, LOOPBACK_POLICY);
+
+		expect(check.status).toBe("unavailable");
+		expect(check.errors[0]).toContain("responded with status 302");
+		expect(requested.slice(before)).toEqual(["/redirect"]);
+	});
+
+	it("stops reading a response over the size limit", async () => {
+		const check = await checkRevocation(issueLeaf(13, { ocsp: `${base}/large` }), CA_DER, null, TIMEOUT_MS, LOOPBACK_POLICY);
+
+		expect(check.status).toBe("unavailable");
+		expect(check.errors[0]).toContain("returned more than 65536 bytes");
+	});
+
+	it("never connects to a responder in a blocked range", async () => {
+		const before = requested.length;
+		const check = await checkRevocation(issueLeaf(14, { ocsp: `${base}/ocsp`, crl: `${base}/crl` }), CA_DER, null, TIMEOUT_MS);
+
+		expect(check.status).toBe("unavailable");
+		expect(check.errors).toEqual([
+			`ocsp ${base}/ocsp: 127.0.0.1 is in a blocked loopback range.`,
+			`crl ${base}/crl: 127.0.0.1 is in a blocked loopback range.`,
+		]);
+		expect(requested.length).toBe(before);
+	});
+});
+
+/** The SHA-1 CertID a client would ask about, for stapling a response nobody requested */
+function certIdFor(leafDer: Buffer): Buffer {
+	const [tbs] = children(readNode(leafDer));
+	const [, serial, , issuer] = children(tbs);
+	const caKey = children(children(children(readNode(CA_DER))[0])[6])[1];
+	const sha1 = (data: Buffer) => crypto.createHash("sha1").update(data).digest();
+
+	return sequence(
+		sequence(encodeOid(OID.sha1), encode(TAG.NULL, Buffer.alloc(0))),
+		encode(TAG.OCTET_STRING, sha1(issuer.raw)),
+		encode(TAG.OCTET_STRING, sha1(caKey.content.subarray(1))),
+		serial.raw
+	);
+}
@@ -0,0 +1,262 @@
+import { X509Certificate } from "node:crypto";
+import { type DerNode, TAG, bitStringBytes, children, contextTag, decodeOid, decodeSmallInteger, readNode } from "./asn1";
+
+export const OID = {
+	authorityInfoAccess: "1.3.6.1.5.5.7.1.1",
+	ocspAccessMethod: "1.3.6.1.5.5.7.48.1",
+	crlDistributionPoints: "2.5.29.31",
+	crlReason: "2.5.29.21",
+	keyUsage: "2.5.29.15",
+	extendedKeyUsage: "2.5.29.37",
+	basicConstraints: "2.5.29.19",
+	caIssuersAccessMethod: "1.3.6.1.5.5.7.48.2",
+	signedCertificateTimestamps: "1.3.6.1.4.1.11129.2.4.2",
+	ocspBasicResponse: "1.3.6.1.5.5.7.48.1.1",
+	ocspSigning: "1.3.6.1.5.5.7.3.9",
+	sha1: "1.3.14.3.2.26",
+} as const;
+
+/** Names for signature algorithms, with the digest to hand to `crypto.verify`; `null` means the key implies it */
+const SIGNATURE_ALGORITHMS: Record<string, { name: string; digest: string | null | undefined }> = {
+	"1.2.840.113549.1.1.4": { name: "md5WithRSAEncryption", digest: "md5" },
+	"1.2.840.113549.1.1.5": { name: "sha1WithRSAEncryption", digest: "sha1" },
+	"1.2.840.113549.1.1.10": { name: "rsassaPss", digest: undefined },
+	"1.2.840.113549.1.1.11": { name: "sha256WithRSAEncryption", digest: "sha256" },
+	"1.2.840.113549.1.1.12": { name: "sha384WithRSAEncryption", digest: "sha384" },
+	"1.2.840.113549.1.1.13": { name: "sha512WithRSAEncryption", digest: "sha512" },
+	"1.2.840.10045.4.1": { name: "ecdsa-with-SHA1", digest: "sha1" },
+	"1.2.840.10045.4.3.2": { name: "ecdsa-with-SHA256", digest: "sha256" },
+	"1.2.840.10045.4.3.3": { name: "ecdsa-with-SHA384", digest: "sha384" },
+	"1.2.840.10045.4.3.4": { name: "ecdsa-with-SHA512", digest: "sha512" },
+	"1.3.101.112": { name: "Ed25519", digest: null },
+	"1.3.101.113": { name: "Ed448", digest: null },
+};
+
+const EXTENDED_KEY_USAGES: Record<string, string> = {
+	"2.5.29.37.0": "anyExtendedKeyUsage",
+	"1.3.6.1.5.5.7.3.1": "serverAuth",
+	"1.3.6.1.5.5.7.3.2": "clientAuth",
+	"1.3.6.1.5.5.7.3.3": "codeSigning",
+	"1.3.6.1.5.5.7.3.4": "emailProtection",
+	"1.3.6.1.5.5.7.3.8": "timeStamping",
+	"1.3.6.1.5.5.7.3.9": "OCSPSigning",
+};
+
+/** KeyUsage bit names in bit order */
+const KEY_USAGES = [
+	"digitalSignature",
+	"nonRepudiation",
+	"keyEncipherment",
+	"dataEncipherment",
+	"keyAgreement",
+	"keyCertSign",
+	"cRLSign",
+	"encipherOnly",
+	"decipherOnly",
+];
+
+const CURVE_SIZES: Record<string, number> = {
+	prime256v1: 256,
+	secp256k1: 256,
+	secp384r1: 384,
+	secp521r1: 521,
+};
+
+export type CertificateExtension = {
+	critical: boolean;
+	/** The extension's value with the wrapping OCTET STRING removed */
+	value: DerNode;
+};
+
+export type ParsedCertificate = {
+	/** OID of the algorithm the issuer signed the certificate with */
+	signatureAlgorithm: string;
+	serialNumber: Buffer;
+	/** DER encoding of the issuer Name, as hashed into OCSP requests */
+	issuerName: Buffer;
+	subjectName: Buffer;
+	/** Contents of the subjectPublicKey BIT STRING */
+	subjectPublicKey: Buffer;
+	extensions: Map<string, CertificateExtension>;
+};
+
+export function parseExtensions(sequence: DerNode): Map<string, CertificateExtension> {
+	const extensions = new Map<string, CertificateExtension>();
+
+	for (const extension of children(sequence)) {
+		const fields = children(extension);
+		const critical = fields.length === 3 && fields[1].tag === TAG.BOOLEAN && fields[1].content[0] !== 0;
+		const value = fields[fields.length - 1];
+		extensions.set(decodeOid(fields[0]), { critical, value: readNode(value.content) });
+	}
+
+	return extensions;
+}
+
+export function parseCertificate(der: Buffer): ParsedCertificate {
+	const [tbs, signatureAlgorithm] = children(readNode(der));
+	const fields = children(tbs);
+
+	// The version is an explicitly tagged [0] that v1 certificates leave out
+	const offset = fields[0].tag === contextTag(0, true) ? 1 : 0;
+	const [serialNumber, , issuer, , subject, subjectPublicKeyInfo] = fields.slice(offset);
+	const extensionsField = fields.slice(offset + 6).find((field) => field.tag === contextTag(3, true));
+
+	return {
+		signatureAlgorithm: decodeOid(children(signatureAlgorithm)[0]),
+		serialNumber: serialNumber.content,
+		issuerName: issuer.raw,
+		subjectName: subject.raw,
+		subjectPublicKey: bitStringBytes(children(subjectPublicKeyInfo)[1]),
+		extensions: extensionsField ? parseExtensions(readNode(extensionsField.content)) : new Map(),
+	};
+}
+
+/** Every `uniformResourceIdentifier` GeneralName found anywhere below the node */
+function uniformResourceIdentifiers(node: DerNode): string[] {
+	if (node.tag === contextTag(6, false)) {
+		return [node.content.toString("ascii")];
+	}
+
+	if ((node.tag & 0x20) === 0) {
+		return [];
+	}
+
+	return children(node).flatMap(uniformResourceIdentifiers);
+}
+
+function accessLocations(certificate: ParsedCertificate, accessMethod: string): string[] {
+	const extension = certificate.extensions.get(OID.authorityInfoAccess);
+	if (!extension) {
+		return [];
+	}
+
+	return children(extension.value).flatMap((accessDescription) => {
+		const [method, location] = children(accessDescription);
+		return decodeOid(method) === accessMethod ? uniformResourceIdentifiers(location) : [];
+	});
+}
+
+export function ocspResponderUrls(certificate: ParsedCertificate): string[] {
+	return accessLocations(certificate, OID.ocspAccessMethod);
+}
+
+export function crlDistributionPoints(certificate: ParsedCertificate): string[] {
+	const extension = certificate.extensions.get(OID.crlDistributionPoints);
+	return extension ? uniformResourceIdentifiers(extension.value) : [];
+}
+
+/** Resolves the digest for a signature AlgorithmIdentifier, or `undefined` when it is not supported */
+export function signatureDigest(algorithm: DerNode): string | null | undefined {
+	return SIGNATURE_ALGORITHMS[decodeOid(children(algorithm)[0])]?.digest;
+}
+
+export type CertificateProfile = {
+	publicKey: { type: string | null; size: number | null; curve: string | null };
+	signatureAlgorithm: string;
+	keyUsage: string[];
+	/** Names for well-known purposes, the OID otherwise */
+	extendedKeyUsage: string[];
+	basicConstraints: { ca: boolean; pathLength: number | null } | null;
+	ocspUrls: string[];
+	caIssuerUrls: string[];
+	crlUrls: string[];
+	/** Signed certificate timestamps embedded by Certificate Transparency logs */
+	embeddedSctCount: number;
+	selfSigned: boolean;
+};
+
+/** Issued by its own subject and signed by its own key, as roots and many test certificates are */
+export function isSelfSigned(certificate: X509Certificate): boolean {
+	try {
+		return certificate.checkIssued(certificate) && certificate.verify(certificate.publicKey);
+	} catch {
+		return false;
+	}
+}
+
+/** Turns `X509Certificate#subject` text such as `C=US\nCN=R3` into a name record */
+export function nameRecord(name: string): Record<string, string> | null {
+	const entries = name
+		.split("\n")
+		.map((line) => line.match(/^([^=]+)=(.*)$/))
+		.filter((match): match is RegExpMatchArray => match !== null && match[2].length > 0)
+		.map(([, key, value]) => [key, value]);
+
+	return entries.length > 0 ? Object.fromEntries(entries) : null;
+}
+
+function describePublicKey(certificate: X509Certificate): CertificateProfile["publicKey"] {
+	const { asymmetricKeyType, asymmetricKeyDetails } = certificate.publicKey;
+	const curve = asymmetricKeyDetails?.namedCurve ?? null;
+
+	let size = asymmetricKeyDetails?.modulusLength ?? (curve ? CURVE_SIZES[curve] : undefined) ?? null;
+	if (asymmetricKeyType === "ed25519" || asymmetricKeyType === "x25519") {
+		size = 256;
+	} else if (asymmetricKeyType === "ed448" || asymmetricKeyType === "x448") {
+		size = 448;
+	}
+
+	return { type: asymmetricKeyType ?? null, size, curve };
+}
+
+function decodeKeyUsage(extension: CertificateExtension | undefined): string[] {
+	if (!extension) {
+		return [];
+	}
+
+	const bits = bitStringBytes(extension.value);
+	return KEY_USAGES.filter((_, bit) => bit < bits.length * 8 && (bits[Math.floor(bit / 8)] & (0x80 >> bit % 8)) !== 0);
+}
+
+function decodeBasicConstraints(extension: CertificateExtension | undefined): CertificateProfile["basicConstraints"] {
+	if (!extension) {
+		return null;
+	}
+
+	// BasicConstraints { cA BOOLEAN DEFAULT FALSE, pathLenConstraint INTEGER OPTIONAL }
+	const fields = children(extension.value);
+	const ca = fields.find((field) => field.tag === TAG.BOOLEAN);
+	const pathLength = fields.find((field) => field.tag === TAG.INTEGER);
+
+	return { ca: ca ? ca.content[0] !== 0 : false, pathLength: pathLength ? decodeSmallInteger(pathLength) : null };
+}
+
+/** The extension holds a TLS-encoded SignedCertificateTimestampList of length-prefixed entries */
+function countSignedCertificateTimestamps(extension: CertificateExtension | undefined): number {
+	if (!extension) {
+		return 0;
+	}
+
+	const list = extension.value.content;
+	let count = 0;
+
+	for (let offset = 2; offset + 2 <= list.length; offset += 2 + list.readUInt16BE(offset)) {
+		count++;
+	}
+
+	return count;
+}
+
+/** Summarises the parts of a certificate that tell us how strong and how usable it is */
+export function describeCertificate(der: Buffer): CertificateProfile {
+	const parsed = parseCertificate(der);
+	const certificate = new X509Certificate(der);
+	const { extensions } = parsed;
+	const extendedKeyUsage = extensions.get(OID.extendedKeyUsage);
+
+	return {
+		publicKey: describePublicKey(certificate),
+		signatureAlgorithm: SIGNATURE_ALGORITHMS[parsed.signatureAlgorithm]?.name ?? parsed.signatureAlgorithm,
+		keyUsage: decodeKeyUsage(extensions.get(OID.keyUsage)),
+		extendedKeyUsage: extendedKeyUsage
+			? children(extendedKeyUsage.value).map((purpose) => EXTENDED_KEY_USAGES[decodeOid(purpose)] ?? decodeOid(purpose))
+			: [],
+		basicConstraints: decodeBasicConstraints(extensions.get(OID.basicConstraints)),
+		ocspUrls: ocspResponderUrls(parsed),
+		caIssuerUrls: accessLocations(parsed, OID.caIssuersAccessMethod),
+		crlUrls: crlDistributionPoints(parsed),
+		embeddedSctCount: countSignedCertificateTimestamps(extensions.get(OID.signedCertificateTimestamps)),
+		selfSigned: isSelfSigned(certificate),
+	};
+}
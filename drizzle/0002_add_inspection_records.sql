@@ -0,0 +1,10 @@
+CREATE TABLE `inspection_records` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`requested_host` text NOT NULL,
+	`requested_port` integer NOT NULL,
+	`stored_at` text NOT NULL,
+	`fingerprint256` text,
+	`result` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `inspection_records_stored_at_idx` ON `inspection_records` (`stored_at`);
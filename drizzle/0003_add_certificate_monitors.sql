@@ -0,0 +1,25 @@
+CREATE TABLE `certificate_monitors` (
+	`key` text PRIMARY KEY NOT NULL,
+	`host` text NOT NULL,
+	`port` integer NOT NULL,
+	`interval_minutes` integer NOT NULL,
+	`thresholds` text NOT NULL,
+	`created_at` text NOT NULL,
+	`last_checked_at` text,
+	`next_check_at` text,
+	`last_error` text
+);
+--> statement-breakpoint
+CREATE TABLE `certificate_alerts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`kind` text NOT NULL,
+	`threshold` integer,
+	`fingerprint256` text,
+	`days_remaining` integer,
+	`valid_to` text,
+	`authorization_error` text,
+	`inspection_id` integer NOT NULL,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `certificate_alerts_threshold_idx` ON `certificate_alerts` (`kind`,`fingerprint256`,`threshold`);
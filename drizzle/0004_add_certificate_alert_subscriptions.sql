@@ -0,0 +1,12 @@
+CREATE TABLE `certificate_watches` (
+	`target_key` text PRIMARY KEY NOT NULL,
+	`host` text NOT NULL,
+	`port` integer NOT NULL,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `alert_subscribers` (
+	`endpoint` text PRIMARY KEY NOT NULL,
+	`object_name` text NOT NULL,
+	`created_at` text NOT NULL
+);
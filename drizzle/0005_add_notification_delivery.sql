@@ -0,0 +1,21 @@
+CREATE TABLE `pending_notifications` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`endpoint` text NOT NULL,
+	`payload` text NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`next_attempt_at` text NOT NULL,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `pending_notifications_next_attempt_idx` ON `pending_notifications` (`next_attempt_at`);
+--> statement-breakpoint
+CREATE TABLE `delivery_attempts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`notification_id` integer NOT NULL,
+	`endpoint` text NOT NULL,
+	`attempt` integer NOT NULL,
+	`outcome` text NOT NULL,
+	`status_code` integer,
+	`error` text,
+	`created_at` text NOT NULL
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `certificate_monitors`
+ADD COLUMN `protocol` text NOT NULL DEFAULT 'tls';
@@ -0,0 +1,5 @@
+ALTER TABLE `inspection_records`
+ADD COLUMN `findings` text NOT NULL DEFAULT '[]';
+--> statement-breakpoint
+ALTER TABLE `certificate_monitors`
+ADD COLUMN `rules` text NOT NULL DEFAULT '{}';
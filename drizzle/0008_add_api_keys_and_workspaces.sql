@@ -0,0 +1,15 @@
+CREATE TABLE `api_keys` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`workspace` text NOT NULL,
+	`name` text NOT NULL,
+	`prefix` text NOT NULL,
+	`key_hash` text NOT NULL,
+	`created_at` text NOT NULL,
+	`last_used_at` text,
+	`revoked_at` text
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `api_keys_key_hash_idx` ON `api_keys` (`key_hash`);
+--> statement-breakpoint
+ALTER TABLE `certificate_monitors`
+ADD COLUMN `workspace` text NOT NULL DEFAULT 'default';
@@ -0,0 +1,36 @@
+CREATE TABLE `webhooks` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`url` text NOT NULL,
+	`secret` text,
+	`events` text NOT NULL,
+	`description` text,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `pending_webhook_deliveries` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`webhook_id` integer NOT NULL,
+	`event_id` text NOT NULL,
+	`event` text NOT NULL,
+	`payload` text NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`next_attempt_at` text NOT NULL,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `pending_webhook_deliveries_next_attempt_idx` ON `pending_webhook_deliveries` (`next_attempt_at`);
+--> statement-breakpoint
+CREATE TABLE `webhook_delivery_attempts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`webhook_id` integer NOT NULL,
+	`event_id` text NOT NULL,
+	`event` text NOT NULL,
+	`attempt` integer NOT NULL,
+	`outcome` text NOT NULL,
+	`status_code` integer,
+	`error` text,
+	`duration_ms` integer NOT NULL,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `webhook_delivery_attempts_webhook_idx` ON `webhook_delivery_attempts` (`webhook_id`);
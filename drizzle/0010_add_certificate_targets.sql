@@ -0,0 +1,12 @@
+CREATE TABLE `certificate_targets` (
+	`key` text PRIMARY KEY NOT NULL,
+	`workspace` text NOT NULL,
+	`host` text NOT NULL,
+	`port` integer NOT NULL,
+	`ip` text,
+	`servername` text,
+	`inspection` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `certificate_targets_workspace_idx` ON `certificate_targets` (`workspace`);
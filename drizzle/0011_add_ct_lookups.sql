@@ -0,0 +1,8 @@
+CREATE TABLE `ct_lookups` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`domain` text NOT NULL,
+	`looked_up_at` text NOT NULL,
+	`source` text NOT NULL,
+	`truncated` integer DEFAULT false NOT NULL,
+	`certificates` text NOT NULL
+);
@@ -0,0 +1,18 @@
+ALTER TABLE `subscription_records`
+ADD COLUMN `workspace` text NOT NULL DEFAULT 'default';
+--> statement-breakpoint
+ALTER TABLE `subscription_records`
+ADD COLUMN `topics` text NOT NULL DEFAULT '[]';
+--> statement-breakpoint
+ALTER TABLE `pending_notifications`
+ADD COLUMN `ttl` integer;
+--> statement-breakpoint
+ALTER TABLE `pending_notifications`
+ADD COLUMN `urgency` text;
+--> statement-breakpoint
+CREATE TABLE `subscription_index` (
+	`endpoint` text PRIMARY KEY NOT NULL,
+	`object_name` text NOT NULL,
+	`topics` text DEFAULT '[]' NOT NULL,
+	`created_at` text NOT NULL
+);
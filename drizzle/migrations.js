@@ -1,11 +1,33 @@
 import journal from './meta/_journal.json';
 import m0000 from './0000_late_sleeper.sql';
 import m0001 from './0001_add_created_date.sql';
+import m0002 from './0002_add_inspection_records.sql';
+import m0003 from './0003_add_certificate_monitors.sql';
+import m0004 from './0004_add_certificate_alert_subscriptions.sql';
+import m0005 from './0005_add_notification_delivery.sql';
+import m0006 from './0006_add_monitor_protocol.sql';
+import m0007 from './0007_add_inspection_findings.sql';
+import m0008 from './0008_add_api_keys_and_workspaces.sql';
+import m0009 from './0009_add_webhooks.sql';
+import m0010 from './0010_add_certificate_targets.sql';
+import m0011 from './0011_add_ct_lookups.sql';
+import m0012 from './0012_add_push_topics.sql';
 
   export default {
     journal,
     migrations: {
       m0000,
-      m0001
+      m0001,
+      m0002,
+      m0003,
+      m0004,
+      m0005,
+      m0006,
+      m0007,
+      m0008,
+      m0009,
+      m0010,
+      m0011,
+      m0012
     }
   }
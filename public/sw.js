@@ -39,7 +39,7 @@ self.addEventListener('activate', event => {
 self.addEventListener('fetch', event => {
   // Skip caching for API requests (non-GET or specific API endpoints)
   const url = new URL(event.request.url);
-  const apiEndpoints = ['/message', '/subscribe', '/testSubscribe', '/test', '/testGet', '/list', '/repro'];
+  const apiEndpoints = ['/api', '/message', '/subscribe', '/unsubscribe', '/testSubscribe', '/test', '/testGet', '/list', '/repro'];
   const isApiRequest = apiEndpoints.some(endpoint => url.pathname === endpoint || url.pathname.startsWith(endpoint + '/'));
   
   if (isApiRequest || event.request.method !== 'GET') {
@@ -77,6 +77,35 @@ self.addEventListener('fetch', event => {
   );
 });
 
+// Build the title, body and click-through URL for a certificate alert payload.
+function certificateAlertNotification(alert) {
+  const target = alert.port === 443 ? alert.host : `${alert.host}:${alert.port}`;
+  const days = alert.daysRemaining;
+
+  if (alert.change === 'expiring') {
+    return {
+      title: days !== null && days < 0 ? `Certificate expired: ${target}` : `Certificate expiring: ${target}`,
+      body: days !== null && days < 0
+        ? `Expired ${-days} day(s) ago (${alert.validTo}).`
+        : `Expires in ${days} day(s) (${alert.validTo}).`
+    };
+  }
+
+  if (alert.change === 'invalid') {
+    return {
+      title: `Certificate invalid: ${target}`,
+      body: alert.authorizationError || 'The certificate is no longer trusted.'
+    };
+  }
+
+  return {
+    title: `Certificate changed: ${target}`,
+    body: days !== null
+      ? `A new certificate is being served, expiring in ${days} day(s).`
+      : 'A new certificate is being served.'
+  };
+}
+
 // Listen to push events.
 self.addEventListener('push', event => {
   // Check if the user has granted permission to display notifications.
@@ -84,12 +113,45 @@ self.addEventListener('push', event => {
     // Get the notification data from the server.
     const notificationText = event.data.text();
 
-    // Display a notification.
-    const showNotificationPromise = self.registration.showNotification('Sample Push', {
-      body: notificationText
-    });
+    let payload = null;
+    try {
+      payload = JSON.parse(notificationText);
+    } catch {
+      // Plain text message
+    }
+
+    let showNotificationPromise;
+    if (payload && payload.type === 'certificate-alert') {
+      const { title, body } = certificateAlertNotification(payload);
+      showNotificationPromise = self.registration.showNotification(title, {
+        body,
+        tag: `certificate-${payload.host}:${payload.port}`,
+        data: { url: payload.url }
+      });
+    } else if (payload && payload.type === 'message') {
+      // Sent through POST /api/notifications
+      showNotificationPromise = self.registration.showNotification(payload.title, {
+        body: payload.body || undefined,
+        data: { url: payload.url, data: payload.data }
+      });
+    } else {
+      // Display a notification.
+      showNotificationPromise = self.registration.showNotification('Sample Push', {
+        body: notificationText
+      });
+    }
 
     // Keep the service worker running until the notification is displayed.
     event.waitUntil(showNotificationPromise);
   }
 });
+
+// Open the inspection result when a certificate alert is clicked.
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+
+  const url = event.notification.data && event.notification.data.url;
+  if (url) {
+    event.waitUntil(self.clients.openWindow(url));
+  }
+});
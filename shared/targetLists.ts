@@ -0,0 +1,65 @@
+/**
+ * The host and port lists of the target policy, shared by the container and the worker, which
+ * applies the same lists when it inspects in the container's place. It imports nothing from Node.
+ */
+export type TargetLists = {
+	/** When set, only these hosts can be inspected; `*.example.com` matches any subdomain */
+	allowHosts: string[];
+	denyHosts: string[];
+	/** When set, only these ports can be inspected */
+	allowPorts: number[];
+	denyPorts: number[];
+};
+
+export type TargetListsEnv = {
+	TARGET_ALLOW_HOSTS?: string;
+	TARGET_DENY_HOSTS?: string;
+	TARGET_ALLOW_PORTS?: string;
+	TARGET_DENY_PORTS?: string;
+};
+
+export function parseList(value: string | undefined): string[] {
+	return (value ?? "")
+		.split(",")
+		.map((entry) => entry.trim().toLowerCase())
+		.filter((entry) => entry.length > 0);
+}
+
+function parsePorts(name: string, value: string | undefined): number[] {
+	return parseList(value).map((entry) => {
+		const port = Number(entry);
+		if (!Number.isInteger(port) || port < 1 || port > 65535) {
+			throw new Error(`${name} contains ${entry}, which is not a port.`);
+		}
+		return port;
+	});
+}
+
+export function loadTargetLists(env: TargetListsEnv): TargetLists {
+	return {
+		allowHosts: parseList(env.TARGET_ALLOW_HOSTS),
+		denyHosts: parseList(env.TARGET_DENY_HOSTS),
+		allowPorts: parsePorts("TARGET_ALLOW_PORTS", env.TARGET_ALLOW_PORTS),
+		denyPorts: parsePorts("TARGET_DENY_PORTS", env.TARGET_DENY_PORTS),
+	};
+}
+
+export function hostMatches(host: string, pattern: string): boolean {
+	return pattern.startsWith("*.") ? host.endsWith(pattern.slice(1)) : host === pattern;
+}
+
+/** Why the lists refuse the host or port, or null when they allow it */
+export function targetListsRefusal(lists: TargetLists, host: string, port: number): string | null {
+	const name = host.toLowerCase().replace(/\.$/, "");
+
+	if (lists.denyHosts.some((pattern) => hostMatches(name, pattern))) {
+		return `${host} is on the deny list.`;
+	}
+	if (lists.allowHosts.length > 0 && !lists.allowHosts.some((pattern) => hostMatches(name, pattern))) {
+		return `${host} is not on the allow list.`;
+	}
+	if (lists.denyPorts.includes(port) || (lists.allowPorts.length > 0 && !lists.allowPorts.includes(port))) {
+		return `Port ${port} is not allowed.`;
+	}
+	return null;
+}
@@ -0,0 +1,75 @@
+import { DurableObject } from "cloudflare:workers";
+import { drizzle } from "drizzle-orm/durable-sqlite";
+import { migrate } from "drizzle-orm/durable-sqlite/migrator";
+import migrations from "../drizzle/migrations";
+import * as schema from "./db/schemas";
+import * as apiKeyRecords from "./db/apiKeys";
+
+import { type ApiKey, type CreatedApiKey, generateApiKey, hashApiKey, toApiKey } from "./auth";
+import { DB } from "./db/types";
+
+/** Minimum time between `last_used_at` updates, so authenticating is not a write on every request */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Holds every workspace's API keys. Only a SHA-256 of each key is stored, so the worker hashes
+ * the presented key and the plain key never reaches this object after it has been created.
+ */
+export class ApiKeyStore extends DurableObject<Env> {
+	private db: DB;
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+
+		this.db = drizzle(ctx.storage, { schema, logger: false });
+
+		// Run migrations before accepting any requests
+		this.ctx.blockConcurrencyWhile(async () => {
+			await migrate(this.db, migrations);
+		});
+	}
+
+	async createKey(workspace: string, name: string): Promise<CreatedApiKey> {
+		const key = generateApiKey();
+		const record = await apiKeyRecords.create(this.db, {
+			workspace,
+			name,
+			prefix: key.slice(0, 10),
+			key_hash: await hashApiKey(key),
+			created_at: new Date().toISOString(),
+		});
+
+		return { ...toApiKey(record), key };
+	}
+
+	/** Looks up an unrevoked key by its hash */
+	async authenticate(keyHash: string): Promise<ApiKey | null> {
+		const record = await apiKeyRecords.getActiveByHash(this.db, { key_hash: keyHash });
+		if (!record) {
+			return null;
+		}
+
+		const now = new Date();
+		if (!record.last_used_at || now.getTime() - Date.parse(record.last_used_at) > LAST_USED_RESOLUTION_MS) {
+			await apiKeyRecords.touch(this.db, { id: record.id, last_used_at: now.toISOString() });
+		}
+
+		return toApiKey(record);
+	}
+
+	/** Sessions only last as long as the key they were opened with */
+	async getActiveKey(id: number): Promise<ApiKey | null> {
+		const record = await apiKeyRecords.getActive(this.db, { id });
+		return record ? toApiKey(record) : null;
+	}
+
+	async listKeys(workspace: string): Promise<ApiKey[]> {
+		const records = await apiKeyRecords.list(this.db, { workspace });
+		return records.map(toApiKey);
+	}
+
+	async revokeKey(workspace: string, id: number): Promise<ApiKey | null> {
+		const record = await apiKeyRecords.revoke(this.db, { id, workspace, revoked_at: new Date().toISOString() });
+		return record ? toApiKey(record) : null;
+	}
+}
@@ -1,28 +1,390 @@
 import { DurableObject } from "cloudflare:workers";
+import { drizzle } from "drizzle-orm/durable-sqlite";
+import { migrate } from "drizzle-orm/durable-sqlite/migrator";
+import migrations from "../drizzle/migrations";
+import * as schema from "./db/schemas";
+import * as inspectionRecords from "./db/inspections";
+import * as monitorRecords from "./db/monitors";
+import * as alertRecords from "./db/alerts";
+import * as alertSubscriberRecords from "./db/alertSubscribers";
 
 import {
+	type CertificateAlert,
 	type CertificateDetails,
+	type CertificateMonitor,
+	type CertificateMonitorSettings,
+	type InspectionHistoryPage,
+	type InspectionHistoryQuery,
+	type SavedInspection,
 	type StoredInspection,
+	type TargetPinning,
+	CERTIFICATE_MONITOR_REGISTRY_SINGLETON,
 	normalizeCertificateTarget,
+	toInventoryInspection,
 } from "./certificates";
+import { AlertRecord, DB, InspectionRecord, MonitorRecord } from "./db/types";
+import {
+	crossedThresholds,
+	daysRemaining,
+	parseAlertThresholds,
+	parseMonitorInterval,
+	toCertificateAlert,
+	toCertificateMonitor,
+} from "./monitoring";
+import { subscriptionObjectName, toCertificateAlertNotifications } from "./push";
+import { diffCertificates } from "./diff";
+import { inspectWithFallback } from "./inspection";
+import { evaluateFindings } from "./findings";
+import { workspaceObjectName } from "./auth";
+import { type WebhookEvent, WEBHOOK_STORE_NAME, inspectionFailedEvent, toWebhookEvents } from "./webhooks";
 
+/** Key used before history was kept; migrated into `inspection_records` on first load */
 const LAST_INSPECTION_STORAGE_KEY = "lastInspection";
+const DEFAULT_HISTORY_LIMIT = 500;
 
-export class CertificateInspectionStore extends DurableObject {
-	async saveInspection(host: string, port: number, result: CertificateDetails): Promise<StoredInspection> {
-		const target = normalizeCertificateTarget(host, port);
-		const storedInspection: StoredInspection = {
-			requestedHost: target.host,
-			requestedPort: target.port,
-			storedAt: new Date().toISOString(),
+function toStoredInspection(record: InspectionRecord): StoredInspection {
+	return {
+		id: record.id,
+		requestedHost: record.requested_host,
+		requestedPort: record.requested_port,
+		storedAt: record.stored_at,
+		result: record.result,
+		findings: record.findings,
+	};
+}
+
+export class CertificateInspectionStore extends DurableObject<Env> {
+	private db: DB;
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+
+		this.db = drizzle(ctx.storage, { schema, logger: false });
+
+		// Run migrations and move any pre-history inspection across before accepting requests
+		this.ctx.blockConcurrencyWhile(async () => {
+			await migrate(this.db, migrations);
+
+			const legacyInspection = await this.ctx.storage.get<Omit<StoredInspection, "id">>(LAST_INSPECTION_STORAGE_KEY);
+			if (legacyInspection) {
+				await inspectionRecords.create(this.db, {
+					requested_host: legacyInspection.requestedHost,
+					requested_port: legacyInspection.requestedPort,
+					stored_at: legacyInspection.storedAt,
+					fingerprint256: legacyInspection.result.fingerprint256,
+					result: legacyInspection.result,
+				});
+				await this.ctx.storage.delete(LAST_INSPECTION_STORAGE_KEY);
+			}
+		});
+	}
+
+	/** The number of inspections kept per host:port, from `INSPECTION_HISTORY_LIMIT` */
+	private get historyLimit(): number {
+		const limit = Number.parseInt(this.env.INSPECTION_HISTORY_LIMIT, 10);
+		return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_HISTORY_LIMIT;
+	}
+
+	private get monitorRegistry() {
+		const registryId = this.env.CERTIFICATE_MONITOR_REGISTRY.idFromName(CERTIFICATE_MONITOR_REGISTRY_SINGLETON);
+		return this.env.CERTIFICATE_MONITOR_REGISTRY.get(registryId);
+	}
+
+	/** A store only ever holds the monitor for its own host:port */
+	private async getMonitorRecord(): Promise<MonitorRecord | null> {
+		const [record] = await monitorRecords.list(this.db);
+		return record ?? null;
+	}
+
+	/**
+	 * `workspace` and `pinning` name this store, so the registry can index the workspace's targets
+	 * without visiting each store.
+	 */
+	async saveInspection(
+		workspace: string,
+		host: string,
+		port: number,
+		result: CertificateDetails,
+		pinning: TargetPinning = {}
+	): Promise<SavedInspection> {
+		const target = normalizeCertificateTarget(host, port, pinning);
+		const previous = await this.getStoredInspection();
+		const monitor = await this.getMonitorRecord();
+		const record = await inspectionRecords.create(this.db, {
+			requested_host: target.host,
+			requested_port: target.port,
+			stored_at: new Date().toISOString(),
+			fingerprint256: result.fingerprint256,
 			result,
-		};
+			findings: evaluateFindings(result, monitor?.rules),
+		});
+
+		await inspectionRecords.prune(this.db, this.historyLimit);
+		const storedInspection = toStoredInspection(record);
+
+		// The inventory is best-effort: a registry failure must not lose the inspection just stored
+		try {
+			await this.monitorRegistry.saveTarget({
+				key: workspaceObjectName(workspace, target.key),
+				workspace,
+				host: target.host,
+				port: target.port,
+				ip: target.ip ?? null,
+				servername: target.servername ?? null,
+				inspection: toInventoryInspection(storedInspection),
+				updated_at: storedInspection.storedAt,
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			console.error("Could not index inspection:", workspaceObjectName(workspace, target.key), message);
+		}
 
-		await this.ctx.storage.put(LAST_INSPECTION_STORAGE_KEY, storedInspection);
-		return storedInspection;
+		// Only targets someone is watching, through a monitor or a push subscription, raise alerts
+		const subscribers = await alertSubscriberRecords.list(this.db);
+		let alerts: CertificateAlert[] = [];
+		if (monitor || subscribers.length > 0) {
+			const thresholds = monitor?.thresholds ?? parseAlertThresholds(this.env.CERTIFICATE_ALERT_THRESHOLDS);
+			alerts = await this.recordAlerts(previous, storedInspection, thresholds);
+			await this.notifySubscribers(storedInspection, alerts);
+		}
+
+		const changes = previous ? diffCertificates(previous.result, storedInspection.result) : null;
+
+		// Webhooks hear about the workspace's monitored targets
+		if (monitor) {
+			await this.notifyWebhooks(monitor.workspace, toWebhookEvents(previous, storedInspection, alerts, changes));
+		}
+
+		return { ...storedInspection, changes };
 	}
 
 	async getStoredInspection(): Promise<StoredInspection | null> {
-		return (await this.ctx.storage.get<StoredInspection>(LAST_INSPECTION_STORAGE_KEY)) ?? null;
+		const record = await inspectionRecords.latest(this.db);
+		return record ? toStoredInspection(record) : null;
+	}
+
+	async getInspection(id: number): Promise<StoredInspection | null> {
+		const record = await inspectionRecords.get(this.db, { id });
+		return record ? toStoredInspection(record) : null;
+	}
+
+	/** The inspection stored immediately before `id`, used as the default base for a diff */
+	async getPreviousInspection(id: number): Promise<StoredInspection | null> {
+		const record = await inspectionRecords.previous(this.db, { id });
+		return record ? toStoredInspection(record) : null;
+	}
+
+	async getHistory(query: InspectionHistoryQuery): Promise<Omit<InspectionHistoryPage, "host" | "port">> {
+		const [total, records] = await Promise.all([
+			inspectionRecords.count(this.db, query),
+			inspectionRecords.list(this.db, query),
+		]);
+
+		return {
+			total,
+			limit: query.limit,
+			offset: query.offset,
+			items: records.map(toStoredInspection),
+		};
+	}
+
+	/** `workspace` is the one this store belongs to; the registry lists monitors by it */
+	async startMonitoring(
+		workspace: string,
+		host: string,
+		port: number,
+		settings: Partial<CertificateMonitorSettings>
+	): Promise<CertificateMonitor> {
+		const target = normalizeCertificateTarget(host, port);
+		const existing = await this.getMonitorRecord();
+		const now = new Date();
+
+		const record = await monitorRecords.upsert(this.db, {
+			key: workspaceObjectName(workspace, target.key),
+			workspace,
+			host: target.host,
+			port: target.port,
+			protocol: settings.protocol ?? existing?.protocol ?? "tls",
+			interval_minutes:
+				settings.intervalMinutes ?? existing?.interval_minutes ?? parseMonitorInterval(this.env.CERTIFICATE_MONITOR_INTERVAL_MINUTES),
+			thresholds: settings.thresholds ?? existing?.thresholds ?? parseAlertThresholds(this.env.CERTIFICATE_ALERT_THRESHOLDS),
+			rules: settings.rules ?? existing?.rules ?? {},
+			created_at: existing?.created_at ?? now.toISOString(),
+			last_checked_at: existing?.last_checked_at ?? null,
+			next_check_at: now.toISOString(),
+			last_error: existing?.last_error ?? null,
+		});
+
+		// Check straight away; the alarm re-schedules itself from there
+		await this.ctx.storage.setAlarm(now.getTime());
+		await this.monitorRegistry.saveMonitor(record);
+
+		return toCertificateMonitor(record);
+	}
+
+	async stopMonitoring(): Promise<CertificateMonitor | null> {
+		const existing = await this.getMonitorRecord();
+		if (!existing) {
+			return null;
+		}
+
+		await monitorRecords.del(this.db, { key: existing.key });
+		await this.ctx.storage.deleteAlarm();
+		await this.monitorRegistry.removeMonitor(existing.key);
+
+		return toCertificateMonitor(existing);
+	}
+
+	async getMonitor(): Promise<CertificateMonitor | null> {
+		const record = await this.getMonitorRecord();
+		return record ? toCertificateMonitor(record) : null;
+	}
+
+	async addAlertSubscriber(workspace: string, endpoint: string): Promise<void> {
+		await alertSubscriberRecords.create(this.db, {
+			endpoint,
+			object_name: workspaceObjectName(workspace, subscriptionObjectName(endpoint)),
+			created_at: new Date().toISOString(),
+		});
+	}
+
+	async removeAlertSubscriber(endpoint: string): Promise<boolean> {
+		return (await alertSubscriberRecords.del(this.db, { endpoint })) !== null;
+	}
+
+	async getAlerts(limit: number): Promise<CertificateAlert[]> {
+		const records = await alertRecords.list(this.db, { limit });
+		return records.map(toCertificateAlert);
+	}
+
+	/**
+	 * Records an alert for every threshold the certificate has crossed, for `authorized` turning
+	 * false and for the leaf certificate being replaced. Expiry alerts are unique per certificate and threshold, so each one is
+	 * only emitted once; a renewed certificate has a new fingerprint and starts afresh.
+	 */
+	private async recordAlerts(
+		previous: StoredInspection | null,
+		current: StoredInspection,
+		thresholds: number[]
+	): Promise<CertificateAlert[]> {
+		const { result } = current;
+		const days = daysRemaining(result.validTo, Date.parse(current.storedAt));
+		const alert = {
+			fingerprint256: result.fingerprint256,
+			days_remaining: days,
+			valid_to: result.validTo,
+			authorization_error: result.authorizationError,
+			inspection_id: current.id,
+			created_at: current.storedAt,
+		};
+
+		const created: AlertRecord[] = [];
+		for (const threshold of crossedThresholds(days, thresholds)) {
+			const record = await alertRecords.create(this.db, { ...alert, kind: "expiring", threshold });
+			if (record) {
+				created.push(record);
+			}
+		}
+
+		const wasAuthorized = previous?.result.authorized ?? true;
+		if (wasAuthorized && !result.authorized) {
+			const record = await alertRecords.create(this.db, { ...alert, kind: "unauthorized", threshold: null });
+			if (record) {
+				created.push(record);
+			}
+		}
+
+		const previousFingerprint = previous?.result.fingerprint256;
+		if (previousFingerprint && result.fingerprint256 && previousFingerprint !== result.fingerprint256) {
+			const record = await alertRecords.create(this.db, { ...alert, kind: "changed", threshold: null });
+			if (record) {
+				created.push(record);
+			}
+		}
+
+		const alerts = created.map(toCertificateAlert);
+		for (const emitted of alerts) {
+			console.log("Certificate alert:", current.requestedHost, current.requestedPort, JSON.stringify(emitted));
+		}
+
+		return alerts;
+	}
+
+	/** A subscriber that cannot be notified is logged rather than failing the inspection that raised the alerts */
+	private async notifySubscribers(inspection: StoredInspection, alerts: CertificateAlert[]): Promise<void> {
+		const notifications = toCertificateAlertNotifications(inspection, alerts);
+		if (notifications.length === 0) {
+			return;
+		}
+
+		for (const subscriber of await alertSubscriberRecords.list(this.db)) {
+			const subscription = this.env.MY_DURABLE_OBJECT.get(this.env.MY_DURABLE_OBJECT.idFromName(subscriber.object_name));
+
+			try {
+				for (const notification of notifications) {
+					const delivered = await subscription.sendCertificateAlert(notification);
+					if (!delivered) {
+						// The browser has unsubscribed since; stop notifying it
+						await alertSubscriberRecords.del(this.db, { endpoint: subscriber.endpoint });
+						break;
+					}
+				}
+			} catch (error) {
+				console.error("Could not notify subscriber:", subscriber.object_name, error instanceof Error ? error.message : String(error));
+			}
+		}
+	}
+
+	/** A webhook that cannot be queued is logged rather than failing the inspection that raised it */
+	private async notifyWebhooks(workspace: string, events: WebhookEvent[]): Promise<void> {
+		if (events.length === 0) {
+			return;
+		}
+
+		try {
+			const webhooks = this.env.WEBHOOK_STORE.get(this.env.WEBHOOK_STORE.idFromName(workspaceObjectName(workspace, WEBHOOK_STORE_NAME)));
+			await webhooks.dispatch(events);
+		} catch (error) {
+			console.error("Could not queue webhook events:", workspace, error instanceof Error ? error.message : String(error));
+		}
+	}
+
+	async alarm(): Promise<void> {
+		const monitor = await this.getMonitorRecord();
+		if (!monitor) {
+			return;
+		}
+
+		const checkedAt = new Date();
+		let lastError: string | null = null;
+
+		try {
+			const { result } = await inspectWithFallback(this.env, monitor.host, monitor.port, { protocol: monitor.protocol });
+			await this.saveInspection(monitor.workspace, monitor.host, monitor.port, result);
+		} catch (error) {
+			lastError = error instanceof Error ? error.message : String(error);
+			console.error("Scheduled inspection failed:", monitor.key, lastError);
+
+			// Only the first of a run of failures is announced, not every check until it recovers
+			if (monitor.last_error === null) {
+				await this.notifyWebhooks(monitor.workspace, [inspectionFailedEvent(monitor.host, monitor.port, lastError)]);
+			}
+		}
+
+		// Monitoring may have been stopped while the inspection was in flight
+		if (!(await this.getMonitorRecord())) {
+			return;
+		}
+
+		const nextCheckAt = new Date(checkedAt.getTime() + monitor.interval_minutes * 60 * 1000);
+		const record = await monitorRecords.upsert(this.db, {
+			...monitor,
+			last_checked_at: checkedAt.toISOString(),
+			next_check_at: nextCheckAt.toISOString(),
+			last_error: lastError,
+		});
+
+		await this.ctx.storage.setAlarm(nextCheckAt.getTime());
+		await this.monitorRegistry.saveMonitor(record);
 	}
-}
\ No newline at end of file
+}
@@ -1,26 +1,115 @@
 import { Container } from "@cloudflare/containers";
-import { type CertificateDetails, normalizeHost } from "./certificates";
+import {
+	type BatchInspectionOutcome,
+	type CertificateDetails,
+	type CertificateTarget,
+	type InspectOptions,
+	INSPECTION_FAILED_PREFIX,
+	INSPECTOR_UNAVAILABLE_PREFIX,
+	TARGET_NOT_ALLOWED_PREFIX,
+	REQUEST_REJECTED_PREFIX,
+	normalizeHost,
+} from "./certificates";
+
+/**
+ * The inspector answers with a JSON error: a 403 when its target policy refuses a host, port or
+ * address, a 400 for an upload it cannot read, and otherwise when the target itself failed.
+ * Anything else came from the container runtime, which means the inspector could not be reached.
+ */
+async function inspectionError(response: Response): Promise<Error> {
+	const message = await response.text();
+
+	let answer: unknown;
+	try {
+		answer = (JSON.parse(message) as { error?: unknown }).error;
+	} catch {
+		answer = undefined;
+	}
+
+	if (typeof answer !== "string") {
+		return new Error(`${INSPECTOR_UNAVAILABLE_PREFIX}${message || `The container answered with status ${response.status}.`}`);
+	}
+	if (response.status === 403) {
+		return new Error(`${TARGET_NOT_ALLOWED_PREFIX}${answer}`);
+	}
+	return new Error(`${response.status === 400 ? REQUEST_REJECTED_PREFIX : INSPECTION_FAILED_PREFIX}${answer}`);
+}
 
 export class CertificateInspectorContainer extends Container {
 	defaultPort = 8080;
 	sleepAfter = "5m";
 	enableInternet = true;
 
-	async inspectCertificate(host: string, port = 443): Promise<CertificateDetails> {
-		const normalizedHost = normalizeHost(host);
-		const response = await this.containerFetch("http://container/inspect", {
-			method: "POST",
-			headers: {
-				"content-type": "application/json",
-			},
-			body: JSON.stringify({ host: normalizedHost, port }),
+	constructor(ctx: DurableObjectState<{}>, env: Env) {
+		super(ctx, env);
+
+		// Internal ranges are always refused; these lists narrow or widen that from wrangler.jsonc
+		this.envVars = {
+			TARGET_ALLOW_HOSTS: env.TARGET_ALLOW_HOSTS,
+			TARGET_DENY_HOSTS: env.TARGET_DENY_HOSTS,
+			TARGET_ALLOW_CIDRS: env.TARGET_ALLOW_CIDRS,
+			TARGET_DENY_CIDRS: env.TARGET_DENY_CIDRS,
+			TARGET_ALLOW_PORTS: env.TARGET_ALLOW_PORTS,
+			TARGET_DENY_PORTS: env.TARGET_DENY_PORTS,
+			// The CAA and TLSA lookups go to these servers, or the system resolver when empty
+			DNS_RESOLVERS: env.DNS_RESOLVERS,
+		};
+	}
+
+	async inspectCertificate(host: string, port = 443, options: InspectOptions = {}): Promise<CertificateDetails> {
+		return this.post<CertificateDetails>("/inspect", { ...options, host: normalizeHost(host), port });
+	}
+
+	/** Describes an uploaded PEM bundle or DER certificate as if a server had sent it, checking its names against `servername` */
+	async parseCertificate(
+		certificate: Uint8Array,
+		options: Partial<CertificateTarget> & { servername?: string; includePem?: boolean } = {}
+	): Promise<CertificateDetails> {
+		return this.post<CertificateDetails>("/parse", { ...options, certificate: Buffer.from(certificate).toString("base64") });
+	}
+
+	/** Inspects each address the host resolves to, for spotting one backend that serves a different certificate */
+	async inspectAllAddresses(
+		host: string,
+		port = 443,
+		options: Omit<InspectOptions, "ip"> = {}
+	): Promise<{ addresses: string[]; results: BatchInspectionOutcome[] }> {
+		const { addresses, results } = await this.post<{ addresses: string[]; results: BatchInspectionOutcome[] }>("/inspect/addresses", {
+			...options,
+			host: normalizeHost(host),
+			port,
+		});
+		return { addresses, results };
+	}
+
+	/** Inspects every target inside the container, at most `concurrency` at a time; one failure does not stop the rest */
+	async inspectCertificates(targets: Array<CertificateTarget & InspectOptions>, concurrency?: number): Promise<BatchInspectionOutcome[]> {
+		const { results } = await this.post<{ results: BatchInspectionOutcome[] }>("/inspect/batch", {
+			targets: targets.map((target) => ({ ...target, host: normalizeHost(target.host) })),
+			concurrency,
 		});
+		return results;
+	}
+
+	/** Errors carry one of the prefixes from `./certificates`, since their classes do not survive the RPC */
+	private async post<T>(path: string, body: unknown): Promise<T> {
+		let response: Response;
+		try {
+			response = await this.containerFetch(`http://container${path}`, {
+				method: "POST",
+				headers: {
+					"content-type": "application/json",
+				},
+				body: JSON.stringify(body),
+			});
+		} catch (error) {
+			throw new Error(`${INSPECTOR_UNAVAILABLE_PREFIX}${error instanceof Error ? error.message : String(error)}`);
+		}
 
 		if (!response.ok) {
-			const message = await response.text();
-			throw new Error(message || `Certificate inspection failed with status ${response.status}`);
+			throw await inspectionError(response);
 		}
 
-		return (await response.json()) as CertificateDetails;
+		return (await response.json()) as T;
 	}
 }
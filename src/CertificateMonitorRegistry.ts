@@ -0,0 +1,135 @@
+import { DurableObject } from "cloudflare:workers";
+import { drizzle } from "drizzle-orm/durable-sqlite";
+import { migrate } from "drizzle-orm/durable-sqlite/migrator";
+import migrations from "../drizzle/migrations";
+import * as schema from "./db/schemas";
+import * as monitorRecords from "./db/monitors";
+import * as targetRecords from "./db/targets";
+
+import { type CertificateInventoryEntry, type CertificateMonitor, toInventoryInspection } from "./certificates";
+import { mapWithConcurrency } from "./concurrency";
+import { DB, InsertTargetRecord, MonitorRecord } from "./db/types";
+import { toCertificateMonitor } from "./monitoring";
+
+const TARGETS_BACKFILLED_STORAGE_KEY = "targetsBackfilled";
+const BACKFILL_CONCURRENCY = 8;
+
+/**
+ * Keeps a copy of every monitor, and a summary of the latest inspection in
+ * every `CertificateInspectionStore`, so they can be listed without visiting
+ * each store. The stores remain the source of truth and push their monitor
+ * here whenever it is created, re-scheduled or removed, and each inspection
+ * as it is saved.
+ */
+export class CertificateMonitorRegistry extends DurableObject<Env> {
+	private db: DB;
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+
+		this.db = drizzle(ctx.storage, { schema, logger: false });
+
+		// Run migrations before accepting any requests
+		this.ctx.blockConcurrencyWhile(async () => {
+			await migrate(this.db, migrations);
+		});
+	}
+
+	async saveMonitor(record: MonitorRecord): Promise<void> {
+		await monitorRecords.upsert(this.db, record);
+	}
+
+	/** A stopped monitor's target leaves the inventory with it, until it is inspected again */
+	async removeMonitor(key: string): Promise<void> {
+		await monitorRecords.del(this.db, { key });
+		await targetRecords.del(this.db, { key });
+	}
+
+	async listMonitors(workspace: string): Promise<CertificateMonitor[]> {
+		const records = await monitorRecords.list(this.db, { workspace });
+		return records.map(toCertificateMonitor);
+	}
+
+	async saveTarget(record: InsertTargetRecord): Promise<void> {
+		await targetRecords.upsert(this.db, record);
+	}
+
+	/** Every target the workspace has inspected or monitors, ordered by store key */
+	async listInventory(workspace: string): Promise<CertificateInventoryEntry[]> {
+		await this.backfillTargets();
+
+		const [targets, monitors] = await Promise.all([
+			targetRecords.list(this.db, { workspace }),
+			monitorRecords.list(this.db, { workspace }),
+		]);
+		const monitorsByKey = new Map(monitors.map((monitor) => [monitor.key, monitor]));
+		const indexed = new Set(targets.map((target) => target.key));
+
+		const entries: Array<[string, CertificateInventoryEntry]> = targets.map((target) => {
+			const monitor = monitorsByKey.get(target.key);
+			return [
+				target.key,
+				{
+					host: target.host,
+					port: target.port,
+					ip: target.ip,
+					servername: target.servername,
+					monitor: monitor ? toCertificateMonitor(monitor) : null,
+					inspection: target.inspection,
+				},
+			];
+		});
+
+		for (const monitor of monitors.filter((monitor) => !indexed.has(monitor.key))) {
+			entries.push([
+				monitor.key,
+				{ host: monitor.host, port: monitor.port, ip: null, servername: null, monitor: toCertificateMonitor(monitor), inspection: null },
+			]);
+		}
+
+		return entries.sort(([a], [b]) => a.localeCompare(b)).map(([, entry]) => entry);
+	}
+
+	/**
+	 * Targets are only indexed as they are inspected, so the first listing fetches the latest
+	 * inspection of every monitor checked before that, and trims entries saved whole back then.
+	 * Unmonitored targets inspected before the index existed appear once they are inspected again.
+	 */
+	private async backfillTargets(): Promise<void> {
+		if (await this.ctx.storage.get<boolean>(TARGETS_BACKFILLED_STORAGE_KEY)) {
+			return;
+		}
+
+		const [targets, monitors] = await Promise.all([targetRecords.list(this.db), monitorRecords.list(this.db)]);
+		for (const target of targets) {
+			await targetRecords.upsert(this.db, { ...target, inspection: toInventoryInspection(target.inspection) });
+		}
+
+		const indexed = new Set(targets.map((target) => target.key));
+		await mapWithConcurrency(
+			monitors.filter((monitor) => !indexed.has(monitor.key)),
+			BACKFILL_CONCURRENCY,
+			async (monitor) => {
+				const store = this.env.CERTIFICATE_INSPECTION_STORE.get(this.env.CERTIFICATE_INSPECTION_STORE.idFromName(monitor.key));
+				const inspection = await store.getStoredInspection();
+				if (!inspection) {
+					return;
+				}
+
+				// A newer inspection may have been saved in the meantime, and wins
+				await targetRecords.createIfMissing(this.db, {
+					key: monitor.key,
+					workspace: monitor.workspace,
+					host: monitor.host,
+					port: monitor.port,
+					ip: null,
+					servername: null,
+					inspection: toInventoryInspection(inspection),
+					updated_at: inspection.storedAt,
+				});
+			}
+		);
+
+		await this.ctx.storage.put(TARGETS_BACKFILLED_STORAGE_KEY, true);
+	}
+}
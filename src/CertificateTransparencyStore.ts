@@ -0,0 +1,87 @@
+import { DurableObject } from "cloudflare:workers";
+import { drizzle } from "drizzle-orm/durable-sqlite";
+import { migrate } from "drizzle-orm/durable-sqlite/migrator";
+import migrations from "../drizzle/migrations";
+import * as schema from "./db/schemas";
+import * as ctLookupRecords from "./db/ctLookups";
+
+import { DB } from "./db/types";
+import {
+	type CtLookup,
+	type CtLookupHistoryPage,
+	type CtSearchResult,
+	type SavedCtLookup,
+	classifyCtCertificates,
+	diffCtLookups,
+	toCtLookup,
+} from "./transparency";
+
+/** Each lookup holds up to `MAX_CT_CERTIFICATES` certificates, so far fewer are kept than inspections */
+const CT_LOOKUP_HISTORY_LIMIT = 50;
+
+/**
+ * One per workspace and domain, holding the history of certificate transparency lookups for it.
+ * Whether a logged certificate was ever seen deployed carries over from one lookup to the next.
+ */
+export class CertificateTransparencyStore extends DurableObject<Env> {
+	private db: DB;
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+
+		this.db = drizzle(ctx.storage, { schema, logger: false });
+
+		// Run migrations before accepting any requests
+		this.ctx.blockConcurrencyWhile(async () => {
+			await migrate(this.db, migrations);
+		});
+	}
+
+	/** `served` holds the serial numbers the workspace's targets under the domain serve now */
+	async saveLookup(domain: string, source: string, search: CtSearchResult, served: string[]): Promise<SavedCtLookup> {
+		const previous = await this.getLatestLookup();
+		const record = await ctLookupRecords.create(this.db, {
+			domain,
+			looked_up_at: new Date().toISOString(),
+			source,
+			truncated: search.truncated,
+			certificates: classifyCtCertificates(search.certificates, served, previous?.certificates ?? []),
+		});
+
+		await ctLookupRecords.prune(this.db, CT_LOOKUP_HISTORY_LIMIT);
+		const lookup = toCtLookup(record);
+
+		if (lookup.summary.unknown > 0) {
+			console.log("Unknown certificates issued:", domain, lookup.summary.unknown);
+		}
+
+		return { ...lookup, changes: previous ? diffCtLookups(previous, lookup) : null };
+	}
+
+	async getLatestLookup(): Promise<CtLookup | null> {
+		const record = await ctLookupRecords.latest(this.db);
+		return record ? toCtLookup(record) : null;
+	}
+
+	async getLookup(id: number): Promise<CtLookup | null> {
+		const record = await ctLookupRecords.get(this.db, { id });
+		return record ? toCtLookup(record) : null;
+	}
+
+	/** The lookup stored immediately before `id`, used as the default base for a diff */
+	async getPreviousLookup(id: number): Promise<CtLookup | null> {
+		const record = await ctLookupRecords.previous(this.db, { id });
+		return record ? toCtLookup(record) : null;
+	}
+
+	async getHistory(query: { limit: number; offset: number }): Promise<Omit<CtLookupHistoryPage, "domain">> {
+		const [total, records] = await Promise.all([ctLookupRecords.count(this.db), ctLookupRecords.list(this.db, query)]);
+
+		return {
+			total,
+			limit: query.limit,
+			offset: query.offset,
+			items: records.map(toCtLookup),
+		};
+	}
+}
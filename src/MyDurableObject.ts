@@ -1,12 +1,49 @@
 import { DurableObject } from "cloudflare:workers";
 import { drizzle } from 'drizzle-orm/durable-sqlite';
-import { PushSubscription, sendNotification, WebPushError, RequestOptions } from 'web-push';
+import { PushSubscription, generateRequestDetails, sendNotification, WebPushError, RequestOptions } from 'web-push';
 import { migrate } from 'drizzle-orm/durable-sqlite/migrator';
 import migrations from '../drizzle/migrations';
 import * as schema from "./db/schemas";
 import * as subscriptionRecords from "./db/index";
+import * as watchRecords from "./db/watches";
+import * as notificationRecords from "./db/notifications";
+import * as deliveryAttemptRecords from "./db/deliveryAttempts";
 
-import { DB } from './db/types';
+import { DB, NotificationRecord, SubscriptionRecord } from './db/types';
+import type { DeliveryOutcome } from "./db/DeliveryAttemptRecords";
+import { type CertificateTarget, normalizeCertificateTarget } from "./certificates";
+import { workspaceObjectName } from "./auth";
+import {
+	type CertificateAlertNotification,
+	type PushDelivery,
+	type PushMessage,
+	MAX_DELIVERY_ATTEMPTS,
+	PushConfigurationError,
+	SUBSCRIPTION_DIRECTORY_NAME,
+	isGonePushStatus,
+	isRetryablePushStatus,
+	parseRetryAfter,
+	pushRetryDelay,
+	subscriptionObjectName,
+} from "./push";
+
+const DELIVERY_LOG_LIMIT = 200;
+
+/** Marks an object whose subscriptions are registered with the `SubscriptionDirectory` */
+const SUBSCRIPTIONS_INDEXED_STORAGE_KEY = "subscriptionsIndexed";
+
+const WELCOME_MESSAGE: PushMessage = {
+	type: "message",
+	title: "Notifications enabled",
+	body: "This device will now receive push notifications.",
+	url: null,
+	data: null,
+};
+
+/** web-push rejects with a `WebPushError` once the push service has answered, so anything else failed before it could */
+function isNetworkError(error: unknown): boolean {
+	return !(error instanceof WebPushError) && !(error instanceof PushConfigurationError);
+}
 
 /** A Durable Object's behavior is defined in an exported Javascript class */
 export class MyDurableObject extends DurableObject {
@@ -37,9 +74,29 @@ export class MyDurableObject extends DurableObject {
 		// Run migrations before accepting any requests
 		this.ctx.blockConcurrencyWhile(async () => {
 			await migrate(this.db, migrations);
+			await this.indexSubscriptions();
 		});
 	}
 
+	/**
+	 * Subscriptions saved before the `SubscriptionDirectory` existed were never indexed, so each
+	 * object registers its own the first time it starts up since. A failure is retried at the next start.
+	 */
+	private async indexSubscriptions(): Promise<void> {
+		if (await this.storage.get<boolean>(SUBSCRIPTIONS_INDEXED_STORAGE_KEY)) {
+			return;
+		}
+
+		try {
+			for (const record of await subscriptionRecords.list(this.db)) {
+				await this.index(record);
+			}
+			await this.storage.put(SUBSCRIPTIONS_INDEXED_STORAGE_KEY, true);
+		} catch (error) {
+			console.error("Could not index subscriptions:", error instanceof Error ? error.message : String(error));
+		}
+	}
+
 	/**
 	 * The Durable Object exposes an RPC method sayHello which will be invoked when when a Durable
 	 *  Object instance receives a request from a Worker via the same method invocation on the stub
@@ -51,116 +108,303 @@ export class MyDurableObject extends DurableObject {
 		return `Hello, ${name}! From Durable Object ${this.ctx.id.toString()}`;
 	}
 
-	async registerNotification(subscription: PushSubscription): Promise<void> {
-
-		console.log("Registering Subscription:", this.ctx.id);
+	private directory(workspace: string) {
+		const directories = this.localEnv.SUBSCRIPTION_DIRECTORY;
+		return directories.get(directories.idFromName(workspaceObjectName(workspace, SUBSCRIPTION_DIRECTORY_NAME)));
+	}
 
-		await subscriptionRecords.create(this.db, {
+	/** Leaving `topics` out keeps the ones the subscription already has */
+	async saveSubscription(workspace: string, subscription: PushSubscription, topics?: string[]): Promise<void> {
+		const record = await subscriptionRecords.create(this.db, {
 			endpoint: subscription.endpoint,
 			keys_p256dh: subscription.keys.p256dh,
-			keys_auth: subscription.keys.auth
+			keys_auth: subscription.keys.auth,
+			workspace,
+			topics,
 		});
 
+		await this.index(record);
+	}
+
+	private async index(record: SubscriptionRecord): Promise<void> {
+		const objectName = workspaceObjectName(record.workspace, subscriptionObjectName(record.endpoint));
+		await this.directory(record.workspace).register(record.endpoint, objectName, record.topics);
+	}
+
+	/** The page registers its subscription again on every load, which keeps it indexed but only greets it once */
+	async registerNotification(workspace: string, subscription: PushSubscription, topics?: string[]): Promise<void> {
+
+		console.log("Registering Subscription:", this.ctx.id);
+
+		const existing = await subscriptionRecords.get(this.db, { endpoint: subscription.endpoint });
+		await this.saveSubscription(workspace, subscription, topics);
+
 		console.log("Subscription registered:", subscription.endpoint);
 
-		let currentAlarm = await this.ctx.storage.getAlarm();
-		if (currentAlarm == null || currentAlarm <= Date.now()) {
-			var alarmTime = new Date(Date.now() + 10 * 1000); // 10 seconds in the future
-			console.log("Setting alarm for 10 seconds in the future: ", alarmTime);
-			await this.ctx.storage.setAlarm(alarmTime);
+		if (!existing) {
+			// Greet the new subscription 10 seconds from now
+			await this.enqueue(subscription.endpoint, JSON.stringify(WELCOME_MESSAGE), Date.now() + 10 * 1000);
 		}
-		else {
-			console.log("Alarm already set for:", new Date(currentAlarm));
+	}
+
+	/**
+	 * Removes the subscription, anything still queued for it and its certificate alert targets.
+	 *
+	 * @returns false when there was no such subscription
+	 */
+	async unregisterNotification(endpoint: string): Promise<boolean> {
+		const subscription = await subscriptionRecords.get(this.db, { endpoint });
+		if (!subscription) {
+			return false;
 		}
+
+		await this.removeSubscription(endpoint);
+		return true;
 	}
 
-	async alarm() {
-		console.log("Alarm triggered: ", this.ctx.id);
+	private async removeSubscription(endpoint: string): Promise<void> {
+		console.log("Removing subscription:", endpoint);
 
-		var subscriptions = await subscriptionRecords.list(this.db);
-		const subscription = subscriptions[0];
+		const subscription = await subscriptionRecords.del(this.db, { endpoint });
+		await notificationRecords.delForEndpoint(this.db, { endpoint });
+		if (subscription) {
+			await this.directory(subscription.workspace).unregister(endpoint);
+		}
 
-		if (!subscription)
-			throw new Error("No subscription found in storage.");
+		for (const watch of await watchRecords.list(this.db)) {
+			const store = this.localEnv.CERTIFICATE_INSPECTION_STORE.get(this.localEnv.CERTIFICATE_INSPECTION_STORE.idFromName(watch.target_key));
+			await store.removeAlertSubscriber(endpoint);
+			await watchRecords.del(this.db, { target_key: watch.target_key });
+		}
 
-		try {
-			console.log("Sending notification to:", subscription.endpoint);
-			console.log("Using GCM API Key:", this.gcmApiKey);
-			console.log("Auth Key:", subscription.keys_auth);
-			console.log("P256DH Key:", subscription.keys_p256dh);
-			console.log("Vapid Key:", this.localEnv.VAPID_PUBLIC_KEY);
-			console.log("Vapid Private Key:", this.localEnv.VAPID_PRIVATE_KEY);
-
-			if (!this.localEnv.VAPID_PRIVATE_KEY) {
-				throw new Error("Missing VAPID_PRIVATE_KEY");
-			}
+		await this.scheduleNextDelivery();
+	}
 
-			if (!this.localEnv.GCM_APIKey) {
-				throw new Error("Missing GCM_APIKey");
-			}
+	/**
+	 * Records which host:port targets this subscription receives certificate alerts for. The key is
+	 * the name of the target's store in `workspace`, so the watch can be removed from it later.
+	 */
+	async watchCertificates(workspace: string, targets: CertificateTarget[]): Promise<void> {
+		const createdAt = new Date().toISOString();
+		for (const { host, port } of targets) {
+			const target = normalizeCertificateTarget(host, port);
+			await watchRecords.create(this.db, {
+				target_key: workspaceObjectName(workspace, target.key),
+				host: target.host,
+				port: target.port,
+				created_at: createdAt,
+			});
+		}
+	}
 
-			const options: RequestOptions = {
-				//TTL: 60,
-				urgency: "normal",
-				vapidDetails: {
-					subject: "mailto: <matthew@mercuryit.co.uk>",
-					publicKey: this.localEnv.VAPID_PUBLIC_KEY,
-					privateKey: this.localEnv.VAPID_PRIVATE_KEY
-				},
-				gcmAPIKey: this.gcmApiKey
-			};
-
-			//parse the host from the endpoint
-			const endpointUrl = new URL(subscription.endpoint);
-			const host = endpointUrl.host;
-
-			const pushSubscription: PushSubscription = {
-				endpoint: subscription.endpoint,
-				keys: {
-					p256dh: subscription.keys_p256dh,
-					auth: subscription.keys_auth
-				}
-			};
-
-			const result = await sendNotification(pushSubscription, "Hello from Cloudflare Workers!", options);
+	async unwatchCertificates(workspace: string, targets: CertificateTarget[]): Promise<void> {
+		for (const { host, port } of targets) {
+			await watchRecords.del(this.db, { target_key: workspaceObjectName(workspace, normalizeCertificateTarget(host, port).key) });
+		}
+	}
 
-			console.log("Notification sent: ", result.statusCode, result.body);
+	async listWatchedCertificates(): Promise<CertificateTarget[]> {
+		const watches = await watchRecords.list(this.db);
+		return watches.map(({ host, port }) => ({ host, port }));
+	}
 
-			var debugUrl = subscription.endpoint.replace(host, this.localEnv.DEBUG_URL);
+	/**
+	 * Queues a certificate alert for this subscription.
+	 *
+	 * @returns false when the subscription no longer exists, so the caller can stop sending to it
+	 */
+	async sendCertificateAlert(notification: CertificateAlertNotification): Promise<boolean> {
+		const subscriptions = await subscriptionRecords.list(this.db);
+		if (subscriptions.length === 0) {
+			return false;
+		}
 
-			// const debugSubscription: PushSubscription = {
-			// 	endpoint: debugUrl,
-			// 	keys: {
-			// 		p256dh: subscription.keys_p256dh,
-			// 		auth: subscription.keys_auth
-			// 	}
-			// };
+		for (const subscription of subscriptions) {
+			await this.enqueue(subscription.endpoint, JSON.stringify(notification), Date.now());
+		}
 
-			// const debugResult = await sendNotification(debugSubscription, "Hello from Cloudflare Workers!", options);
+		return true;
+	}
 
-			// console.log("Debug notification sent: ", debugResult.statusCode, debugResult.body);
+	/**
+	 * Replaces the topics this subscription is tagged with.
+	 *
+	 * @returns false when there is no subscription with this endpoint
+	 */
+	async setTopics(endpoint: string, topics: string[]): Promise<boolean> {
+		const subscription = await subscriptionRecords.get(this.db, { endpoint });
+		if (!subscription) {
+			return false;
+		}
+
+		await this.saveSubscription(
+			subscription.workspace,
+			{ endpoint, keys: { p256dh: subscription.keys_p256dh, auth: subscription.keys_auth } },
+			topics
+		);
+		return true;
+	}
+
+	/**
+	 * Queues a message sent through the API for this subscription.
+	 *
+	 * @returns false when the subscription no longer exists, so the caller can stop sending to it
+	 */
+	async queueMessage(message: PushMessage, delivery: PushDelivery): Promise<boolean> {
+		const subscriptions = await subscriptionRecords.list(this.db);
+		if (subscriptions.length === 0) {
+			return false;
+		}
+
+		for (const subscription of subscriptions) {
+			await this.enqueue(subscription.endpoint, JSON.stringify(message), delivery.sendAt, delivery);
+		}
+
+		return true;
+	}
+
+	/** Queues a payload and makes sure the alarm fires in time to send it */
+	private async enqueue(endpoint: string, payload: string, sendAt: number, options: Omit<PushDelivery, "sendAt"> = {}): Promise<void> {
+		await notificationRecords.create(this.db, {
+			endpoint,
+			payload,
+			next_attempt_at: new Date(sendAt).toISOString(),
+			created_at: new Date().toISOString(),
+			ttl: options.ttl ?? null,
+			urgency: options.urgency ?? null,
+		});
+
+		await this.scheduleNextDelivery();
+	}
 
-			// Success: cleanup
+	/** Points the alarm at the earliest queued notification, or clears it when nothing is queued */
+	private async scheduleNextDelivery(): Promise<void> {
+		const next = await notificationRecords.next(this.db);
+		if (!next) {
 			await this.ctx.storage.deleteAlarm();
-			await this.ctx.storage.deleteAll();
+			return;
+		}
+
+		const nextAttemptAt = Date.parse(next.next_attempt_at);
+		const currentAlarm = await this.ctx.storage.getAlarm();
+		if (currentAlarm == null || currentAlarm > nextAttemptAt) {
+			console.log("Setting alarm for:", new Date(nextAttemptAt));
+			await this.ctx.storage.setAlarm(nextAttemptAt);
+		}
+	}
+
+	private async push(subscription: SubscriptionRecord, notification: NotificationRecord) {
+		if (!this.localEnv.VAPID_PRIVATE_KEY) {
+			throw new PushConfigurationError("Missing VAPID_PRIVATE_KEY");
+		}
+
+		if (!this.localEnv.GCM_APIKey) {
+			throw new PushConfigurationError("Missing GCM_APIKey");
+		}
+
+		const options: RequestOptions = {
+			TTL: notification.ttl ?? undefined,
+			urgency: notification.urgency ?? "normal",
+			vapidDetails: {
+				subject: "mailto: <matthew@mercuryit.co.uk>",
+				publicKey: this.localEnv.VAPID_PUBLIC_KEY,
+				privateKey: this.localEnv.VAPID_PRIVATE_KEY
+			},
+			gcmAPIKey: this.gcmApiKey
+		};
+
+		const pushSubscription: PushSubscription = {
+			endpoint: subscription.endpoint,
+			keys: {
+				p256dh: subscription.keys_p256dh,
+				auth: subscription.keys_auth
+			}
+		};
+
+		try {
+			generateRequestDetails(pushSubscription, notification.payload, options);
+		} catch (error) {
+			throw new PushConfigurationError(error instanceof Error ? error.message : String(error));
+		}
+
+		return sendNotification(pushSubscription, notification.payload, options);
+	}
+
+	async alarm() {
+		console.log("Alarm triggered: ", this.ctx.id);
+
+		const due = await notificationRecords.listDue(this.db, { now: new Date().toISOString() });
+		for (const notification of due) {
+			await this.deliver(notification);
+		}
+
+		await deliveryAttemptRecords.prune(this.db, DELIVERY_LOG_LIMIT);
+		await this.scheduleNextDelivery();
+	}
+
+	private async deliver(notification: NotificationRecord): Promise<void> {
+		const subscription = await subscriptionRecords.get(this.db, { endpoint: notification.endpoint });
+		if (!subscription) {
+			await notificationRecords.del(this.db, { id: notification.id });
+			return;
+		}
+
+		const attempt = notification.attempts + 1;
+
+		try {
+			console.log("Sending notification to:", subscription.endpoint);
+
+			const result = await this.push(subscription, notification);
+
+			console.log("Notification sent: ", result.statusCode, result.body);
+
+			await this.logAttempt(notification, attempt, "delivered", result.statusCode, null);
+			await notificationRecords.del(this.db, { id: notification.id });
 		} catch (err: unknown) {
 			const anyErr = err as WebPushError;
+			const status = anyErr?.statusCode as number | undefined;
+			const message = anyErr?.body || anyErr?.message || String(err);
 			console.error("Failed to send notification:", anyErr);
-			console.error("Status code:", anyErr.statusCode);
+			console.error("Status code:", status);
 			console.error("Body:", anyErr.body);
-			console.error("Headers:", anyErr.headers);
-			console.error("Endpoint:", anyErr.endpoint);
 
 			// web-push returns a WebPushError with statusCode (410/404 => gone/invalid)
-			// const status = anyErr?.statusCode as number | undefined;
-			// if (status === 410 || status === 404) {
-			// 	// Subscription is invalid/expired; remove and stop retrying
-			// 	await this.ctx.storage.deleteAll();
-			// 	await this.ctx.storage.deleteAlarm();
-			// } else {
-			// 	// Transient error: backoff and retry later (adjust delay as needed)
-			// 	await this.ctx.storage.setAlarm(Date.now() + 5 * 60 * 1000);
-			// }
+			if (isGonePushStatus(status)) {
+				// Subscription is invalid/expired; remove and stop retrying
+				await this.logAttempt(notification, attempt, "gone", status, message);
+				await this.removeSubscription(subscription.endpoint);
+			} else if ((isRetryablePushStatus(status) || isNetworkError(err)) && attempt < MAX_DELIVERY_ATTEMPTS) {
+				// Transient error: back off, waiting at least as long as the push service asked
+				const retryAfterHeader = Object.entries(anyErr.headers ?? {}).find(([name]) => name.toLowerCase() === "retry-after")?.[1];
+				const delay = pushRetryDelay(attempt, parseRetryAfter(retryAfterHeader));
+				await this.logAttempt(notification, attempt, "retry", status, message);
+				await notificationRecords.reschedule(this.db, {
+					id: notification.id,
+					attempts: attempt,
+					next_attempt_at: new Date(Date.now() + delay).toISOString(),
+				});
+			} else {
+				await this.logAttempt(notification, attempt, "failed", status, message);
+				await notificationRecords.del(this.db, { id: notification.id });
+			}
 		}
 	}
+
+	private async logAttempt(
+		notification: NotificationRecord,
+		attempt: number,
+		outcome: DeliveryOutcome,
+		statusCode: number | undefined,
+		error: string | null
+	): Promise<void> {
+		await deliveryAttemptRecords.create(this.db, {
+			notification_id: notification.id,
+			endpoint: notification.endpoint,
+			attempt,
+			outcome,
+			status_code: statusCode ?? null,
+			error,
+			created_at: new Date().toISOString(),
+		});
+	}
 }
@@ -0,0 +1,62 @@
+import { DurableObject } from "cloudflare:workers";
+
+import type { RateLimitDecision, RateLimitSettings } from "./rateLimit";
+
+const BUCKET_STORAGE_KEY = "bucket";
+
+type Bucket = {
+	tokens: number;
+	/** Milliseconds since the epoch when `tokens` was last brought up to date */
+	updatedAt: number;
+};
+
+/**
+ * One token bucket per client, named after its API key. Calls to a single object are processed
+ * one at a time, so taking tokens needs no further locking.
+ */
+export class RateLimiter extends DurableObject<Env> {
+	/**
+	 * Takes `cost` tokens when the bucket holds at least that many, or a full bucket's worth for a
+	 * cost larger than the bucket. The whole cost is always charged, so a large batch leaves the
+	 * bucket in debt and later requests wait until it has been paid back.
+	 */
+	async take(cost: number, settings: RateLimitSettings): Promise<RateLimitDecision> {
+		const now = Date.now();
+		const refillPerMs = settings.refillPerMinute / 60000;
+		const tokens = await this.currentTokens(now, settings);
+		const required = Math.min(cost, settings.capacity);
+
+		if (tokens < required) {
+			await this.ctx.storage.put<Bucket>(BUCKET_STORAGE_KEY, { tokens, updatedAt: now });
+			return { allowed: false, remaining: Math.floor(Math.max(tokens, 0)), retryAfterSeconds: Math.ceil((required - tokens) / refillPerMs / 1000) };
+		}
+
+		const remaining = await this.spend(tokens, cost, now, settings);
+		return { allowed: true, remaining: Math.floor(Math.max(remaining, 0)), retryAfterSeconds: null };
+	}
+
+	/** Charges work that has already been done, e.g. addresses only known once a name resolved, however far that puts the bucket in debt */
+	async charge(cost: number, settings: RateLimitSettings): Promise<void> {
+		const now = Date.now();
+		await this.spend(await this.currentTokens(now, settings), cost, now, settings);
+	}
+
+	async alarm(): Promise<void> {
+		await this.ctx.storage.deleteAll();
+	}
+
+	private async currentTokens(now: number, settings: RateLimitSettings): Promise<number> {
+		const stored = await this.ctx.storage.get<Bucket>(BUCKET_STORAGE_KEY);
+		return stored ? Math.min(settings.capacity, stored.tokens + ((now - stored.updatedAt) * settings.refillPerMinute) / 60000) : settings.capacity;
+	}
+
+	private async spend(tokens: number, cost: number, now: number, settings: RateLimitSettings): Promise<number> {
+		const remaining = tokens - cost;
+		await this.ctx.storage.put<Bucket>(BUCKET_STORAGE_KEY, { tokens: remaining, updatedAt: now });
+
+		// Forget the client once its bucket has refilled, so idle clients leave nothing behind
+		await this.ctx.storage.setAlarm(now + Math.ceil(((settings.capacity - remaining) * 60000) / settings.refillPerMinute));
+
+		return remaining;
+	}
+}
@@ -0,0 +1,70 @@
+import { DurableObject } from "cloudflare:workers";
+import { drizzle } from "drizzle-orm/durable-sqlite";
+import { migrate } from "drizzle-orm/durable-sqlite/migrator";
+import migrations from "../drizzle/migrations";
+import * as schema from "./db/schemas";
+import * as subscriptionIndexRecords from "./db/subscriptionIndex";
+
+import { DB } from "./db/types";
+import { mapWithConcurrency } from "./concurrency";
+import type { PushDelivery, PushMessage } from "./push";
+
+const FAN_OUT_CONCURRENCY = 8;
+
+/**
+ * One per workspace, indexing its push subscriptions and their topics. Each subscription lives in
+ * a `MyDurableObject` named only by the MD5 of its endpoint, so without this index there is no way
+ * to find them all. The subscriptions register and unregister themselves as they change, and
+ * those saved before the directory existed register the next time their object starts up or the
+ * page that subscribed them is loaded again.
+ */
+export class SubscriptionDirectory extends DurableObject<Env> {
+	private db: DB;
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+
+		this.db = drizzle(ctx.storage, { schema, logger: false });
+
+		// Run migrations before accepting any requests
+		this.ctx.blockConcurrencyWhile(async () => {
+			await migrate(this.db, migrations);
+		});
+	}
+
+	async register(endpoint: string, objectName: string, topics: string[]): Promise<void> {
+		await subscriptionIndexRecords.upsert(this.db, {
+			endpoint,
+			object_name: objectName,
+			topics,
+			created_at: new Date().toISOString(),
+		});
+	}
+
+	async unregister(endpoint: string): Promise<void> {
+		await subscriptionIndexRecords.del(this.db, { endpoint });
+	}
+
+	/**
+	 * Queues the message with every subscription tagged with `topic`, or with all of them when no
+	 * topic is given. The recipients are settled now, even for a message sent later.
+	 *
+	 * @returns the number of subscriptions the message was queued for
+	 */
+	async send(message: PushMessage, delivery: PushDelivery, topic?: string): Promise<number> {
+		const recipients = await subscriptionIndexRecords.list(this.db, { topic });
+
+		const queued = await mapWithConcurrency(recipients, FAN_OUT_CONCURRENCY, async (recipient) => {
+			const subscription = this.env.MY_DURABLE_OBJECT.get(this.env.MY_DURABLE_OBJECT.idFromName(recipient.object_name));
+			if (await subscription.queueMessage(message, delivery)) {
+				return true;
+			}
+
+			// The subscription has been removed since it registered
+			await subscriptionIndexRecords.del(this.db, { endpoint: recipient.endpoint });
+			return false;
+		});
+
+		return queued.filter(Boolean).length;
+	}
+}
@@ -0,0 +1,248 @@
+import { DurableObject } from "cloudflare:workers";
+import { drizzle } from "drizzle-orm/durable-sqlite";
+import { migrate } from "drizzle-orm/durable-sqlite/migrator";
+import migrations from "../drizzle/migrations";
+import * as schema from "./db/schemas";
+import * as webhookRecords from "./db/webhooks";
+import * as deliveryRecords from "./db/webhookDeliveries";
+import * as deliveryAttemptRecords from "./db/webhookDeliveryAttempts";
+
+import { DB, WebhookDeliveryRecord, WebhookRecord } from "./db/types";
+import type { WebhookDeliveryOutcome } from "./db/WebhookDeliveryAttemptRecords";
+import { parseRetryAfter } from "./push";
+import {
+	type Webhook,
+	type WebhookDeliveryAttempt,
+	type WebhookEvent,
+	type WebhookEventType,
+	MAX_WEBHOOK_DELIVERY_ATTEMPTS,
+	WEBHOOK_TEST_EVENT,
+	WEBHOOK_TIMEOUT_MS,
+	isRetryableWebhookStatus,
+	signWebhookPayload,
+	toWebhook,
+	toWebhookDeliveryAttempt,
+	webhookRetryDelay,
+} from "./webhooks";
+
+const DELIVERY_LOG_LIMIT = 1000;
+const MAX_LOGGED_ERROR_LENGTH = 500;
+
+type DeliveryResult = { statusCode: number | null; error: string | null; retryAfterMs: number | null; durationMs: number };
+
+/**
+ * One per workspace, holding its webhooks and the queue of deliveries to them. Failed deliveries
+ * are retried with backoff from the alarm, which always points at the earliest queued delivery.
+ */
+export class WebhookStore extends DurableObject<Env> {
+	private db: DB;
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+
+		this.db = drizzle(ctx.storage, { schema, logger: false });
+
+		// Run migrations before accepting any requests
+		this.ctx.blockConcurrencyWhile(async () => {
+			await migrate(this.db, migrations);
+		});
+	}
+
+	async createWebhook(settings: { url: string; secret?: string; events: WebhookEventType[]; description?: string }): Promise<Webhook> {
+		const record = await webhookRecords.create(this.db, {
+			url: settings.url,
+			secret: settings.secret ?? null,
+			events: settings.events,
+			description: settings.description ?? null,
+			created_at: new Date().toISOString(),
+		});
+
+		return toWebhook(record);
+	}
+
+	async listWebhooks(): Promise<Webhook[]> {
+		const records = await webhookRecords.list(this.db);
+		return records.map(toWebhook);
+	}
+
+	/** Drops anything still queued for the webhook along with its delivery log */
+	async deleteWebhook(id: number): Promise<Webhook | null> {
+		const record = await webhookRecords.del(this.db, { id });
+		if (!record) {
+			return null;
+		}
+
+		await deliveryRecords.delForWebhook(this.db, { webhook_id: id });
+		await deliveryAttemptRecords.delForWebhook(this.db, { webhook_id: id });
+		await this.scheduleNextDelivery();
+
+		return toWebhook(record);
+	}
+
+	/** Null when there is no such webhook */
+	async getDeliveries(id: number, limit: number): Promise<WebhookDeliveryAttempt[] | null> {
+		if (!(await webhookRecords.get(this.db, { id }))) {
+			return null;
+		}
+
+		const records = await deliveryAttemptRecords.list(this.db, { webhook_id: id, limit });
+		return records.map(toWebhookDeliveryAttempt);
+	}
+
+	/** Queues each event for every webhook subscribed to it */
+	async dispatch(events: WebhookEvent[]): Promise<void> {
+		const webhooks = await webhookRecords.list(this.db);
+		const now = new Date().toISOString();
+
+		for (const event of events) {
+			for (const webhook of webhooks.filter((webhook) => webhook.events.includes(event.type as WebhookEventType))) {
+				await deliveryRecords.create(this.db, {
+					webhook_id: webhook.id,
+					event_id: event.id,
+					event: event.type,
+					payload: JSON.stringify(event),
+					next_attempt_at: now,
+					created_at: now,
+				});
+			}
+		}
+
+		await this.scheduleNextDelivery();
+	}
+
+	/** Sends a `webhook.test` event straight away, once, and reports how the receiver answered */
+	async testWebhook(id: number): Promise<WebhookDeliveryAttempt | null> {
+		const webhook = await webhookRecords.get(this.db, { id });
+		if (!webhook) {
+			return null;
+		}
+
+		const event: WebhookEvent = {
+			id: crypto.randomUUID(),
+			type: WEBHOOK_TEST_EVENT,
+			createdAt: new Date().toISOString(),
+			host: null,
+			port: null,
+			data: { webhookId: webhook.id },
+		};
+		const result = await this.send(webhook, event.id, JSON.stringify(event));
+		const outcome = result.statusCode !== null && result.statusCode < 300 ? "delivered" : "failed";
+
+		return toWebhookDeliveryAttempt(await this.logAttempt(webhook.id, event.id, event.type, 1, outcome, result));
+	}
+
+	/** Points the alarm at the earliest queued delivery, or clears it when nothing is queued */
+	private async scheduleNextDelivery(): Promise<void> {
+		const next = await deliveryRecords.next(this.db);
+		if (!next) {
+			await this.ctx.storage.deleteAlarm();
+			return;
+		}
+
+		const nextAttemptAt = Date.parse(next.next_attempt_at);
+		const currentAlarm = await this.ctx.storage.getAlarm();
+		if (currentAlarm == null || currentAlarm > nextAttemptAt) {
+			await this.ctx.storage.setAlarm(nextAttemptAt);
+		}
+	}
+
+	private async send(webhook: WebhookRecord, eventId: string, payload: string): Promise<DeliveryResult> {
+		const timestamp = Math.floor(Date.now() / 1000);
+		const headers: Record<string, string> = {
+			"content-type": "application/json",
+			"user-agent": "certificate-inspector-webhooks",
+			"x-webhook-id": eventId,
+			"x-webhook-timestamp": String(timestamp),
+		};
+		if (webhook.secret) {
+			headers["x-webhook-signature"] = `sha256=${await signWebhookPayload(webhook.secret, timestamp, payload)}`;
+		}
+
+		const startedAt = Date.now();
+		try {
+			const response = await fetch(webhook.url, {
+				method: "POST",
+				headers,
+				body: payload,
+				redirect: "manual",
+				signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+			});
+			const durationMs = Date.now() - startedAt;
+
+			if (response.ok) {
+				await response.body?.cancel();
+				return { statusCode: response.status, error: null, retryAfterMs: null, durationMs };
+			}
+
+			const body = await response.text().catch(() => "");
+			return {
+				statusCode: response.status,
+				error: body.slice(0, MAX_LOGGED_ERROR_LENGTH) || response.statusText,
+				retryAfterMs: parseRetryAfter(response.headers.get("retry-after") ?? undefined),
+				durationMs,
+			};
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			return { statusCode: null, error: message.slice(0, MAX_LOGGED_ERROR_LENGTH), retryAfterMs: null, durationMs: Date.now() - startedAt };
+		}
+	}
+
+	async alarm(): Promise<void> {
+		const due = await deliveryRecords.listDue(this.db, { now: new Date().toISOString() });
+		for (const delivery of due) {
+			await this.deliver(delivery);
+		}
+
+		await deliveryAttemptRecords.prune(this.db, DELIVERY_LOG_LIMIT);
+		await this.scheduleNextDelivery();
+	}
+
+	private async deliver(delivery: WebhookDeliveryRecord): Promise<void> {
+		const webhook = await webhookRecords.get(this.db, { id: delivery.webhook_id });
+		if (!webhook) {
+			await deliveryRecords.del(this.db, { id: delivery.id });
+			return;
+		}
+
+		const attempt = delivery.attempts + 1;
+		const result = await this.send(webhook, delivery.event_id, delivery.payload);
+
+		// Redirects are not followed, so a 3xx counts as a failure like any other non-2xx answer
+		if (result.statusCode !== null && result.statusCode < 300) {
+			await this.logAttempt(webhook.id, delivery.event_id, delivery.event, attempt, "delivered", result);
+			await deliveryRecords.del(this.db, { id: delivery.id });
+		} else if (isRetryableWebhookStatus(result.statusCode) && attempt < MAX_WEBHOOK_DELIVERY_ATTEMPTS) {
+			await this.logAttempt(webhook.id, delivery.event_id, delivery.event, attempt, "retry", result);
+			await deliveryRecords.reschedule(this.db, {
+				id: delivery.id,
+				attempts: attempt,
+				next_attempt_at: new Date(Date.now() + webhookRetryDelay(attempt, result.retryAfterMs)).toISOString(),
+			});
+		} else {
+			console.error("Webhook delivery failed:", webhook.url, delivery.event_id, result.statusCode, result.error);
+			await this.logAttempt(webhook.id, delivery.event_id, delivery.event, attempt, "failed", result);
+			await deliveryRecords.del(this.db, { id: delivery.id });
+		}
+	}
+
+	private async logAttempt(
+		webhookId: number,
+		eventId: string,
+		event: WebhookDeliveryRecord["event"],
+		attempt: number,
+		outcome: WebhookDeliveryOutcome,
+		result: DeliveryResult
+	) {
+		return deliveryAttemptRecords.create(this.db, {
+			webhook_id: webhookId,
+			event_id: eventId,
+			event,
+			attempt,
+			outcome,
+			status_code: result.statusCode,
+			error: result.error,
+			duration_ms: result.durationMs,
+			created_at: new Date().toISOString(),
+		});
+	}
+}
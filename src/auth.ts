@@ -0,0 +1,193 @@
+import type { ApiKeyRecord } from "./db/types";
+
+export const API_KEY_STORE_SINGLETON = "api-keys";
+
+/** Everything stored before workspaces existed belongs to this workspace */
+export const DEFAULT_WORKSPACE = "default";
+
+export const SESSION_COOKIE_NAME = "session";
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const WORKSPACE_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+const API_KEY_PREFIX = "ck_";
+const FEED_TOKEN_PURPOSE = "calendar-feed";
+
+export type ApiKey = {
+	id: number;
+	workspace: string;
+	name: string;
+	/** The start of the key, to tell keys apart without revealing them */
+	prefix: string;
+	createdAt: string;
+	lastUsedAt: string | null;
+	revokedAt: string | null;
+};
+
+/** Only returned when a key is created; the key cannot be read back afterwards */
+export type CreatedApiKey = ApiKey & { key: string };
+
+/** Who a request is from: one workspace's key or session, or the administrator, who can only manage keys */
+export type Principal = { kind: "workspace"; workspace: string; keyId: number } | { kind: "admin" };
+
+type Session = {
+	workspace: string;
+	keyId: number;
+	/** Seconds since the epoch */
+	expiresAt: number;
+};
+
+export function isValidWorkspace(value: unknown): value is string {
+	return typeof value === "string" && WORKSPACE_PATTERN.test(value);
+}
+
+/**
+ * Durable Object names are scoped to the workspace so one team's targets, monitors and
+ * subscriptions never share an object with another's. The default workspace is prefixed too, so
+ * no name it is given can read as `<workspace>/<name>` of another.
+ */
+export function workspaceObjectName(workspace: string, name: string): string {
+	return `${workspace}/${name}`;
+}
+
+export function toApiKey(record: ApiKeyRecord): ApiKey {
+	return {
+		id: record.id,
+		workspace: record.workspace,
+		name: record.name,
+		prefix: record.prefix,
+		createdAt: record.created_at,
+		lastUsedAt: record.last_used_at,
+		revokedAt: record.revoked_at,
+	};
+}
+
+function toBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+	return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+	const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+	return Uint8Array.from(binary, (character) => character.charCodeAt(0));
+}
+
+export function generateApiKey(): string {
+	return `${API_KEY_PREFIX}${toBase64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+	return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function importSessionKey(secret: string): Promise<CryptoKey> {
+	return crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+}
+
+/** The payload as base64url JSON, then its HMAC-SHA256 */
+async function signPayload(payload: object, secret: string): Promise<string> {
+	const encoded = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+	const signature = await crypto.subtle.sign("HMAC", await importSessionKey(secret), new TextEncoder().encode(encoded));
+	return `${encoded}.${toBase64Url(signature)}`;
+}
+
+/** Resolves the payload when the signature matches */
+async function verifyPayload(value: string, secret: string): Promise<Record<string, unknown> | null> {
+	const [payload, signature] = value.split(".");
+	if (!payload || !signature) {
+		return null;
+	}
+
+	try {
+		const valid = await crypto.subtle.verify("HMAC", await importSessionKey(secret), fromBase64Url(signature), new TextEncoder().encode(payload));
+		return valid ? (JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as Record<string, unknown>) : null;
+	} catch {
+		return null;
+	}
+}
+
+/** A session cookie value */
+export function signSession(session: Session, secret: string): Promise<string> {
+	return signPayload(session, secret);
+}
+
+/** Resolves the session when the signature matches and it has not expired */
+export async function verifySession(value: string, secret: string, now = Date.now()): Promise<Session | null> {
+	const session = (await verifyPayload(value, secret)) as Session | null;
+	return session && session.expiresAt * 1000 > now ? session : null;
+}
+
+/**
+ * Calendar clients cannot send a key or a cookie, so a feed URL carries this token in its query
+ * string instead. It only opens the calendar feed, and stops working once its key is revoked.
+ */
+export function signFeedToken(workspace: string, keyId: number, secret: string): Promise<string> {
+	return signPayload({ purpose: FEED_TOKEN_PURPOSE, workspace, keyId }, secret);
+}
+
+export async function authenticateFeedToken(token: string, env: Cloudflare.Env): Promise<Principal | null> {
+	const feed = env.SESSION_SECRET ? await verifyPayload(token, env.SESSION_SECRET) : null;
+	if (feed?.purpose !== FEED_TOKEN_PURPOSE || typeof feed.keyId !== "number") {
+		return null;
+	}
+
+	const apiKeys = env.API_KEY_STORE.get(env.API_KEY_STORE.idFromName(API_KEY_STORE_SINGLETON));
+	const key = await apiKeys.getActiveKey(feed.keyId);
+	return key && key.workspace === feed.workspace ? { kind: "workspace", workspace: key.workspace, keyId: key.id } : null;
+}
+
+export function sessionCookie(value: string, maxAgeSeconds: number): string {
+	return `${SESSION_COOKIE_NAME}=${value}; Path=/; HttpOnly; Secure; SameSite=Strict; Max-Age=${maxAgeSeconds}`;
+}
+
+function readCookie(request: Request, name: string): string | null {
+	for (const cookie of (request.headers.get("cookie") ?? "").split(";")) {
+		const [key, ...value] = cookie.trim().split("=");
+		if (key === name) {
+			return value.join("=");
+		}
+	}
+	return null;
+}
+
+function bearerToken(request: Request): string | null {
+	const match = request.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+	return match ? match[1] : null;
+}
+
+/** Compares digests rather than the secrets themselves so the comparison time reveals nothing */
+async function matchesSecret(candidate: string, secret: string): Promise<boolean> {
+	const [a, b] = await Promise.all([hashApiKey(candidate), hashApiKey(secret)]);
+	return crypto.subtle.timingSafeEqual(new TextEncoder().encode(a), new TextEncoder().encode(b));
+}
+
+/**
+ * Identifies the caller from an `Authorization: Bearer` API key, or else from a signed session
+ * cookie whose key has not been revoked since. Resolves null when neither is present and valid.
+ */
+export async function authenticate(request: Request, env: Cloudflare.Env): Promise<Principal | null> {
+	const apiKeys = env.API_KEY_STORE.get(env.API_KEY_STORE.idFromName(API_KEY_STORE_SINGLETON));
+	const token = bearerToken(request);
+
+	if (token) {
+		if (env.API_ADMIN_KEY && (await matchesSecret(token, env.API_ADMIN_KEY))) {
+			return { kind: "admin" };
+		}
+
+		const key = await apiKeys.authenticate(await hashApiKey(token));
+		return key ? { kind: "workspace", workspace: key.workspace, keyId: key.id } : null;
+	}
+
+	const cookie = readCookie(request, SESSION_COOKIE_NAME);
+	if (cookie && env.SESSION_SECRET) {
+		const session = await verifySession(cookie, env.SESSION_SECRET);
+		const key = session ? await apiKeys.getActiveKey(session.keyId) : null;
+		if (session && key?.workspace === session.workspace) {
+			return { kind: "workspace", workspace: key.workspace, keyId: key.id };
+		}
+	}
+
+	return null;
+}
@@ -2,15 +2,31 @@
 // Do NOT edit the generated `worker-configuration.d.ts`; it will be overwritten.
 import type { CertificateInspectorContainer } from "./CertificateInspectorContainer";
 import type { CertificateInspectionStore } from "./CertificateInspectionStore";
+import type { ApiKeyStore } from "./ApiKeyStore";
+import type { CertificateMonitorRegistry } from "./CertificateMonitorRegistry";
 import type { MyDurableObject } from "./MyDurableObject";
+import type { RateLimiter } from "./RateLimiter";
+import type { WebhookStore } from "./WebhookStore";
+import type { CertificateTransparencyStore } from "./CertificateTransparencyStore";
+import type { SubscriptionDirectory } from "./SubscriptionDirectory";
 
 declare namespace Cloudflare {
 	interface Env {
 		/** Secret: set via `wrangler secret put VAPID_PRIVATE_KEY` or Dashboard */
 		VAPID_PRIVATE_KEY: string;
 		GCM_APIKey: string;
+		/** Secret: creates and revokes API keys for any workspace */
+		API_ADMIN_KEY: string;
+		/** Secret: signs session cookies; sessions are disabled without it */
+		SESSION_SECRET: string;
 		CERTIFICATE_INSPECTOR: DurableObjectNamespace<typeof CertificateInspectorContainer>;
 		CERTIFICATE_INSPECTION_STORE: DurableObjectNamespace<typeof CertificateInspectionStore>;
+		CERTIFICATE_MONITOR_REGISTRY: DurableObjectNamespace<typeof CertificateMonitorRegistry>;
+		API_KEY_STORE: DurableObjectNamespace<typeof ApiKeyStore>;
+		RATE_LIMITER: DurableObjectNamespace<typeof RateLimiter>;
+		WEBHOOK_STORE: DurableObjectNamespace<typeof WebhookStore>;
+		CERTIFICATE_TRANSPARENCY_STORE: DurableObjectNamespace<typeof CertificateTransparencyStore>;
+		SUBSCRIPTION_DIRECTORY: DurableObjectNamespace<typeof SubscriptionDirectory>;
 	}
 }
 
@@ -19,6 +35,12 @@ declare module "cloudflare:workers" {
     MY_DURABLE_OBJECT: DurableObjectNamespace<typeof MyDurableObject>;
 	CERTIFICATE_INSPECTOR: DurableObjectNamespace<typeof CertificateInspectorContainer>;
 	CERTIFICATE_INSPECTION_STORE: DurableObjectNamespace<typeof CertificateInspectionStore>;
+	CERTIFICATE_MONITOR_REGISTRY: DurableObjectNamespace<typeof CertificateMonitorRegistry>;
+	API_KEY_STORE: DurableObjectNamespace<typeof ApiKeyStore>;
+	RATE_LIMITER: DurableObjectNamespace<typeof RateLimiter>;
+	WEBHOOK_STORE: DurableObjectNamespace<typeof WebhookStore>;
+	CERTIFICATE_TRANSPARENCY_STORE: DurableObjectNamespace<typeof CertificateTransparencyStore>;
+	SUBSCRIPTION_DIRECTORY: DurableObjectNamespace<typeof SubscriptionDirectory>;
   }
 }
 
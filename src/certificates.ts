@@ -1,6 +1,169 @@
+/** `tls` connects with TLS straight away; the others upgrade a plaintext session with STARTTLS first */
+export const INSPECTION_PROTOCOLS = ["tls", "smtp", "imap", "pop3", "ldap", "ftp", "xmpp", "postgres"] as const;
+
+export type InspectionProtocol = (typeof INSPECTION_PROTOCOLS)[number];
+
+export type InspectOptions = {
+	protocol?: InspectionProtocol;
+	/** Also probe every TLS version and cipher suite the server accepts; much slower */
+	deepScan?: boolean;
+	/** Include each chain certificate's PEM encoding */
+	includePem?: boolean;
+	/** Also check the HTTP response for HSTS and security headers, and where plain HTTP on port 80 redirects; `tls` only */
+	http?: boolean;
+} & TargetPinning;
+
+/** Connect to a specific backend and present a chosen name instead of resolving and sending the host */
+export type TargetPinning = {
+	ip?: string;
+	servername?: string;
+};
+
+/**
+ * `container` is the full inspection; `worker` the lighter one the worker falls back to when the
+ * container cannot be reached, which leaves out revocation, DNS and certificate extension details.
+ */
+export type InspectionEngine = "container" | "worker";
+
+/** How the inspected connection itself was negotiated */
+export type NegotiatedConnection = {
+	tlsVersion: string | null;
+	cipher: string | null;
+	cipherStandardName: string | null;
+	ephemeralKey: { type: string; name: string | null; size: number | null } | null;
+};
+
+export type TlsVersion = "TLSv1" | "TLSv1.1" | "TLSv1.2" | "TLSv1.3";
+
+export type TlsScan = {
+	versions: Array<{ version: TlsVersion; supported: boolean }>;
+	ciphers: Array<{ version: TlsVersion; name: string; standardName: string | null; weaknesses: string[] }>;
+	weaknesses: string[];
+	grade: "A" | "B" | "C" | "F";
+};
+
+export type RevocationStatus = "good" | "revoked" | "unknown" | "unavailable";
+
+/** Whether the leaf certificate has been revoked, from a stapled OCSP response, the OCSP responder or the CRL */
+export type RevocationCheck = {
+	status: RevocationStatus;
+	source: "stapled-ocsp" | "ocsp" | "crl" | null;
+	/** The responder or distribution point that answered; null for a stapled response */
+	url: string | null;
+	thisUpdate: string | null;
+	nextUpdate: string | null;
+	revokedAt: string | null;
+	/** RFC 5280 reason name such as `keyCompromise` */
+	reason: string | null;
+	/** Null when the response's signature algorithm could not be checked */
+	signatureValid: boolean | null;
+	/** Why each source that was tried could not give an answer */
+	errors: string[];
+};
+
+export type CaaStatus = "none" | "permitted" | "forbidden" | "unknown-issuer" | "error";
+
+/**
+ * Whether the CAA records that apply to the servername let the certificate's issuer issue for it.
+ * `none` means no records, so any CA may; `unknown-issuer` that the issuer has no known CAA identifier.
+ */
+export type CaaCheck = {
+	status: CaaStatus;
+	/** The closest name with CAA records, which is the one that applies */
+	domain: string | null;
+	records: Array<{ critical: boolean; tag: string; value: string }>;
+	/** The CAA identifiers the records allow to issue this certificate */
+	allowedIssuers: string[];
+	/** The CAA identifiers the certificate's issuer is known by */
+	issuerIdentifiers: string[];
+	error: string | null;
+};
+
+export type TlsaStatus = "none" | "valid" | "invalid" | "error";
+
+/** The served chain checked against the TLSA records at `_port._tcp.servername` */
+export type TlsaCheck = {
+	status: TlsaStatus;
+	name: string;
+	records: Array<{ usage: number; selector: number; matchingType: number; data: string; matched: boolean }>;
+	error: string | null;
+};
+
+export type DnsChecks = { caa: CaaCheck; tlsa: TlsaCheck };
+
+export type HstsPolicy = {
+	/** Null when the header has no valid max-age, which browsers ignore */
+	maxAge: number | null;
+	includeSubDomains: boolean;
+	preload: boolean;
+};
+
+/** The response to `GET /` sent over the inspected TLS connection */
+export type HttpsCheck = {
+	status: number | null;
+	location: string | null;
+	/** The security headers the response set, keyed by lowercase name */
+	headers: Record<string, string>;
+	hsts: HstsPolicy | null;
+	error: string | null;
+};
+
+export type RedirectHop = { url: string; status: number; location: string | null };
+
+/** Where a plain HTTP request to port 80 leads, following redirects until one reaches HTTPS */
+export type RedirectCheck = {
+	hops: RedirectHop[];
+	/** The HTTPS URL the redirects end on, or null when they never reach one */
+	httpsUrl: string | null;
+	error: string | null;
+};
+
+export type HttpChecks = { https: HttpsCheck; redirect: RedirectCheck };
+
+export type ChainCertificate = {
+	subject: Record<string, string> | null;
+	issuer: Record<string, string> | null;
+	validFrom: string | null;
+	validTo: string | null;
+	fingerprint256: string | null;
+	serialNumber: string | null;
+	publicKey: { type: string | null; size: number | null; curve: string | null };
+	/** e.g. `sha256WithRSAEncryption`, or the OID when the algorithm is not recognised */
+	signatureAlgorithm: string;
+	keyUsage: string[];
+	/** e.g. `serverAuth`, or the OID when the purpose is not recognised */
+	extendedKeyUsage: string[];
+	basicConstraints: { ca: boolean; pathLength: number | null } | null;
+	ocspUrls: string[];
+	caIssuerUrls: string[];
+	crlUrls: string[];
+	/** Signed certificate timestamps embedded by Certificate Transparency logs */
+	embeddedSctCount: number;
+	selfSigned: boolean;
+	/** Only present when `includePem` was requested */
+	pem?: string;
+};
+
+/** A certificate as the server sent it, before Node reorders the chain or adds the trusted root */
+export type SentCertificate = {
+	subject: Record<string, string> | null;
+	issuer: Record<string, string> | null;
+	fingerprint256: string;
+	selfSigned: boolean;
+};
+
 export type CertificateDetails = {
 	host: string;
 	port: number;
+	/** The address actually connected to */
+	ip: string | null;
+	/** The name sent as SNI and checked against the certificate */
+	servername: string;
+	protocol: InspectionProtocol;
+	negotiated: NegotiatedConnection;
+	/** Only present when a deep scan was requested */
+	scan?: TlsScan;
+	revocation: RevocationCheck;
 	authorized: boolean;
 	authorizationError: string | null;
 	validFrom: string | null;
@@ -11,35 +174,330 @@ export type CertificateDetails = {
 	subjectAltName: string | null;
 	subject: Record<string, string> | null;
 	issuer: Record<string, string> | null;
-	chain: Array<{
-		subject: Record<string, string> | null;
-		issuer: Record<string, string> | null;
-		validFrom: string | null;
-		validTo: string | null;
-		fingerprint256: string | null;
-		serialNumber: string | null;
-	}>;
+	/** The leaf certificate first, then each issuer the server sent */
+	chain: ChainCertificate[];
+	/** The certificates in the order the server sent them; null when the server only offers TLS 1.3 */
+	sentChain: SentCertificate[] | null;
 	inspectedAt: string;
+	/** How long the inspection took; absent for uploads and for results stored before it was measured */
+	durationMs?: number;
+	/** Null when the servername is an IP address; absent for uploads and for results stored before DNS was checked */
+	dns?: DnsChecks | null;
+	/** Only present when the HTTP checks were requested */
+	http?: HttpChecks;
+	/** Absent for uploads and for results stored before the worker could inspect, which all came from the container */
+	engine?: InspectionEngine;
+};
+
+export const FINDING_RULES = [
+	"hostname-mismatch",
+	"incomplete-chain",
+	"misordered-chain",
+	"root-sent",
+	"self-signed",
+	"validity-too-long",
+	"weak-key",
+	"weak-signature",
+	"wildcard",
+	"missing-server-auth",
+	"missing-hsts",
+	"weak-hsts",
+	"no-https-redirect",
+	"missing-security-headers",
+] as const;
+
+export type FindingRule = (typeof FINDING_RULES)[number];
+
+export const FINDING_SEVERITIES = ["info", "low", "medium", "high", "critical"] as const;
+
+export type FindingSeverity = (typeof FINDING_SEVERITIES)[number];
+
+export type Finding = {
+	rule: FindingRule;
+	severity: FindingSeverity;
+	message: string;
+	/** Index into `chain` of the certificate the finding is about, when it is about one */
+	certificateIndex: number | null;
+};
+
+/** Per-target rule configuration; anything left out uses the defaults */
+export type FindingRules = {
+	disabled?: FindingRule[];
+	severities?: Partial<Record<FindingRule, FindingSeverity>>;
+	/** Longest acceptable leaf validity period in days */
+	maxValidityDays?: number;
+	minRsaKeySize?: number;
+	minEcKeySize?: number;
 };
 
 export type StoredInspection = {
+	id: number;
 	requestedHost: string;
 	requestedPort: number;
 	storedAt: string;
 	result: CertificateDetails;
+	findings: Finding[];
+};
+
+export type CertificateTarget = {
+	host: string;
+	port: number;
+};
+
+export type CertificateChangeValue = string | number | boolean | null;
+
+export type CertificateChange = {
+	/** The changed field, e.g. `issuer`, `subjectAltName` or `chain[1].fingerprint256` */
+	field: string;
+	before: CertificateChangeValue;
+	after: CertificateChangeValue;
+	/** For list fields such as `subjectAltName`, the entries only present after the change */
+	added?: string[];
+	/** For list fields such as `subjectAltName`, the entries only present before the change */
+	removed?: string[];
+};
+
+/** A freshly saved inspection together with what changed since the previous one, if any */
+export type SavedInspection = StoredInspection & {
+	changes: CertificateChange[] | null;
+};
+
+export type BatchInspectionOutcome =
+	| (CertificateTarget & { ip: string | null; ok: true; result: CertificateDetails })
+	| (CertificateTarget & { ip: string | null; ok: false; error: string });
+
+export type InspectionHistoryQuery = {
+	from?: string;
+	to?: string;
+	limit: number;
+	offset: number;
+};
+
+export type InspectionHistoryPage = {
+	host: string;
+	port: number;
+	total: number;
+	limit: number;
+	offset: number;
+	items: StoredInspection[];
+};
+
+export type CertificateMonitorSettings = {
+	protocol: InspectionProtocol;
+	intervalMinutes: number;
+	thresholds: number[];
+	rules: FindingRules;
+};
+
+export type CertificateMonitor = CertificateMonitorSettings & {
+	host: string;
+	port: number;
+	createdAt: string;
+	lastCheckedAt: string | null;
+	nextCheckAt: string | null;
+	lastError: string | null;
+};
+
+/** The part of a `StoredInspection` the inventory lists, which is all the monitor registry keeps of it */
+export type InventoryInspection = Omit<StoredInspection, "result"> & {
+	result: Pick<
+		CertificateDetails,
+		| "protocol"
+		| "authorized"
+		| "authorizationError"
+		| "validFrom"
+		| "validTo"
+		| "fingerprint256"
+		| "serialNumber"
+		| "subjectAltName"
+		| "subject"
+		| "issuer"
+		| "durationMs"
+		| "engine"
+	> & { negotiated: Pick<NegotiatedConnection, "tlsVersion"> };
+};
+
+/** One line of the exports: a target the workspace has inspected or monitors */
+export type CertificateInventoryEntry = {
+	host: string;
+	port: number;
+	/** The pinned address and servername, for targets inspected with them */
+	ip: string | null;
+	servername: string | null;
+	monitor: CertificateMonitor | null;
+	/** Null for a monitor whose first check has not finished yet */
+	inspection: InventoryInspection | null;
+};
+
+export type CertificateAlertKind = "expiring" | "unauthorized" | "changed";
+
+export type CertificateAlert = {
+	id: number;
+	kind: CertificateAlertKind;
+	threshold: number | null;
+	daysRemaining: number | null;
+	fingerprint256: string | null;
+	validTo: string | null;
+	authorizationError: string | null;
+	inspectionId: number;
+	createdAt: string;
 };
 
 export const CERTIFICATE_INSPECTOR_SINGLETON = "global-certificate-inspector";
+export const CERTIFICATE_MONITOR_REGISTRY_SINGLETON = "global-certificate-monitor-registry";
+
+/** Starts the message of an error thrown when the inspector's target policy refuses a target */
+export const TARGET_NOT_ALLOWED_PREFIX = "Target not allowed: ";
+
+/** Starts the message of an error the inspector answered with after trying the target, as opposed to not answering */
+export const INSPECTION_FAILED_PREFIX = "Inspection failed: ";
+
+/**
+ * Errors lose their class when they cross a Durable Object RPC boundary, so a refused target is
+ * recognised by its message instead. Returns the reason, or null for any other error.
+ */
+export function targetNotAllowedReason(error: unknown): string | null {
+	const message = error instanceof Error ? error.message : String(error);
+	return message.startsWith(TARGET_NOT_ALLOWED_PREFIX) ? message.slice(TARGET_NOT_ALLOWED_PREFIX.length) : null;
+}
+
+/** Starts the message of an error the inspector answered with because it could not read the request, e.g. an uploaded certificate */
+export const REQUEST_REJECTED_PREFIX = "Request rejected: ";
+
+/** Starts the message of an error raised because the inspector could not be reached or did not answer in time */
+export const INSPECTOR_UNAVAILABLE_PREFIX = "Inspector unavailable: ";
+
+/** Like `targetNotAllowedReason`, for requests the inspector refused as unreadable */
+export function requestRejectedReason(error: unknown): string | null {
+	const message = error instanceof Error ? error.message : String(error);
+	return message.startsWith(REQUEST_REJECTED_PREFIX) ? message.slice(REQUEST_REJECTED_PREFIX.length) : null;
+}
+
+/**
+ * The status to answer an inspector error with when a route leaves it unhandled: 403 for a refused
+ * target, 400 for an unreadable request and 502 when the inspection failed or the inspector could
+ * not be reached. Null for errors that did not come from the inspector.
+ */
+export function inspectorErrorStatus(error: unknown): number | null {
+	const message = error instanceof Error ? error.message : String(error);
+	if (message.startsWith(TARGET_NOT_ALLOWED_PREFIX)) {
+		return 403;
+	}
+	if (message.startsWith(REQUEST_REJECTED_PREFIX)) {
+		return 400;
+	}
+	return message.startsWith(INSPECTION_FAILED_PREFIX) || message.startsWith(INSPECTOR_UNAVAILABLE_PREFIX) ? 502 : null;
+}
+
+export function isInspectionProtocol(value: unknown): value is InspectionProtocol {
+	return typeof value === "string" && (INSPECTION_PROTOCOLS as readonly string[]).includes(value);
+}
 
 export function normalizeHost(host: string): string {
 	return host.trim().toLowerCase();
 }
 
-export function normalizeCertificateTarget(host: string, port = 443): { host: string; port: number; key: string } {
+/** Formats a subject or issuer record as a distinguished name such as `CN=example.com, O=Example` */
+export function formatDistinguishedName(name: Record<string, string> | null): string | null {
+	if (!name) {
+		return null;
+	}
+
+	return Object.entries(name)
+		.map(([key, value]) => `${key}=${value}`)
+		.join(", ");
+}
+
+/** Whether `name` is `domain` itself or one of its subdomains */
+export function isUnderDomain(name: string, domain: string): boolean {
+	return name === domain || name.endsWith(`.${domain}`);
+}
+
+/** Splits `DNS:a.example, DNS:b.example` into its individual names */
+export function parseSubjectAltNames(value: string | null): string[] {
+	if (!value) {
+		return [];
+	}
+
+	return value
+		.split(",")
+		.map((name) => name.trim())
+		.filter((name) => name.length > 0);
+}
+
+/** Canonical form of an IPv4 or IPv6 literal, or null when the value is not one */
+export function normalizeIpAddress(value: string): string | null {
+	const trimmed = value.trim().replace(/^\[|\]$/g, "");
+	const isIpv6 = trimmed.includes(":");
+
+	if (!isIpv6 && !/^\d{1,3}(\.\d{1,3}){3}$/.test(trimmed)) {
+		return null;
+	}
+
+	try {
+		const { hostname } = new URL(`http://${isIpv6 ? `[${trimmed}]` : trimmed}/`);
+		return isIpv6 ? hostname.slice(1, -1) : hostname === trimmed ? hostname : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Whether a stored inspection is recent enough to serve instead of inspecting again, and was made
+ * with everything the new request asks for: the same protocol, a deep scan, the PEMs and the HTTP checks if wanted.
+ */
+export function isReusableInspection(inspection: StoredInspection, maxAgeSeconds: number, options: InspectOptions, now = Date.now()): boolean {
+	const { result } = inspection;
+	return (
+		now - Date.parse(inspection.storedAt) <= maxAgeSeconds * 1000 &&
+		result.protocol === (options.protocol ?? "tls") &&
+		(!options.deepScan || result.scan !== undefined) &&
+		(!options.includePem || result.chain.every((certificate) => certificate.pem !== undefined)) &&
+		(!options.http || result.http !== undefined)
+	);
+}
+
+/** Drops everything but the inventory's fields, including from results stored before the registry kept only those */
+export function toInventoryInspection(inspection: InventoryInspection): InventoryInspection {
+	const { result } = inspection;
+	return {
+		...inspection,
+		result: {
+			protocol: result.protocol,
+			authorized: result.authorized,
+			authorizationError: result.authorizationError,
+			validFrom: result.validFrom,
+			validTo: result.validTo,
+			fingerprint256: result.fingerprint256,
+			serialNumber: result.serialNumber,
+			subjectAltName: result.subjectAltName,
+			subject: result.subject,
+			issuer: result.issuer,
+			durationMs: result.durationMs,
+			engine: result.engine,
+			negotiated: { tlsVersion: result.negotiated?.tlsVersion ?? null },
+		},
+	};
+}
+
+/**
+ * Each host:port keeps its own history; pinned addresses and SNI overrides get separate histories
+ * so one stale backend does not show up as a certificate change on every other inspection.
+ */
+export function normalizeCertificateTarget(
+	host: string,
+	port = 443,
+	pinning: TargetPinning = {}
+): { host: string; port: number; key: string } & TargetPinning {
 	const normalizedHost = normalizeHost(host);
+	const servername = pinning.servername && pinning.servername !== normalizedHost ? pinning.servername : undefined;
+	const ip = pinning.ip;
+
 	return {
 		host: normalizedHost,
 		port,
-		key: `${normalizedHost}:${port}`,
+		...(ip ? { ip } : {}),
+		...(servername ? { servername } : {}),
+		key: `${normalizedHost}:${port}${ip ? `@${ip}` : ""}${servername ? `#${servername}` : ""}`,
 	};
-}
\ No newline at end of file
+}
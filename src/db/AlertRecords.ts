@@ -0,0 +1,19 @@
+import { integer, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
+import type { CertificateAlertKind } from "../certificates";
+
+export const AlertRecords = sqliteTable(
+	"certificate_alerts",
+	{
+		id: integer().primaryKey({ autoIncrement: true }),
+		kind: text().$type<CertificateAlertKind>().notNull(),
+		// Only set for expiry alerts; a NULL threshold never conflicts, so flip alerts can repeat
+		threshold: integer(),
+		fingerprint256: text(),
+		days_remaining: integer(),
+		valid_to: text(),
+		authorization_error: text(),
+		inspection_id: integer().notNull(),
+		created_at: text().notNull(),
+	},
+	(table) => [uniqueIndex("certificate_alerts_threshold_idx").on(table.kind, table.fingerprint256, table.threshold)]
+);
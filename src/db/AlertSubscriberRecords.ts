@@ -0,0 +1,8 @@
+import { sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+export const AlertSubscriberRecords = sqliteTable("alert_subscribers", {
+	endpoint: text().primaryKey(),
+	// Name of the `MyDurableObject` holding the subscription keys
+	object_name: text().notNull(),
+	created_at: text().notNull(),
+});
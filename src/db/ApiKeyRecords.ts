@@ -0,0 +1,18 @@
+import { integer, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
+
+export const ApiKeyRecords = sqliteTable(
+	"api_keys",
+	{
+		id: integer().primaryKey({ autoIncrement: true }),
+		workspace: text().notNull(),
+		name: text().notNull(),
+		// The first characters of the key, so it can be recognised in listings
+		prefix: text().notNull(),
+		// Only the SHA-256 of the key is kept; the key itself is shown once when it is created
+		key_hash: text().notNull(),
+		created_at: text().notNull(),
+		last_used_at: text(),
+		revoked_at: text(),
+	},
+	(table) => [uniqueIndex("api_keys_key_hash_idx").on(table.key_hash)]
+);
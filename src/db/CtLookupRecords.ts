@@ -0,0 +1,11 @@
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import type { CtLookupCertificate } from "../transparency";
+
+export const CtLookupRecords = sqliteTable("ct_lookups", {
+	id: integer().primaryKey({ autoIncrement: true }),
+	domain: text().notNull(),
+	looked_up_at: text().notNull(),
+	source: text().notNull(),
+	truncated: integer({ mode: "boolean" }).notNull().default(false),
+	certificates: text({ mode: "json" }).$type<CtLookupCertificate[]>().notNull(),
+});
@@ -0,0 +1,14 @@
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+export type DeliveryOutcome = "delivered" | "retry" | "gone" | "failed";
+
+export const DeliveryAttemptRecords = sqliteTable("delivery_attempts", {
+	id: integer().primaryKey({ autoIncrement: true }),
+	notification_id: integer().notNull(),
+	endpoint: text().notNull(),
+	attempt: integer().notNull(),
+	outcome: text().$type<DeliveryOutcome>().notNull(),
+	status_code: integer(),
+	error: text(),
+	created_at: text().notNull(),
+});
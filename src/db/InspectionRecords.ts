@@ -0,0 +1,16 @@
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import type { CertificateDetails, Finding } from "../certificates";
+
+export const InspectionRecords = sqliteTable(
+	"inspection_records",
+	{
+		id: integer().primaryKey({ autoIncrement: true }),
+		requested_host: text().notNull(),
+		requested_port: integer().notNull(),
+		stored_at: text().notNull(),
+		fingerprint256: text(),
+		result: text({ mode: "json" }).$type<CertificateDetails>().notNull(),
+		findings: text({ mode: "json" }).$type<Finding[]>().notNull().default([]),
+	},
+	(table) => [index("inspection_records_stored_at_idx").on(table.stored_at)]
+);
@@ -0,0 +1,17 @@
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import type { FindingRules, InspectionProtocol } from "../certificates";
+
+export const MonitorRecords = sqliteTable("certificate_monitors", {
+	key: text().primaryKey(),
+	workspace: text().notNull().default("default"),
+	host: text().notNull(),
+	port: integer().notNull(),
+	protocol: text().$type<InspectionProtocol>().notNull().default("tls"),
+	interval_minutes: integer().notNull(),
+	thresholds: text({ mode: "json" }).$type<number[]>().notNull(),
+	rules: text({ mode: "json" }).$type<FindingRules>().notNull().default({}),
+	created_at: text().notNull(),
+	last_checked_at: text(),
+	next_check_at: text(),
+	last_error: text(),
+});
@@ -0,0 +1,18 @@
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import type { PushUrgency } from "../push";
+
+export const NotificationRecords = sqliteTable(
+	"pending_notifications",
+	{
+		id: integer().primaryKey({ autoIncrement: true }),
+		endpoint: text().notNull(),
+		payload: text().notNull(),
+		attempts: integer().notNull().default(0),
+		next_attempt_at: text().notNull(),
+		created_at: text().notNull(),
+		// Passed through to the push service; null leaves its defaults
+		ttl: integer(),
+		urgency: text().$type<PushUrgency>(),
+	},
+	(table) => [index("pending_notifications_next_attempt_idx").on(table.next_attempt_at)]
+);
@@ -0,0 +1,9 @@
+import { sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+export const SubscriptionIndexRecords = sqliteTable("subscription_index", {
+	endpoint: text().primaryKey(),
+	// The name of the `MyDurableObject` holding the subscription
+	object_name: text().notNull(),
+	topics: text({ mode: "json" }).$type<string[]>().notNull().default([]),
+	created_at: text().notNull(),
+});
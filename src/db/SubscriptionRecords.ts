@@ -12,4 +12,6 @@ export const SubscriptionRecords = sqliteTable("subscription_records", {
 	keys_p256dh: text().notNull(),
 	keys_auth: text().notNull(),
 	created_date: text().notNull().default(sql`CURRENT_TIMESTAMP`),
+	workspace: text().notNull().default("default"),
+	topics: text({ mode: "json" }).$type<string[]>().notNull().default([]),
 });
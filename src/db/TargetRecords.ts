@@ -0,0 +1,18 @@
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import type { InventoryInspection } from "../certificates";
+
+export const TargetRecords = sqliteTable(
+	"certificate_targets",
+	{
+		// The `CertificateInspectionStore` name, so each store has exactly one entry
+		key: text().primaryKey(),
+		workspace: text().notNull(),
+		host: text().notNull(),
+		port: integer().notNull(),
+		ip: text(),
+		servername: text(),
+		inspection: text({ mode: "json" }).$type<InventoryInspection>().notNull(),
+		updated_at: text().notNull(),
+	},
+	(table) => [index("certificate_targets_workspace_idx").on(table.workspace)]
+);
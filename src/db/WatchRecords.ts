@@ -0,0 +1,8 @@
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+export const WatchRecords = sqliteTable("certificate_watches", {
+	target_key: text().primaryKey(),
+	host: text().notNull(),
+	port: integer().notNull(),
+	created_at: text().notNull(),
+});
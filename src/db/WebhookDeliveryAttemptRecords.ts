@@ -0,0 +1,21 @@
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import type { WebhookEventName } from "../webhooks";
+
+export type WebhookDeliveryOutcome = "delivered" | "retry" | "failed";
+
+export const WebhookDeliveryAttemptRecords = sqliteTable(
+	"webhook_delivery_attempts",
+	{
+		id: integer().primaryKey({ autoIncrement: true }),
+		webhook_id: integer().notNull(),
+		event_id: text().notNull(),
+		event: text().$type<WebhookEventName>().notNull(),
+		attempt: integer().notNull(),
+		outcome: text().$type<WebhookDeliveryOutcome>().notNull(),
+		status_code: integer(),
+		error: text(),
+		duration_ms: integer().notNull(),
+		created_at: text().notNull(),
+	},
+	(table) => [index("webhook_delivery_attempts_webhook_idx").on(table.webhook_id)]
+);
@@ -0,0 +1,18 @@
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import type { WebhookEventName } from "../webhooks";
+
+export const WebhookDeliveryRecords = sqliteTable(
+	"pending_webhook_deliveries",
+	{
+		id: integer().primaryKey({ autoIncrement: true }),
+		webhook_id: integer().notNull(),
+		// Sent with every attempt so receivers can drop retries they already handled
+		event_id: text().notNull(),
+		event: text().$type<WebhookEventName>().notNull(),
+		payload: text().notNull(),
+		attempts: integer().notNull().default(0),
+		next_attempt_at: text().notNull(),
+		created_at: text().notNull(),
+	},
+	(table) => [index("pending_webhook_deliveries_next_attempt_idx").on(table.next_attempt_at)]
+);
@@ -0,0 +1,12 @@
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import type { WebhookEventType } from "../webhooks";
+
+export const WebhookRecords = sqliteTable("webhooks", {
+	id: integer().primaryKey({ autoIncrement: true }),
+	url: text().notNull(),
+	// Kept as entered because every delivery is signed with it; never returned by the API
+	secret: text(),
+	events: text({ mode: "json" }).$type<WebhookEventType[]>().notNull(),
+	description: text(),
+	created_at: text().notNull(),
+});
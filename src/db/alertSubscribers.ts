@@ -0,0 +1,22 @@
+import { eq } from "drizzle-orm";
+import { AlertSubscriberRecords } from "./AlertSubscriberRecords";
+import { AlertSubscriberRecord, DB, InsertAlertSubscriberRecord } from "./types";
+
+// Add a push endpoint to notify, keeping the original date if it is already subscribed
+export async function create(db: DB, subscriberRecord: InsertAlertSubscriberRecord): Promise<void> {
+	await db.insert(AlertSubscriberRecords).values(subscriberRecord).onConflictDoNothing();
+}
+
+// Remove a push endpoint
+export async function del(db: DB, params: { endpoint: string }): Promise<AlertSubscriberRecord | null> {
+	const [subscriber] = await db
+		.delete(AlertSubscriberRecords)
+		.where(eq(AlertSubscriberRecords.endpoint, params.endpoint))
+		.returning();
+	return subscriber ?? null;
+}
+
+// List every push endpoint to notify
+export async function list(db: DB): Promise<AlertSubscriberRecord[]> {
+	return db.select().from(AlertSubscriberRecords);
+}
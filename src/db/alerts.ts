@@ -0,0 +1,14 @@
+import { desc } from "drizzle-orm";
+import { AlertRecords } from "./AlertRecords";
+import { AlertRecord, DB, InsertAlertRecord } from "./types";
+
+// Record an alert, returning null when an identical expiry alert was already recorded
+export async function create(db: DB, alertRecord: InsertAlertRecord): Promise<AlertRecord | null> {
+	const [res] = await db.insert(AlertRecords).values(alertRecord).onConflictDoNothing().returning();
+	return res ?? null;
+}
+
+// List the most recent alerts, newest first
+export async function list(db: DB, params: { limit: number }): Promise<AlertRecord[]> {
+	return db.select().from(AlertRecords).orderBy(desc(AlertRecords.id)).limit(params.limit);
+}
@@ -0,0 +1,47 @@
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { ApiKeyRecords } from "./ApiKeyRecords";
+import { ApiKeyRecord, DB, InsertApiKeyRecord } from "./types";
+
+// Create a new API key
+export async function create(db: DB, apiKeyRecord: InsertApiKeyRecord): Promise<ApiKeyRecord> {
+	const [res] = await db.insert(ApiKeyRecords).values(apiKeyRecord).returning();
+	return res;
+}
+
+// Get a key that has not been revoked by its hash
+export async function getActiveByHash(db: DB, params: { key_hash: string }): Promise<ApiKeyRecord | null> {
+	const [result] = await db
+		.select()
+		.from(ApiKeyRecords)
+		.where(and(eq(ApiKeyRecords.key_hash, params.key_hash), isNull(ApiKeyRecords.revoked_at)));
+	return result ?? null;
+}
+
+// Get a key that has not been revoked by id
+export async function getActive(db: DB, params: { id: number }): Promise<ApiKeyRecord | null> {
+	const [result] = await db
+		.select()
+		.from(ApiKeyRecords)
+		.where(and(eq(ApiKeyRecords.id, params.id), isNull(ApiKeyRecords.revoked_at)));
+	return result ?? null;
+}
+
+// List a workspace's keys, oldest first
+export async function list(db: DB, params: { workspace: string }): Promise<ApiKeyRecord[]> {
+	return db.select().from(ApiKeyRecords).where(eq(ApiKeyRecords.workspace, params.workspace)).orderBy(asc(ApiKeyRecords.id));
+}
+
+// Record when a key was last used
+export async function touch(db: DB, params: { id: number; last_used_at: string }): Promise<void> {
+	await db.update(ApiKeyRecords).set({ last_used_at: params.last_used_at }).where(eq(ApiKeyRecords.id, params.id));
+}
+
+// Revoke one of a workspace's keys
+export async function revoke(db: DB, params: { id: number; workspace: string; revoked_at: string }): Promise<ApiKeyRecord | null> {
+	const [result] = await db
+		.update(ApiKeyRecords)
+		.set({ revoked_at: params.revoked_at })
+		.where(and(eq(ApiKeyRecords.id, params.id), eq(ApiKeyRecords.workspace, params.workspace), isNull(ApiKeyRecords.revoked_at)))
+		.returning();
+	return result ?? null;
+}
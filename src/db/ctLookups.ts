@@ -0,0 +1,49 @@
+import { count as countRows, desc, eq, lt, notInArray } from "drizzle-orm";
+import { CtLookupRecords } from "./CtLookupRecords";
+import { CtLookupRecord, DB, InsertCtLookupRecord } from "./types";
+
+// Append a lookup to the history
+export async function create(db: DB, ctLookupRecord: InsertCtLookupRecord): Promise<CtLookupRecord> {
+	const [res] = await db.insert(CtLookupRecords).values(ctLookupRecord).returning();
+	return res;
+}
+
+// Get the most recent lookup
+export async function latest(db: DB): Promise<CtLookupRecord | null> {
+	const [result] = await db.select().from(CtLookupRecords).orderBy(desc(CtLookupRecords.id)).limit(1);
+	return result ?? null;
+}
+
+// Get a lookup by id
+export async function get(db: DB, params: { id: number }): Promise<CtLookupRecord | null> {
+	const [result] = await db.select().from(CtLookupRecords).where(eq(CtLookupRecords.id, params.id));
+	return result ?? null;
+}
+
+// Get the lookup stored immediately before the given id
+export async function previous(db: DB, params: { id: number }): Promise<CtLookupRecord | null> {
+	const [result] = await db
+		.select()
+		.from(CtLookupRecords)
+		.where(lt(CtLookupRecords.id, params.id))
+		.orderBy(desc(CtLookupRecords.id))
+		.limit(1);
+	return result ?? null;
+}
+
+// List lookups newest first
+export async function list(db: DB, params: { limit: number; offset: number }): Promise<CtLookupRecord[]> {
+	return db.select().from(CtLookupRecords).orderBy(desc(CtLookupRecords.id)).limit(params.limit).offset(params.offset);
+}
+
+// Count lookups
+export async function count(db: DB): Promise<number> {
+	const [result] = await db.select({ total: countRows() }).from(CtLookupRecords);
+	return result?.total ?? 0;
+}
+
+// Delete everything but the newest `retain` lookups
+export async function prune(db: DB, retain: number): Promise<void> {
+	const newest = db.select({ id: CtLookupRecords.id }).from(CtLookupRecords).orderBy(desc(CtLookupRecords.id)).limit(retain);
+	await db.delete(CtLookupRecords).where(notInArray(CtLookupRecords.id, newest));
+}
@@ -0,0 +1,24 @@
+import { desc, notInArray } from "drizzle-orm";
+import { DeliveryAttemptRecords } from "./DeliveryAttemptRecords";
+import { DB, DeliveryAttemptRecord, InsertDeliveryAttemptRecord } from "./types";
+
+// Log a delivery attempt
+export async function create(db: DB, attemptRecord: InsertDeliveryAttemptRecord): Promise<DeliveryAttemptRecord> {
+	const [res] = await db.insert(DeliveryAttemptRecords).values(attemptRecord).returning();
+	return res;
+}
+
+// List the most recent delivery attempts, newest first
+export async function list(db: DB, params: { limit: number }): Promise<DeliveryAttemptRecord[]> {
+	return db.select().from(DeliveryAttemptRecords).orderBy(desc(DeliveryAttemptRecords.id)).limit(params.limit);
+}
+
+// Delete everything but the newest `retain` attempts
+export async function prune(db: DB, retain: number): Promise<void> {
+	const newest = db
+		.select({ id: DeliveryAttemptRecords.id })
+		.from(DeliveryAttemptRecords)
+		.orderBy(desc(DeliveryAttemptRecords.id))
+		.limit(retain);
+	await db.delete(DeliveryAttemptRecords).where(notInArray(DeliveryAttemptRecords.id, newest));
+}
@@ -0,0 +1,70 @@
+import { and, count as countRows, desc, eq, gte, lt, lte, notInArray, type SQL } from "drizzle-orm";
+import { InspectionRecords } from "./InspectionRecords";
+import { DB, InsertInspectionRecord, InspectionRecord } from "./types";
+
+export type InspectionRange = {
+	from?: string;
+	to?: string;
+};
+
+function rangeFilter(range: InspectionRange): SQL | undefined {
+	return and(
+		range.from ? gte(InspectionRecords.stored_at, range.from) : undefined,
+		range.to ? lte(InspectionRecords.stored_at, range.to) : undefined
+	);
+}
+
+// Append an inspection to the history
+export async function create(db: DB, inspectionRecord: InsertInspectionRecord): Promise<InspectionRecord> {
+	const [res] = await db.insert(InspectionRecords).values(inspectionRecord).returning();
+	return res;
+}
+
+// Get the most recent inspection
+export async function latest(db: DB): Promise<InspectionRecord | null> {
+	const [result] = await db.select().from(InspectionRecords).orderBy(desc(InspectionRecords.id)).limit(1);
+	if (!result) return null;
+	return result;
+}
+
+// Get an inspection by id
+export async function get(db: DB, params: { id: number }): Promise<InspectionRecord | null> {
+	const [result] = await db.select().from(InspectionRecords).where(eq(InspectionRecords.id, params.id));
+	if (!result) return null;
+	return result;
+}
+
+// Get the inspection stored immediately before the given id
+export async function previous(db: DB, params: { id: number }): Promise<InspectionRecord | null> {
+	const [result] = await db
+		.select()
+		.from(InspectionRecords)
+		.where(lt(InspectionRecords.id, params.id))
+		.orderBy(desc(InspectionRecords.id))
+		.limit(1);
+	if (!result) return null;
+	return result;
+}
+
+// List inspections newest first, optionally restricted to a date range
+export async function list(db: DB, params: InspectionRange & { limit: number; offset: number }): Promise<InspectionRecord[]> {
+	return db
+		.select()
+		.from(InspectionRecords)
+		.where(rangeFilter(params))
+		.orderBy(desc(InspectionRecords.id))
+		.limit(params.limit)
+		.offset(params.offset);
+}
+
+// Count inspections, optionally restricted to a date range
+export async function count(db: DB, range: InspectionRange = {}): Promise<number> {
+	const [result] = await db.select({ total: countRows() }).from(InspectionRecords).where(rangeFilter(range));
+	return result?.total ?? 0;
+}
+
+// Delete everything but the newest `retain` inspections
+export async function prune(db: DB, retain: number): Promise<void> {
+	const newest = db.select({ id: InspectionRecords.id }).from(InspectionRecords).orderBy(desc(InspectionRecords.id)).limit(retain);
+	await db.delete(InspectionRecords).where(notInArray(InspectionRecords.id, newest));
+}
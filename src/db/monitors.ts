@@ -0,0 +1,39 @@
+import { asc, eq } from "drizzle-orm";
+import { MonitorRecords } from "./MonitorRecords";
+import { DB, InsertMonitorRecord, MonitorRecord } from "./types";
+
+// Create a new monitor or update an existing one
+export async function upsert(db: DB, monitorRecord: InsertMonitorRecord): Promise<MonitorRecord> {
+	const [res] = await db
+		.insert(MonitorRecords)
+		.values(monitorRecord)
+		.onConflictDoUpdate({
+			target: [MonitorRecords.key],
+			set: monitorRecord,
+		})
+		.returning();
+
+	return res;
+}
+
+// Delete a monitor by key
+export async function del(db: DB, params: { key: string }): Promise<MonitorRecord | null> {
+	const [monitor] = await db.delete(MonitorRecords).where(eq(MonitorRecords.key, params.key)).returning();
+	return monitor ?? null;
+}
+
+// Get a monitor by key
+export async function get(db: DB, params: { key: string }): Promise<MonitorRecord | null> {
+	const [result] = await db.select().from(MonitorRecords).where(eq(MonitorRecords.key, params.key));
+	if (!result) return null;
+	return result;
+}
+
+// List all monitors, or one workspace's, ordered by target
+export async function list(db: DB, params: { workspace?: string } = {}): Promise<MonitorRecord[]> {
+	const query = db.select().from(MonitorRecords);
+	if (params.workspace !== undefined) {
+		return query.where(eq(MonitorRecords.workspace, params.workspace)).orderBy(asc(MonitorRecords.key));
+	}
+	return query.orderBy(asc(MonitorRecords.key));
+}
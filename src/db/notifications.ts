@@ -0,0 +1,43 @@
+import { asc, eq, lte } from "drizzle-orm";
+import { NotificationRecords } from "./NotificationRecords";
+import { DB, InsertNotificationRecord, NotificationRecord } from "./types";
+
+// Queue a notification for delivery
+export async function create(db: DB, notificationRecord: InsertNotificationRecord): Promise<NotificationRecord> {
+	const [res] = await db.insert(NotificationRecords).values(notificationRecord).returning();
+	return res;
+}
+
+// Remove a notification from the queue
+export async function del(db: DB, params: { id: number }): Promise<void> {
+	await db.delete(NotificationRecords).where(eq(NotificationRecords.id, params.id));
+}
+
+// Remove every queued notification for an endpoint
+export async function delForEndpoint(db: DB, params: { endpoint: string }): Promise<void> {
+	await db.delete(NotificationRecords).where(eq(NotificationRecords.endpoint, params.endpoint));
+}
+
+// Record a failed attempt and when to try again
+export async function reschedule(db: DB, params: { id: number; attempts: number; next_attempt_at: string }): Promise<void> {
+	await db
+		.update(NotificationRecords)
+		.set({ attempts: params.attempts, next_attempt_at: params.next_attempt_at })
+		.where(eq(NotificationRecords.id, params.id));
+}
+
+// List notifications whose next attempt is due, oldest first
+export async function listDue(db: DB, params: { now: string }): Promise<NotificationRecord[]> {
+	return db
+		.select()
+		.from(NotificationRecords)
+		.where(lte(NotificationRecords.next_attempt_at, params.now))
+		.orderBy(asc(NotificationRecords.next_attempt_at), asc(NotificationRecords.id));
+}
+
+// Get the notification that is due next
+export async function next(db: DB): Promise<NotificationRecord | null> {
+	const [result] = await db.select().from(NotificationRecords).orderBy(asc(NotificationRecords.next_attempt_at)).limit(1);
+	if (!result) return null;
+	return result;
+}
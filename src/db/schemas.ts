@@ -1 +1,15 @@
 export * from "./SubscriptionRecords";
+export * from "./InspectionRecords";
+export * from "./MonitorRecords";
+export * from "./AlertRecords";
+export * from "./WatchRecords";
+export * from "./AlertSubscriberRecords";
+export * from "./NotificationRecords";
+export * from "./DeliveryAttemptRecords";
+export * from "./ApiKeyRecords";
+export * from "./WebhookRecords";
+export * from "./WebhookDeliveryRecords";
+export * from "./WebhookDeliveryAttemptRecords";
+export * from "./TargetRecords";
+export * from "./CtLookupRecords";
+export * from "./SubscriptionIndexRecords";
@@ -0,0 +1,33 @@
+import { asc, eq, sql } from "drizzle-orm";
+import { SubscriptionIndexRecords } from "./SubscriptionIndexRecords";
+import { DB, InsertSubscriptionIndexRecord, SubscriptionIndexRecord } from "./types";
+
+// Add a subscription to the index or update its topics
+export async function upsert(db: DB, subscriptionIndexRecord: InsertSubscriptionIndexRecord): Promise<SubscriptionIndexRecord> {
+	const [res] = await db
+		.insert(SubscriptionIndexRecords)
+		.values(subscriptionIndexRecord)
+		.onConflictDoUpdate({
+			target: [SubscriptionIndexRecords.endpoint],
+			set: { object_name: subscriptionIndexRecord.object_name, topics: subscriptionIndexRecord.topics },
+		})
+		.returning();
+
+	return res;
+}
+
+// Remove a subscription from the index
+export async function del(db: DB, params: { endpoint: string }): Promise<void> {
+	await db.delete(SubscriptionIndexRecords).where(eq(SubscriptionIndexRecords.endpoint, params.endpoint));
+}
+
+// List every indexed subscription, or only those tagged with a topic, oldest first
+export async function list(db: DB, params: { topic?: string } = {}): Promise<SubscriptionIndexRecord[]> {
+	const query = db.select().from(SubscriptionIndexRecords);
+	if (params.topic !== undefined) {
+		return query
+			.where(sql`exists (select 1 from json_each(${SubscriptionIndexRecords.topics}) where value = ${params.topic})`)
+			.orderBy(asc(SubscriptionIndexRecords.created_at));
+	}
+	return query.orderBy(asc(SubscriptionIndexRecords.created_at));
+}
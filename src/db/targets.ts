@@ -0,0 +1,37 @@
+import { asc, eq } from "drizzle-orm";
+import { TargetRecords } from "./TargetRecords";
+import { DB, InsertTargetRecord, TargetRecord } from "./types";
+
+// Create a new target or replace its latest inspection
+export async function upsert(db: DB, targetRecord: InsertTargetRecord): Promise<TargetRecord> {
+	const [res] = await db
+		.insert(TargetRecords)
+		.values(targetRecord)
+		.onConflictDoUpdate({
+			target: [TargetRecords.key],
+			set: targetRecord,
+		})
+		.returning();
+
+	return res;
+}
+
+// Create a target unless it already has an entry
+export async function createIfMissing(db: DB, targetRecord: InsertTargetRecord): Promise<void> {
+	await db.insert(TargetRecords).values(targetRecord).onConflictDoNothing();
+}
+
+// Delete a target by key
+export async function del(db: DB, params: { key: string }): Promise<TargetRecord | null> {
+	const [target] = await db.delete(TargetRecords).where(eq(TargetRecords.key, params.key)).returning();
+	return target ?? null;
+}
+
+// List all targets, or one workspace's, ordered by key
+export async function list(db: DB, params: { workspace?: string } = {}): Promise<TargetRecord[]> {
+	const query = db.select().from(TargetRecords);
+	if (params.workspace !== undefined) {
+		return query.where(eq(TargetRecords.workspace, params.workspace)).orderBy(asc(TargetRecords.key));
+	}
+	return query.orderBy(asc(TargetRecords.key));
+}
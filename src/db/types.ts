@@ -1,8 +1,64 @@
 import type { DrizzleSqliteDODatabase } from "drizzle-orm/durable-sqlite";
 import type * as schema from "./schemas";
+import { AlertRecords } from "./AlertRecords";
+import { ApiKeyRecords } from "./ApiKeyRecords";
+import { AlertSubscriberRecords } from "./AlertSubscriberRecords";
+import { CtLookupRecords } from "./CtLookupRecords";
+import { DeliveryAttemptRecords } from "./DeliveryAttemptRecords";
+import { InspectionRecords } from "./InspectionRecords";
+import { MonitorRecords } from "./MonitorRecords";
+import { NotificationRecords } from "./NotificationRecords";
+import { SubscriptionIndexRecords } from "./SubscriptionIndexRecords";
 import { SubscriptionRecords } from "./SubscriptionRecords";
+import { TargetRecords } from "./TargetRecords";
+import { WatchRecords } from "./WatchRecords";
+import { WebhookDeliveryAttemptRecords } from "./WebhookDeliveryAttemptRecords";
+import { WebhookDeliveryRecords } from "./WebhookDeliveryRecords";
+import { WebhookRecords } from "./WebhookRecords";
 
 export type DB = DrizzleSqliteDODatabase<typeof schema>;
 
 export type SubscriptionRecord = typeof SubscriptionRecords.$inferSelect;
 export type InsertSubscriptionRecord = typeof SubscriptionRecords.$inferInsert;
+
+export type InspectionRecord = typeof InspectionRecords.$inferSelect;
+export type InsertInspectionRecord = typeof InspectionRecords.$inferInsert;
+
+export type MonitorRecord = typeof MonitorRecords.$inferSelect;
+export type InsertMonitorRecord = typeof MonitorRecords.$inferInsert;
+
+export type AlertRecord = typeof AlertRecords.$inferSelect;
+export type InsertAlertRecord = typeof AlertRecords.$inferInsert;
+
+export type WatchRecord = typeof WatchRecords.$inferSelect;
+export type InsertWatchRecord = typeof WatchRecords.$inferInsert;
+
+export type AlertSubscriberRecord = typeof AlertSubscriberRecords.$inferSelect;
+export type InsertAlertSubscriberRecord = typeof AlertSubscriberRecords.$inferInsert;
+
+export type NotificationRecord = typeof NotificationRecords.$inferSelect;
+export type InsertNotificationRecord = typeof NotificationRecords.$inferInsert;
+
+export type DeliveryAttemptRecord = typeof DeliveryAttemptRecords.$inferSelect;
+export type InsertDeliveryAttemptRecord = typeof DeliveryAttemptRecords.$inferInsert;
+
+export type ApiKeyRecord = typeof ApiKeyRecords.$inferSelect;
+export type InsertApiKeyRecord = typeof ApiKeyRecords.$inferInsert;
+
+export type WebhookRecord = typeof WebhookRecords.$inferSelect;
+export type InsertWebhookRecord = typeof WebhookRecords.$inferInsert;
+
+export type WebhookDeliveryRecord = typeof WebhookDeliveryRecords.$inferSelect;
+export type InsertWebhookDeliveryRecord = typeof WebhookDeliveryRecords.$inferInsert;
+
+export type WebhookDeliveryAttemptRecord = typeof WebhookDeliveryAttemptRecords.$inferSelect;
+export type InsertWebhookDeliveryAttemptRecord = typeof WebhookDeliveryAttemptRecords.$inferInsert;
+
+export type TargetRecord = typeof TargetRecords.$inferSelect;
+export type InsertTargetRecord = typeof TargetRecords.$inferInsert;
+
+export type CtLookupRecord = typeof CtLookupRecords.$inferSelect;
+export type InsertCtLookupRecord = typeof CtLookupRecords.$inferInsert;
+
+export type SubscriptionIndexRecord = typeof SubscriptionIndexRecords.$inferSelect;
+export type InsertSubscriptionIndexRecord = typeof SubscriptionIndexRecords.$inferInsert;
@@ -0,0 +1,19 @@
+import { eq } from "drizzle-orm";
+import { WatchRecords } from "./WatchRecords";
+import { DB, InsertWatchRecord, WatchRecord } from "./types";
+
+// Watch a host:port, keeping the original date if it is already watched
+export async function create(db: DB, watchRecord: InsertWatchRecord): Promise<void> {
+	await db.insert(WatchRecords).values(watchRecord).onConflictDoNothing();
+}
+
+// Stop watching a host:port
+export async function del(db: DB, params: { target_key: string }): Promise<WatchRecord | null> {
+	const [watch] = await db.delete(WatchRecords).where(eq(WatchRecords.target_key, params.target_key)).returning();
+	return watch ?? null;
+}
+
+// List every watched host:port
+export async function list(db: DB): Promise<WatchRecord[]> {
+	return db.select().from(WatchRecords);
+}
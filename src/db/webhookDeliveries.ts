@@ -0,0 +1,42 @@
+import { asc, eq, lte } from "drizzle-orm";
+import { WebhookDeliveryRecords } from "./WebhookDeliveryRecords";
+import { DB, InsertWebhookDeliveryRecord, WebhookDeliveryRecord } from "./types";
+
+// Queue a delivery
+export async function create(db: DB, deliveryRecord: InsertWebhookDeliveryRecord): Promise<WebhookDeliveryRecord> {
+	const [res] = await db.insert(WebhookDeliveryRecords).values(deliveryRecord).returning();
+	return res;
+}
+
+// Remove a delivery from the queue
+export async function del(db: DB, params: { id: number }): Promise<void> {
+	await db.delete(WebhookDeliveryRecords).where(eq(WebhookDeliveryRecords.id, params.id));
+}
+
+// Remove every queued delivery for a webhook
+export async function delForWebhook(db: DB, params: { webhook_id: number }): Promise<void> {
+	await db.delete(WebhookDeliveryRecords).where(eq(WebhookDeliveryRecords.webhook_id, params.webhook_id));
+}
+
+// Record a failed attempt and when to try again
+export async function reschedule(db: DB, params: { id: number; attempts: number; next_attempt_at: string }): Promise<void> {
+	await db
+		.update(WebhookDeliveryRecords)
+		.set({ attempts: params.attempts, next_attempt_at: params.next_attempt_at })
+		.where(eq(WebhookDeliveryRecords.id, params.id));
+}
+
+// List deliveries whose next attempt is due, oldest first
+export async function listDue(db: DB, params: { now: string }): Promise<WebhookDeliveryRecord[]> {
+	return db
+		.select()
+		.from(WebhookDeliveryRecords)
+		.where(lte(WebhookDeliveryRecords.next_attempt_at, params.now))
+		.orderBy(asc(WebhookDeliveryRecords.next_attempt_at), asc(WebhookDeliveryRecords.id));
+}
+
+// Get the delivery that is due next
+export async function next(db: DB): Promise<WebhookDeliveryRecord | null> {
+	const [result] = await db.select().from(WebhookDeliveryRecords).orderBy(asc(WebhookDeliveryRecords.next_attempt_at)).limit(1);
+	return result ?? null;
+}
@@ -0,0 +1,34 @@
+import { desc, eq, notInArray } from "drizzle-orm";
+import { WebhookDeliveryAttemptRecords } from "./WebhookDeliveryAttemptRecords";
+import { DB, InsertWebhookDeliveryAttemptRecord, WebhookDeliveryAttemptRecord } from "./types";
+
+// Log a delivery attempt
+export async function create(db: DB, attemptRecord: InsertWebhookDeliveryAttemptRecord): Promise<WebhookDeliveryAttemptRecord> {
+	const [res] = await db.insert(WebhookDeliveryAttemptRecords).values(attemptRecord).returning();
+	return res;
+}
+
+// List a webhook's most recent delivery attempts, newest first
+export async function list(db: DB, params: { webhook_id: number; limit: number }): Promise<WebhookDeliveryAttemptRecord[]> {
+	return db
+		.select()
+		.from(WebhookDeliveryAttemptRecords)
+		.where(eq(WebhookDeliveryAttemptRecords.webhook_id, params.webhook_id))
+		.orderBy(desc(WebhookDeliveryAttemptRecords.id))
+		.limit(params.limit);
+}
+
+// Delete every attempt logged for a webhook
+export async function delForWebhook(db: DB, params: { webhook_id: number }): Promise<void> {
+	await db.delete(WebhookDeliveryAttemptRecords).where(eq(WebhookDeliveryAttemptRecords.webhook_id, params.webhook_id));
+}
+
+// Delete everything but the newest `retain` attempts
+export async function prune(db: DB, retain: number): Promise<void> {
+	const newest = db
+		.select({ id: WebhookDeliveryAttemptRecords.id })
+		.from(WebhookDeliveryAttemptRecords)
+		.orderBy(desc(WebhookDeliveryAttemptRecords.id))
+		.limit(retain);
+	await db.delete(WebhookDeliveryAttemptRecords).where(notInArray(WebhookDeliveryAttemptRecords.id, newest));
+}
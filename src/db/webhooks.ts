@@ -0,0 +1,26 @@
+import { asc, eq } from "drizzle-orm";
+import { WebhookRecords } from "./WebhookRecords";
+import { DB, InsertWebhookRecord, WebhookRecord } from "./types";
+
+// Register a webhook
+export async function create(db: DB, webhookRecord: InsertWebhookRecord): Promise<WebhookRecord> {
+	const [res] = await db.insert(WebhookRecords).values(webhookRecord).returning();
+	return res;
+}
+
+// Delete a webhook by id
+export async function del(db: DB, params: { id: number }): Promise<WebhookRecord | null> {
+	const [webhook] = await db.delete(WebhookRecords).where(eq(WebhookRecords.id, params.id)).returning();
+	return webhook ?? null;
+}
+
+// Get a webhook by id
+export async function get(db: DB, params: { id: number }): Promise<WebhookRecord | null> {
+	const [result] = await db.select().from(WebhookRecords).where(eq(WebhookRecords.id, params.id));
+	return result ?? null;
+}
+
+// List all webhooks, oldest first
+export async function list(db: DB): Promise<WebhookRecord[]> {
+	return db.select().from(WebhookRecords).orderBy(asc(WebhookRecords.id));
+}
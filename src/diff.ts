@@ -0,0 +1,71 @@
+import {
+	type CertificateChange,
+	type CertificateChangeValue,
+	type CertificateDetails,
+	type ChainCertificate,
+	formatDistinguishedName,
+	parseSubjectAltNames,
+} from "./certificates";
+
+const CHAIN_FIELDS = ["fingerprint256", "serialNumber", "validFrom", "validTo"] as const;
+
+function compareValue(changes: CertificateChange[], field: string, before: CertificateChangeValue, after: CertificateChangeValue): void {
+	if (before !== after) {
+		changes.push({ field, before, after });
+	}
+}
+
+function compareChainCertificate(
+	changes: CertificateChange[],
+	index: number,
+	before: ChainCertificate | undefined,
+	after: ChainCertificate | undefined
+): void {
+	const prefix = `chain[${index}]`;
+	compareValue(changes, `${prefix}.subject`, formatDistinguishedName(before?.subject ?? null), formatDistinguishedName(after?.subject ?? null));
+	compareValue(changes, `${prefix}.issuer`, formatDistinguishedName(before?.issuer ?? null), formatDistinguishedName(after?.issuer ?? null));
+
+	for (const field of CHAIN_FIELDS) {
+		compareValue(changes, `${prefix}.${field}`, before?.[field] ?? null, after?.[field] ?? null);
+	}
+}
+
+/**
+ * Lists what differs between two inspections of the same endpoint: the leaf certificate's identity,
+ * issuer, names, serial and validity, then every certificate above it in the chain. The leaf is
+ * `chain[0]`, so the chain comparison starts from the first issuer to avoid reporting it twice.
+ * The worker engine only sees the certificates the server sent, never the trusted root, so chains
+ * are only compared between results from the same engine.
+ */
+export function diffCertificates(before: CertificateDetails, after: CertificateDetails): CertificateChange[] {
+	const changes: CertificateChange[] = [];
+
+	compareValue(changes, "fingerprint256", before.fingerprint256, after.fingerprint256);
+	compareValue(changes, "serialNumber", before.serialNumber, after.serialNumber);
+	compareValue(changes, "subject", formatDistinguishedName(before.subject), formatDistinguishedName(after.subject));
+	compareValue(changes, "issuer", formatDistinguishedName(before.issuer), formatDistinguishedName(after.issuer));
+
+	const namesBefore = parseSubjectAltNames(before.subjectAltName);
+	const namesAfter = parseSubjectAltNames(after.subjectAltName);
+	const added = namesAfter.filter((name) => !namesBefore.includes(name));
+	const removed = namesBefore.filter((name) => !namesAfter.includes(name));
+	if (added.length > 0 || removed.length > 0) {
+		changes.push({ field: "subjectAltName", before: before.subjectAltName, after: after.subjectAltName, added, removed });
+	}
+
+	compareValue(changes, "validFrom", before.validFrom, after.validFrom);
+	compareValue(changes, "validTo", before.validTo, after.validTo);
+	compareValue(changes, "authorized", before.authorized, after.authorized);
+
+	if ((before.engine ?? "container") !== (after.engine ?? "container")) {
+		return changes;
+	}
+
+	compareValue(changes, "chain.length", before.chain.length, after.chain.length);
+	const chainLength = Math.max(before.chain.length, after.chain.length);
+	for (let index = 1; index < chainLength; index++) {
+		compareChainCertificate(changes, index, before.chain[index], after.chain[index]);
+	}
+
+	return changes;
+}
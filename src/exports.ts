@@ -0,0 +1,283 @@
+import { type CertificateInventoryEntry, type FindingSeverity, type StoredInspection, FINDING_SEVERITIES } from "./certificates";
+import { daysRemaining } from "./monitoring";
+
+export const INVENTORY_CSV_COLUMNS = [
+	"host",
+	"port",
+	"ip",
+	"servername",
+	"monitored",
+	"protocol",
+	"inspection_id",
+	"inspected_at",
+	"authorized",
+	"authorization_error",
+	"valid_from",
+	"valid_to",
+	"days_remaining",
+	"subject",
+	"issuer",
+	"subject_alt_name",
+	"serial_number",
+	"fingerprint256",
+	"tls_version",
+	"findings",
+	"highest_severity",
+	"duration_ms",
+	"last_checked_at",
+	"last_error",
+] as const;
+
+type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Quotes fields that need it, and defuses values a spreadsheet would otherwise run as a formula
+ * (a subject or error message starting with `=`, `+`, `-` or `@`).
+ */
+function csvField(value: CsvValue): string {
+	if (value === null || value === undefined) {
+		return "";
+	}
+
+	let text = String(value);
+	if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+		text = `'${text}`;
+	}
+
+	return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/** Node reports dates as e.g. `Mar 10 12:00:00 2026 GMT`; exports use ISO 8601 */
+function isoDate(value: string | null): string | null {
+	if (!value) {
+		return null;
+	}
+
+	const time = Date.parse(value);
+	return Number.isNaN(time) ? value : new Date(time).toISOString();
+}
+
+function highestSeverity(entry: CertificateInventoryEntry): FindingSeverity | null {
+	const ranks = entry.inspection?.findings.map((finding) => FINDING_SEVERITIES.indexOf(finding.severity)) ?? [];
+	return ranks.length > 0 ? FINDING_SEVERITIES[Math.max(...ranks)] : null;
+}
+
+function inventoryRow(entry: CertificateInventoryEntry, now: number): Record<(typeof INVENTORY_CSV_COLUMNS)[number], CsvValue> {
+	const inspection = entry.inspection;
+	const result = inspection?.result;
+
+	return {
+		host: entry.host,
+		port: entry.port,
+		ip: entry.ip,
+		servername: entry.servername,
+		monitored: entry.monitor !== null,
+		protocol: entry.monitor?.protocol ?? result?.protocol,
+		inspection_id: inspection?.id,
+		inspected_at: inspection?.storedAt,
+		authorized: result?.authorized,
+		authorization_error: result?.authorizationError,
+		valid_from: isoDate(result?.validFrom ?? null),
+		valid_to: isoDate(result?.validTo ?? null),
+		days_remaining: daysRemaining(result?.validTo ?? null, now),
+		subject: result?.subject?.CN,
+		issuer: result?.issuer?.O ?? result?.issuer?.CN,
+		subject_alt_name: result?.subjectAltName,
+		serial_number: result?.serialNumber,
+		fingerprint256: result?.fingerprint256,
+		tls_version: result?.negotiated?.tlsVersion,
+		findings: inspection?.findings.length,
+		highest_severity: highestSeverity(entry),
+		duration_ms: result?.durationMs,
+		last_checked_at: entry.monitor?.lastCheckedAt,
+		last_error: entry.monitor?.lastError,
+	};
+}
+
+/** One row per target, with a header row, for spreadsheets */
+export function toInventoryCsv(entries: CertificateInventoryEntry[], now = Date.now()): string {
+	const rows = entries.map((entry) => {
+		const row = inventoryRow(entry, now);
+		return INVENTORY_CSV_COLUMNS.map((column) => csvField(row[column])).join(",");
+	});
+
+	return [INVENTORY_CSV_COLUMNS.join(","), ...rows].map((line) => `${line}\r\n`).join("");
+}
+
+/** One JSON object per line, each holding the whole latest `StoredInspection` */
+export function toInventoryNdjson(
+	entries: Array<Omit<CertificateInventoryEntry, "inspection"> & { inspection: StoredInspection | null }>
+): string {
+	return entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+}
+
+type Gauge = { name: string; help: string; value(entry: CertificateInventoryEntry, now: number): number | null };
+
+const GAUGES: Gauge[] = [
+	{
+		name: "certificate_expiry_seconds",
+		help: "Seconds until the leaf certificate expires; negative once it has",
+		value: (entry, now) => {
+			const validTo = Date.parse(entry.inspection?.result.validTo ?? "");
+			return Number.isNaN(validTo) ? null : Math.floor((validTo - now) / 1000);
+		},
+	},
+	{
+		name: "certificate_authorized",
+		help: "1 when the chain verified against the trusted roots, 0 otherwise",
+		value: (entry) => (entry.inspection ? Number(entry.inspection.result.authorized) : null),
+	},
+	{
+		name: "certificate_last_inspection_timestamp_seconds",
+		help: "When the latest inspection was stored, as a Unix timestamp",
+		value: (entry) => (entry.inspection ? Math.floor(Date.parse(entry.inspection.storedAt) / 1000) : null),
+	},
+	{
+		name: "certificate_inspection_duration_seconds",
+		help: "How long the latest inspection took",
+		value: (entry) => {
+			const durationMs = entry.inspection?.result.durationMs;
+			return durationMs === undefined ? null : durationMs / 1000;
+		},
+	},
+	{
+		name: "certificate_findings",
+		help: "The number of findings on the latest inspection",
+		value: (entry) => entry.inspection?.findings.length ?? null,
+	},
+	{
+		name: "certificate_monitor_check_failed",
+		help: "1 when the monitor's last scheduled check failed, 0 when it succeeded",
+		value: (entry) => (entry.monitor?.lastCheckedAt ? Number(entry.monitor.lastError !== null) : null),
+	},
+];
+
+function labelValue(value: string): string {
+	return value.replaceAll("\\", "\\\\").replaceAll('"', '\\"').replaceAll("\n", "\\n");
+}
+
+/**
+ * The Prometheus text exposition format, one gauge family per measure with a sample per target.
+ * Targets lacking a value, such as a monitor that has not been checked yet, have no sample.
+ */
+export function toPrometheusMetrics(entries: CertificateInventoryEntry[], now = Date.now()): string {
+	const lines: string[] = [];
+
+	for (const gauge of GAUGES) {
+		lines.push(`# HELP ${gauge.name} ${gauge.help}`, `# TYPE ${gauge.name} gauge`);
+
+		for (const entry of entries) {
+			const value = gauge.value(entry, now);
+			if (value === null) {
+				continue;
+			}
+
+			const labels = { host: entry.host, port: String(entry.port), ip: entry.ip ?? "", servername: entry.servername ?? "" };
+			const labelText = Object.entries(labels)
+				.map(([name, label]) => `${name}="${labelValue(label)}"`)
+				.join(",");
+			lines.push(`${gauge.name}{${labelText}} ${value}`);
+		}
+	}
+
+	return lines.map((line) => `${line}\n`).join("");
+}
+
+/** Content lines longer than this many octets are folded onto continuation lines */
+const ICALENDAR_LINE_OCTETS = 75;
+
+/** Escapes a TEXT value; line breaks become a literal `\n` */
+function calendarText(value: string): string {
+	return value.replaceAll("\\", "\\\\").replaceAll(";", "\\;").replaceAll(",", "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Folds a content line at octet boundaries without splitting a UTF-8 character */
+function foldCalendarLine(line: string): string {
+	const encoder = new TextEncoder();
+	const parts: string[] = [];
+	let current = "";
+	let octets = 0;
+
+	for (const character of line) {
+		const size = encoder.encode(character).length;
+		// Continuation lines start with a space, which counts towards their length
+		if (octets + size > ICALENDAR_LINE_OCTETS - (parts.length > 0 ? 1 : 0)) {
+			parts.push(current);
+			current = "";
+			octets = 0;
+		}
+		current += character;
+		octets += size;
+	}
+
+	return [...parts, current].join("\r\n ");
+}
+
+/** `20260310T120000Z` */
+function calendarDateTime(time: number): string {
+	return new Date(time).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** `20260310`, the UTC day of the time */
+function calendarDate(time: number): string {
+	return new Date(time).toISOString().slice(0, 10).replaceAll("-", "");
+}
+
+function calendarEvent(entry: CertificateInventoryEntry, reminders: number[], now: number): string[] | null {
+	const result = entry.inspection?.result;
+	const expiresAt = Date.parse(result?.validTo ?? "");
+	if (!entry.inspection || !result?.fingerprint256 || Number.isNaN(expiresAt)) {
+		return null;
+	}
+
+	const fingerprint = result.fingerprint256;
+	const target = `${entry.host}:${entry.port}`;
+	const subject = result.subject?.CN ?? entry.host;
+	const description = [
+		`${target} serves ${subject}, issued by ${result.issuer?.O ?? result.issuer?.CN ?? "an unknown issuer"}.`,
+		`It expires at ${new Date(expiresAt).toISOString()}.`,
+		`SHA-256 fingerprint: ${fingerprint}`,
+	].join("\n");
+
+	return [
+		"BEGIN:VEVENT",
+		`UID:${calendarText(`${fingerprint.replaceAll(":", "").toLowerCase()}-${entry.host}-${entry.port}@certificate-inspector`)}`,
+		`DTSTAMP:${calendarDateTime(now)}`,
+		`LAST-MODIFIED:${calendarDateTime(Date.parse(entry.inspection.storedAt))}`,
+		`DTSTART;VALUE=DATE:${calendarDate(expiresAt)}`,
+		`DTEND;VALUE=DATE:${calendarDate(expiresAt + 24 * 60 * 60 * 1000)}`,
+		`SUMMARY:${calendarText(`Certificate for ${target} expires`)}`,
+		`DESCRIPTION:${calendarText(description)}`,
+		"TRANSP:TRANSPARENT",
+		...reminders.flatMap((days) => [
+			"BEGIN:VALARM",
+			"ACTION:DISPLAY",
+			`DESCRIPTION:${calendarText(`The certificate for ${target} expires in ${days} day${days === 1 ? "" : "s"}`)}`,
+			`TRIGGER:-P${days}D`,
+			"END:VALARM",
+		]),
+		"END:VEVENT",
+	];
+}
+
+/**
+ * An iCalendar feed with an all-day event on the day each monitored target's certificate expires,
+ * taken from its latest inspection. The UID combines the certificate's fingerprint with the target,
+ * so a subscribed calendar updates the same event on every refresh until the certificate is renewed,
+ * when the old event drops out of the feed and the new certificate's takes its place.
+ */
+export function toInventoryCalendar(entries: CertificateInventoryEntry[], reminders: number[] = [], now = Date.now()): string {
+	const events = entries.filter((entry) => entry.monitor !== null).flatMap((entry) => calendarEvent(entry, reminders, now) ?? []);
+	const lines = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		"PRODID:-//certificate-inspector//Certificate expiry//EN",
+		"CALSCALE:GREGORIAN",
+		"METHOD:PUBLISH",
+		"X-WR-CALNAME:Certificate expiry",
+		...events,
+		"END:VCALENDAR",
+	];
+
+	return lines.map((line) => `${foldCalendarLine(line)}\r\n`).join("");
+}
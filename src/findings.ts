@@ -0,0 +1,310 @@
+import {
+	type CertificateDetails,
+	type ChainCertificate,
+	type Finding,
+	type FindingRule,
+	type FindingRules,
+	type FindingSeverity,
+	type HstsPolicy,
+	FINDING_RULES,
+	FINDING_SEVERITIES,
+	formatDistinguishedName,
+	parseSubjectAltNames,
+} from "./certificates";
+
+export const DEFAULT_FINDING_SEVERITIES: Record<FindingRule, FindingSeverity> = {
+	"hostname-mismatch": "critical",
+	"incomplete-chain": "high",
+	"misordered-chain": "medium",
+	"root-sent": "low",
+	"self-signed": "high",
+	"validity-too-long": "medium",
+	"weak-key": "high",
+	"weak-signature": "high",
+	wildcard: "info",
+	"missing-server-auth": "high",
+	"missing-hsts": "medium",
+	"weak-hsts": "low",
+	"no-https-redirect": "medium",
+	"missing-security-headers": "low",
+};
+
+/** The CA/Browser Forum limit for publicly trusted server certificates */
+export const DEFAULT_MAX_VALIDITY_DAYS = 398;
+export const DEFAULT_MIN_RSA_KEY_SIZE = 2048;
+export const DEFAULT_MIN_EC_KEY_SIZE = 256;
+
+/** One year, the shortest max-age the HSTS preload list accepts */
+export const MIN_HSTS_MAX_AGE_SECONDS = 31536000;
+
+/** Node verification errors that mean the server did not send the intermediates needed to reach a root */
+const INCOMPLETE_CHAIN_ERRORS = new Set(["UNABLE_TO_GET_ISSUER_CERT", "UNABLE_TO_GET_ISSUER_CERT_LOCALLY", "UNABLE_TO_VERIFY_LEAF_SIGNATURE"]);
+
+const SELF_SIGNED_ERRORS = new Set(["DEPTH_ZERO_SELF_SIGNED_CERT"]);
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rules the worker engine cannot evaluate: it leaves the extension fields empty and reports its
+ * runtime's verification errors rather than Node's codes, so they are skipped for its results.
+ */
+export const CONTAINER_ONLY_RULES: ReadonlySet<FindingRule> = new Set(["incomplete-chain", "missing-server-auth"]);
+
+function isFindingRule(value: unknown): value is FindingRule {
+	return typeof value === "string" && (FINDING_RULES as readonly string[]).includes(value);
+}
+
+function isFindingSeverity(value: unknown): value is FindingSeverity {
+	return typeof value === "string" && (FINDING_SEVERITIES as readonly string[]).includes(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+	return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/** Validates rule configuration from a request body, returning an error message when it is invalid */
+export function parseFindingRules(value: unknown): FindingRules | string {
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		return "The rules must be an object.";
+	}
+
+	const { disabled, severities, maxValidityDays, minRsaKeySize, minEcKeySize } = value as Record<string, unknown>;
+	const rules: FindingRules = {};
+
+	if (disabled !== undefined) {
+		if (!Array.isArray(disabled) || !disabled.every(isFindingRule)) {
+			return `The disabled rules must be a list of ${FINDING_RULES.join(", ")}.`;
+		}
+		rules.disabled = [...new Set(disabled)];
+	}
+
+	if (severities !== undefined) {
+		if (!severities || typeof severities !== "object" || Array.isArray(severities)) {
+			return "The rule severities must be an object keyed by rule.";
+		}
+
+		for (const [rule, severity] of Object.entries(severities)) {
+			if (!isFindingRule(rule)) {
+				return `Unknown rule ${rule}; expected one of ${FINDING_RULES.join(", ")}.`;
+			}
+			if (!isFindingSeverity(severity)) {
+				return `The severity for ${rule} must be one of ${FINDING_SEVERITIES.join(", ")}.`;
+			}
+		}
+		rules.severities = severities as FindingRules["severities"];
+	}
+
+	const limits = { maxValidityDays, minRsaKeySize, minEcKeySize };
+	for (const name of Object.keys(limits) as Array<keyof typeof limits>) {
+		const option = limits[name];
+		if (option === undefined) {
+			continue;
+		}
+		if (!isPositiveInteger(option)) {
+			return `The ${name} rule option must be a positive integer.`;
+		}
+		rules[name] = option;
+	}
+
+	return rules;
+}
+
+/** Matches a requested host against a DNS name, where `*` only stands in for the whole left-most label */
+function dnsNameMatches(host: string, name: string): boolean {
+	const pattern = name.toLowerCase().replace(/\.$/, "");
+	if (!pattern.startsWith("*.")) {
+		return pattern === host;
+	}
+
+	const [label, ...rest] = host.split(".");
+	return label.length > 0 && rest.length >= 2 && rest.join(".") === pattern.slice(2);
+}
+
+function isCoveredBySubjectAltNames(host: string, subjectAltName: string | null): boolean {
+	const normalizedHost = host.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+
+	return parseSubjectAltNames(subjectAltName).some((entry) => {
+		if (entry.startsWith("DNS:")) {
+			return dnsNameMatches(normalizedHost, entry.slice(4));
+		}
+		if (entry.startsWith("IP Address:")) {
+			return entry.slice(11).toLowerCase() === normalizedHost;
+		}
+		return false;
+	});
+}
+
+function describeCertificate(certificate: ChainCertificate, index: number): string {
+	const name = certificate.subject?.CN ?? formatDistinguishedName(certificate.subject) ?? "unnamed certificate";
+	return index === 0 ? `The leaf certificate (${name})` : `Chain certificate ${index} (${name})`;
+}
+
+function keyWeakness(certificate: ChainCertificate, rules: FindingRules): string | null {
+	const { type, size } = certificate.publicKey;
+	const minRsaKeySize = rules.minRsaKeySize ?? DEFAULT_MIN_RSA_KEY_SIZE;
+	const minEcKeySize = rules.minEcKeySize ?? DEFAULT_MIN_EC_KEY_SIZE;
+
+	if (type === "dsa") {
+		return "uses a DSA key";
+	}
+	if ((type === "rsa" || type === "rsa-pss") && size !== null && size < minRsaKeySize) {
+		return `uses a ${size}-bit RSA key, below the ${minRsaKeySize}-bit minimum`;
+	}
+	if (type === "ec" && size !== null && size < minEcKeySize) {
+		return `uses a ${size}-bit EC key, below the ${minEcKeySize}-bit minimum`;
+	}
+	return null;
+}
+
+function hstsWeaknesses(hsts: HstsPolicy): string[] {
+	const weaknesses: string[] = [];
+	if (hsts.maxAge === null) {
+		weaknesses.push("has no valid max-age, so browsers ignore it");
+	} else if (hsts.maxAge < MIN_HSTS_MAX_AGE_SECONDS) {
+		weaknesses.push(`has a max-age of ${hsts.maxAge} seconds, under the ${MIN_HSTS_MAX_AGE_SECONDS} the preload list requires`);
+	}
+	if (!hsts.includeSubDomains) {
+		weaknesses.push("leaves out includeSubDomains");
+	}
+	return weaknesses;
+}
+
+/** Content-Security-Policy's frame-ancestors supersedes X-Frame-Options */
+function missingSecurityHeaders(headers: Record<string, string>): string[] {
+	const missing: string[] = [];
+	if (!headers["content-security-policy"]) {
+		missing.push("Content-Security-Policy");
+	}
+	if (!headers["x-frame-options"] && !/frame-ancestors/i.test(headers["content-security-policy"] ?? "")) {
+		missing.push("X-Frame-Options");
+	}
+	if (headers["x-content-type-options"]?.toLowerCase() !== "nosniff") {
+		missing.push("X-Content-Type-Options: nosniff");
+	}
+	return missing;
+}
+
+type Check = (details: CertificateDetails, rules: FindingRules) => Array<Omit<Finding, "rule" | "severity">>;
+
+const CHECKS: Record<FindingRule, Check> = {
+	// The certificate answers for the name sent in SNI, which an override can set apart from the host
+	"hostname-mismatch": ({ host, servername, subjectAltName }) => {
+		const name = servername ?? host;
+		return isCoveredBySubjectAltNames(name, subjectAltName)
+			? []
+			: [{ message: `${name} is not covered by the certificate's subject alternative names.`, certificateIndex: 0 }];
+	},
+
+	"incomplete-chain": ({ authorizationError }) =>
+		authorizationError && INCOMPLETE_CHAIN_ERRORS.has(authorizationError)
+			? [{ message: `The server did not send the intermediates needed to reach a trusted root (${authorizationError}).`, certificateIndex: null }]
+			: [],
+
+	"misordered-chain": ({ sentChain }) => {
+		if (!sentChain) {
+			return [];
+		}
+
+		// Each certificate after the leaf should be the issuer of the one before it
+		const outOfPlace = sentChain
+			.map((certificate, index) => ({ certificate, index }))
+			.filter(({ certificate, index }) => {
+				const previous = sentChain[index - 1];
+				return index > 0 && (previous.selfSigned || formatDistinguishedName(certificate.subject) !== formatDistinguishedName(previous.issuer));
+			})
+			.map(({ index }) => index);
+
+		return outOfPlace.length > 0
+			? [{ message: `The server sent certificates out of order or unrelated to the chain at position ${outOfPlace.join(", ")}.`, certificateIndex: null }]
+			: [];
+	},
+
+	"root-sent": ({ sentChain }) =>
+		sentChain?.slice(1).some(({ selfSigned }) => selfSigned)
+			? [{ message: "The server sends a self-signed root, which clients ignore and which only adds handshake size.", certificateIndex: null }]
+			: [],
+
+	"self-signed": ({ chain, sentChain, authorizationError }) =>
+		chain[0]?.selfSigned || sentChain?.[0]?.selfSigned || (authorizationError && SELF_SIGNED_ERRORS.has(authorizationError))
+			? [{ message: "The leaf certificate is self-signed.", certificateIndex: 0 }]
+			: [],
+
+	"validity-too-long": ({ validFrom, validTo }, rules) => {
+		const maxValidityDays = rules.maxValidityDays ?? DEFAULT_MAX_VALIDITY_DAYS;
+		const validityDays = validFrom && validTo ? Math.floor((Date.parse(validTo) - Date.parse(validFrom)) / DAY_IN_MS) : Number.NaN;
+
+		return validityDays > maxValidityDays
+			? [{ message: `The leaf certificate is valid for ${validityDays} days, longer than the ${maxValidityDays} allowed.`, certificateIndex: 0 }]
+			: [];
+	},
+
+	"weak-key": ({ chain }, rules) =>
+		chain.flatMap((certificate, index) => {
+			const weakness = keyWeakness(certificate, rules);
+			return weakness ? [{ message: `${describeCertificate(certificate, index)} ${weakness}.`, certificateIndex: index }] : [];
+		}),
+
+	// A root's signature over itself is never checked, so only issued certificates count
+	"weak-signature": ({ chain }) =>
+		chain.flatMap((certificate, index) =>
+			!certificate.selfSigned && /md5|sha1/i.test(certificate.signatureAlgorithm)
+				? [{ message: `${describeCertificate(certificate, index)} is signed with ${certificate.signatureAlgorithm}.`, certificateIndex: index }]
+				: []
+		),
+
+	wildcard: ({ subjectAltName }) => {
+		const wildcards = parseSubjectAltNames(subjectAltName).filter((entry) => entry.startsWith("DNS:*"));
+		return wildcards.length > 0
+			? [{ message: `The leaf certificate covers wildcard names: ${wildcards.map((entry) => entry.slice(4)).join(", ")}.`, certificateIndex: 0 }]
+			: [];
+	},
+
+	"missing-server-auth": ({ chain }) => {
+		const usages = chain[0]?.extendedKeyUsage ?? [];
+		return usages.length > 0 && !usages.includes("serverAuth") && !usages.includes("anyExtendedKeyUsage")
+			? [{ message: "The leaf certificate's extended key usage does not allow TLS server authentication.", certificateIndex: 0 }]
+			: [];
+	},
+
+	// The HTTP rules only apply to inspections that ran the HTTP checks and got an answer over HTTPS
+	"missing-hsts": ({ http }) =>
+		http && http.https.status !== null && !http.https.hsts
+			? [{ message: "The HTTPS response does not set Strict-Transport-Security.", certificateIndex: null }]
+			: [],
+
+	"weak-hsts": ({ http }) => {
+		const weaknesses = http?.https.hsts ? hstsWeaknesses(http.https.hsts) : [];
+		return weaknesses.length > 0
+			? [{ message: `The Strict-Transport-Security header ${weaknesses.join(" and ")}.`, certificateIndex: null }]
+			: [];
+	},
+
+	// Nothing listening on port 80 is fine; answering there without sending clients to HTTPS is not
+	"no-https-redirect": ({ http }) => {
+		const redirect = http?.redirect;
+		if (!redirect || redirect.hops.length === 0 || redirect.httpsUrl) {
+			return [];
+		}
+
+		const [first] = redirect.hops;
+		return [{ message: `Plain HTTP on port 80 does not redirect to HTTPS (${first.url} answered ${first.status}).`, certificateIndex: null }];
+	},
+
+	"missing-security-headers": ({ http }) => {
+		const missing = http && http.https.status !== null ? missingSecurityHeaders(http.https.headers) : [];
+		return missing.length > 0 ? [{ message: `The HTTPS response is missing ${missing.join(", ")}.`, certificateIndex: null }] : [];
+	},
+};
+
+/** Runs every enabled rule over an inspection result */
+export function evaluateFindings(details: CertificateDetails, rules: FindingRules = {}): Finding[] {
+	const disabled = new Set(rules.disabled ?? []);
+	if (details.engine === "worker") {
+		CONTAINER_ONLY_RULES.forEach((rule) => disabled.add(rule));
+	}
+
+	return FINDING_RULES.filter((rule) => !disabled.has(rule)).flatMap((rule) => {
+		const severity = rules.severities?.[rule] ?? DEFAULT_FINDING_SEVERITIES[rule];
+		return CHECKS[rule](details, rules).map((finding) => ({ rule, severity, ...finding }));
+	});
+}
@@ -1,11 +1,1230 @@
 import { PushSubscription } from 'web-push';
-import { createHash } from 'node:crypto';
 
 import https from 'https';
 import path from "node:path";
 
 import { connect } from "node:tls";
-import { CERTIFICATE_INSPECTOR_SINGLETON, normalizeCertificateTarget } from "./certificates";
+import {
+	type CertificateDetails,
+	type CertificateTarget,
+	type InspectOptions,
+	CERTIFICATE_INSPECTOR_SINGLETON,
+	CERTIFICATE_MONITOR_REGISTRY_SINGLETON,
+	inspectorErrorStatus,
+	isReusableInspection,
+	isUnderDomain,
+	normalizeCertificateTarget,
+	targetNotAllowedReason,
+	requestRejectedReason,
+} from "./certificates";
+import {
+	MAX_ALERT_THRESHOLD_DAYS,
+	MAX_MONITOR_INTERVAL_MINUTES,
+	MIN_MONITOR_INTERVAL_MINUTES,
+	normalizeAlertThresholds,
+} from "./monitoring";
+import {
+	type PushDelivery,
+	type PushMessage,
+	MAX_PUSH_PAYLOAD_BYTES,
+	MAX_PUSH_TTL_SECONDS,
+	PUSH_URGENCIES,
+	SUBSCRIPTION_DIRECTORY_NAME,
+	subscriptionObjectName,
+} from "./push";
+import { diffCertificates } from "./diff";
+import {
+	type InspectionOutcome,
+	inspectAllAddresses,
+	inspectBatchWithFallback,
+	inspectWithFallback,
+	inspectionServerTiming,
+} from "./inspection";
+import { evaluateFindings, parseFindingRules } from "./findings";
+import { mapWithConcurrency } from "./concurrency";
+import { chargeRateLimit, enforceRateLimit } from "./rateLimit";
+import { toInventoryCalendar, toInventoryCsv, toInventoryNdjson, toPrometheusMetrics } from "./exports";
+import {
+	API_KEY_STORE_SINGLETON,
+	type Principal,
+	SESSION_TTL_SECONDS,
+	authenticateFeedToken,
+	sessionCookie,
+	signFeedToken,
+	signSession,
+	workspaceObjectName,
+} from "./auth";
+import { type RouteInput, Router, authorize } from "./router";
+import {
+	domainSchema,
+	hostSchema,
+	inspectOptionFields,
+	inspectOptionsProblem,
+	ipSchema,
+	portSchema,
+	protocolSchema,
+	pushSubscriptionSchema,
+	reminderDaysSchema,
+	servernameSchema,
+	subscribeSchema,
+	targetFields,
+	targetQuerySchema,
+	timestampSchema,
+	topicSchema,
+	topicsSchema,
+	workspaceSchema,
+} from "./requests";
+import { WEBHOOK_EVENTS, WEBHOOK_STORE_NAME } from "./webhooks";
+import { type CtSearchResult, CtLogError, ctLogSourceFor, diffCtLookups, servedSerialNumbers } from "./transparency";
+import { array, boolean, custom, integer, object, oneOf, optional, refine, string, withDefault } from "./validation";
+
+const DEFAULT_HISTORY_PAGE_SIZE = 20;
+const MAX_HISTORY_PAGE_SIZE = 100;
+const MAX_BATCH_TARGETS = 200;
+const MAX_BATCH_CONCURRENCY = 32;
+const STORE_CONCURRENCY = 8;
+const MAX_UPLOAD_BYTES = 1024 * 1024;
+const MAX_API_KEY_NAME_LENGTH = 100;
+const MIN_WEBHOOK_SECRET_LENGTH = 16;
+const MAX_WEBHOOK_SECRET_LENGTH = 256;
+const MAX_WEBHOOK_DESCRIPTION_LENGTH = 200;
+const MAX_NOTIFICATION_TITLE_LENGTH = 200;
+const MAX_NOTIFICATION_BODY_LENGTH = 1000;
+
+const OPENAPI_INFO = { title: "Certificate inspection API", version: "1.0.0" };
+
+const router = new Router({ errorStatus: inspectorErrorStatus });
+
+function storeFor(env: Cloudflare.Env, workspace: string, key: string) {
+	return env.CERTIFICATE_INSPECTION_STORE.get(env.CERTIFICATE_INSPECTION_STORE.idFromName(workspaceObjectName(workspace, key)));
+}
+
+function inspectorFor(env: Cloudflare.Env) {
+	return env.CERTIFICATE_INSPECTOR.get(env.CERTIFICATE_INSPECTOR.idFromName(CERTIFICATE_INSPECTOR_SINGLETON));
+}
+
+function monitorRegistryFor(env: Cloudflare.Env) {
+	return env.CERTIFICATE_MONITOR_REGISTRY.get(env.CERTIFICATE_MONITOR_REGISTRY.idFromName(CERTIFICATE_MONITOR_REGISTRY_SINGLETON));
+}
+
+// The administrator names the workspace whose keys it manages; a workspace only manages its own
+function keyWorkspace(principal: Principal, requested: string | undefined): string | Response {
+	if (principal.kind === "workspace") {
+		if (requested !== undefined && requested !== principal.workspace) {
+			return Response.json({ error: "Keys can only be managed in your own workspace." }, { status: 403 });
+		}
+		return principal.workspace;
+	}
+
+	if (requested === undefined) {
+		return Response.json({ error: "The workspace is required with the admin key." }, { status: 400 });
+	}
+	return requested;
+}
+
+// Browsers need the VAPID key before they can subscribe, so it is served without credentials
+router.route({
+	method: "GET",
+	path: "/vapidPublicKey",
+	access: "public",
+	summary: "The VAPID public key browsers subscribe to push notifications with",
+	tags: ["push"],
+	handler: ({ env }) => new Response(env.VAPID_PUBLIC_KEY),
+});
+
+router.route({
+	method: "GET",
+	path: "/api/openapi.json",
+	access: "public",
+	summary: "This document",
+	handler: () => Response.json(router.openApi(OPENAPI_INFO)),
+});
+
+router.route({
+	method: "POST",
+	path: "/api/keys",
+	access: "authenticated",
+	summary: "Create an API key",
+	description: "The key itself is only returned in this response.",
+	tags: ["keys"],
+	body: object({
+		name: string({ maxLength: MAX_API_KEY_NAME_LENGTH }),
+		workspace: optional(workspaceSchema),
+	}),
+	responses: { 201: "The created key" },
+	handler: async ({ env, principal, body }) => {
+		const workspace = keyWorkspace(principal, body.workspace);
+		if (workspace instanceof Response) {
+			return workspace;
+		}
+
+		const apiKeys = env.API_KEY_STORE.get(env.API_KEY_STORE.idFromName(API_KEY_STORE_SINGLETON));
+		return Response.json(await apiKeys.createKey(workspace, body.name.trim()), { status: 201 });
+	},
+});
+
+router.route({
+	method: "GET",
+	path: "/api/keys",
+	access: "authenticated",
+	summary: "List a workspace's API keys",
+	tags: ["keys"],
+	query: object({ workspace: optional(workspaceSchema) }),
+	handler: async ({ env, principal, query }) => {
+		const workspace = keyWorkspace(principal, query.workspace);
+		if (workspace instanceof Response) {
+			return workspace;
+		}
+
+		const apiKeys = env.API_KEY_STORE.get(env.API_KEY_STORE.idFromName(API_KEY_STORE_SINGLETON));
+		return Response.json({ workspace, keys: await apiKeys.listKeys(workspace) });
+	},
+});
+
+router.route({
+	method: "DELETE",
+	path: "/api/keys",
+	access: "authenticated",
+	summary: "Revoke an API key",
+	tags: ["keys"],
+	query: object({ workspace: optional(workspaceSchema), id: integer({ minimum: 1 }) }),
+	responses: { 200: "The revoked key", 404: "No active key with this id exists in the workspace" },
+	handler: async ({ env, principal, query }) => {
+		const workspace = keyWorkspace(principal, query.workspace);
+		if (workspace instanceof Response) {
+			return workspace;
+		}
+
+		const apiKeys = env.API_KEY_STORE.get(env.API_KEY_STORE.idFromName(API_KEY_STORE_SINGLETON));
+		const revoked = await apiKeys.revokeKey(workspace, query.id);
+		if (!revoked) {
+			return Response.json({ error: "No active key with this id exists in the workspace." }, { status: 404 });
+		}
+
+		return Response.json(revoked);
+	},
+});
+
+router.route({
+	method: "POST",
+	path: "/api/session",
+	access: "workspace",
+	summary: "Exchange the API key for a signed session cookie",
+	tags: ["session"],
+	responses: { 200: "The session was started", 501: "Sessions are not enabled" },
+	handler: async ({ env, principal }) => {
+		if (!env.SESSION_SECRET) {
+			return Response.json({ error: "Sessions are not enabled." }, { status: 501 });
+		}
+
+		const { workspace } = principal;
+		const expiresAt = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+		const cookie = await signSession({ workspace, keyId: principal.keyId, expiresAt }, env.SESSION_SECRET);
+
+		return Response.json(
+			{ workspace, expiresAt: new Date(expiresAt * 1000).toISOString() },
+			{ headers: { "set-cookie": sessionCookie(cookie, SESSION_TTL_SECONDS) } }
+		);
+	},
+});
+
+router.route({
+	method: "DELETE",
+	path: "/api/session",
+	access: "workspace",
+	summary: "Clear the session cookie",
+	tags: ["session"],
+	responses: { 204: "The cookie was cleared" },
+	handler: () => new Response(null, { status: 204, headers: { "set-cookie": sessionCookie("", 0) } }),
+});
+
+router.route({
+	method: "POST",
+	path: "/api/certificates/inspect",
+	access: "workspace",
+	summary: "Inspect a certificate and store the result",
+	tags: ["certificates"],
+	body: refine(
+		object({
+			...targetFields,
+			...inspectOptionFields,
+			allAddresses: optional(boolean({ description: "Inspect every address the host resolves to, up to 16, each counting against the rate limit" })),
+			maxAge: optional(integer({ minimum: 0, description: "Serve a stored result up to this many seconds old instead of inspecting again" })),
+		}),
+		(body) =>
+			body.allAddresses && body.ip
+				? "Pass either an ip or allAddresses, not both."
+				: body.allAddresses && body.maxAge !== undefined
+					? "The maxAge option cannot be combined with allAddresses."
+					: inspectOptionsProblem(body)
+	),
+	responses: {
+		200: "The stored inspection; the `server-timing` header names the engine that inspected it and how long it took",
+		403: "The target policy refused the target",
+		429: "The rate limit was reached",
+		502: "The target could not be inspected",
+	},
+	handler: async ({ env, principal, body }) => {
+		const { workspace } = principal;
+		const target = normalizeCertificateTarget(body.host, body.port, body);
+		const store = storeFor(env, workspace, target.key);
+		const options: InspectOptions = {
+			protocol: body.protocol,
+			deepScan: body.deepScan,
+			includePem: body.includePem,
+			http: body.http,
+			servername: target.servername,
+		};
+
+		// A fresh enough stored result is served without a handshake and without counting against the rate limit
+		if (body.maxAge !== undefined) {
+			const stored = await store.getStoredInspection();
+			if (stored && isReusableInspection(stored, body.maxAge, options)) {
+				const age = Math.max(0, Math.floor((Date.now() - Date.parse(stored.storedAt)) / 1000));
+				return Response.json(stored, { headers: { age: String(age) } });
+			}
+		}
+
+		// The address count is only known once the container resolves the name, so the other addresses are charged after
+		const limited = await enforceRateLimit(env, principal, 1);
+		if (limited) {
+			return limited;
+		}
+
+		if (body.allAddresses) {
+			let inspected: Awaited<ReturnType<typeof inspectAllAddresses>>;
+			try {
+				inspected = await inspectAllAddresses(env, target.host, target.port, options);
+			} catch (error) {
+				const reason = targetNotAllowedReason(error);
+				if (reason) {
+					return Response.json({ error: reason }, { status: 403 });
+				}
+				throw error;
+			}
+
+			const { addresses, results: outcomes } = inspected;
+			await chargeRateLimit(env, principal, outcomes.length - 1);
+
+			// Every address keeps its own history, keyed by the pinned ip, so one failed store leaves the others' results
+			const results = await mapWithConcurrency(outcomes, STORE_CONCURRENCY, async (outcome) => {
+				if (!outcome.ok) {
+					return { ip: outcome.ip, ok: false, error: outcome.error };
+				}
+
+				try {
+					const pinned = normalizeCertificateTarget(target.host, target.port, {
+						ip: outcome.ip ?? undefined,
+						servername: target.servername,
+					});
+					const store = storeFor(env, workspace, pinned.key);
+					const inspection = await store.saveInspection(workspace, target.host, target.port, outcome.result, pinned);
+					return { ip: outcome.ip, ok: true, inspection };
+				} catch (error) {
+					return { ip: outcome.ip, ok: false, error: error instanceof Error ? error.message : String(error) };
+				}
+			});
+
+			return Response.json({ host: target.host, port: target.port, servername: target.servername ?? target.host, addresses, results });
+		}
+
+		let outcome: InspectionOutcome;
+		try {
+			outcome = await inspectWithFallback(env, target.host, target.port, { ...options, ip: target.ip });
+		} catch (error) {
+			// The inspector's target policy refused the host, port or address it resolved to
+			const reason = targetNotAllowedReason(error);
+			if (reason) {
+				return Response.json({ error: reason }, { status: 403 });
+			}
+			return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 502 });
+		}
+
+		const storedInspection = await store.saveInspection(workspace, target.host, target.port, outcome.result, target);
+
+		return Response.json(storedInspection, { headers: { "server-timing": inspectionServerTiming(outcome) } });
+	},
+});
+
+router.route({
+	method: "POST",
+	path: "/api/certificates/parse",
+	access: "workspace",
+	summary: "Parse an uploaded certificate or bundle",
+	description: "With a host, the upload is also compared with the certificate served there now.",
+	tags: ["certificates"],
+	rawBody: ["application/x-pem-file", "application/pkix-cert"],
+	query: object({
+		host: optional(hostSchema),
+		port: portSchema,
+		protocol: protocolSchema,
+		ip: ipSchema,
+		servername: servernameSchema,
+		includePem: withDefault(boolean(), false),
+	}),
+	responses: {
+		200: "The parsed certificate, its findings and the live comparison",
+		400: "The upload is not a certificate that can be read",
+		413: "The upload is too large",
+		429: "The rate limit was reached",
+		502: "The inspector could not be reached",
+	},
+	handler: async ({ request, env, principal, query }) => {
+		const upload = new Uint8Array(await request.arrayBuffer());
+
+		if (upload.length > MAX_UPLOAD_BYTES) {
+			return Response.json({ error: `The upload can be at most ${MAX_UPLOAD_BYTES} bytes.` }, { status: 413 });
+		}
+
+		// A PEM bundle, or DER which always starts with a SEQUENCE
+		const isPem = new TextDecoder().decode(upload.subarray(0, 4096)).includes("-----BEGIN CERTIFICATE-----");
+		if (upload.length === 0 || (!isPem && upload[0] !== 0x30)) {
+			return Response.json({ error: "The request body must be a PEM bundle or a DER-encoded certificate." }, { status: 400 });
+		}
+
+		const limited = await enforceRateLimit(env, principal, 1);
+		if (limited) {
+			return limited;
+		}
+
+		const inspector = inspectorFor(env);
+		const target = query.host ? normalizeCertificateTarget(query.host, query.port, query) : null;
+		const servername = query.servername ?? target?.host;
+		let result: CertificateDetails;
+		try {
+			result = await inspector.parseCertificate(upload, {
+				host: target?.host,
+				port: target?.port,
+				servername,
+				includePem: query.includePem,
+			});
+		} catch (error) {
+			// A truncated or corrupt upload gets past the checks above but not the parser
+			const reason = requestRejectedReason(error);
+			if (reason) {
+				return Response.json({ error: reason }, { status: 400 });
+			}
+			throw error;
+		}
+
+		// Without a host or servername there is no name to check the certificate against
+		const findings = evaluateFindings(result, servername ? {} : { disabled: ["hostname-mismatch"] });
+
+		// With a host, compare against what is served there now, e.g. before swapping certificates
+		let live = null;
+		if (target) {
+			try {
+				const { result: current } = await inspectWithFallback(env, target.host, target.port, {
+					protocol: query.protocol,
+					ip: target.ip,
+					servername: target.servername,
+				});
+				live = {
+					host: target.host,
+					port: target.port,
+					ok: true,
+					ip: current.ip,
+					fingerprint256: current.fingerprint256,
+					matches: current.fingerprint256 === result.fingerprint256,
+					changes: diffCertificates(current, result),
+				};
+			} catch (error) {
+				live = { host: target.host, port: target.port, ok: false, error: error instanceof Error ? error.message : String(error) };
+			}
+		}
+
+		return Response.json({ result, findings, live });
+	},
+});
+
+router.route({
+	method: "POST",
+	path: "/api/certificates/inspect/batch",
+	access: "workspace",
+	summary: "Inspect many certificates at once",
+	description:
+		"Each target is stored in its own history; one target failing does not fail the batch. " +
+		"When the inspector does not answer and the worker fallback is on, the targets the worker can inspect are inspected there.",
+	tags: ["certificates"],
+	body: object({
+		targets: array(refine(object({ ...targetFields, ...inspectOptionFields }), inspectOptionsProblem), {
+			minItems: 1,
+			maxItems: MAX_BATCH_TARGETS,
+		}),
+		concurrency: optional(integer({ minimum: 1, maximum: MAX_BATCH_CONCURRENCY })),
+	}),
+	responses: { 200: "One outcome per target, in order", 429: "The rate limit was reached", 502: "The inspector could not be reached" },
+	handler: async ({ env, principal, body }) => {
+		const { workspace } = principal;
+		const targets: Array<CertificateTarget & InspectOptions> = body.targets.map((candidate) => {
+			const target = normalizeCertificateTarget(candidate.host, candidate.port, candidate);
+			return {
+				host: target.host,
+				port: target.port,
+				protocol: candidate.protocol,
+				deepScan: candidate.deepScan,
+				includePem: candidate.includePem,
+				http: candidate.http,
+				ip: target.ip,
+				servername: target.servername,
+			};
+		});
+
+		// Every target is a handshake of its own
+		const limited = await enforceRateLimit(env, principal, targets.length);
+		if (limited) {
+			return limited;
+		}
+
+		const outcomes = await inspectBatchWithFallback(env, targets, body.concurrency);
+
+		// Each target keeps its own history, so a failure to store one result does not affect the others
+		const results = await mapWithConcurrency(outcomes, STORE_CONCURRENCY, async (outcome, index) => {
+			if (!outcome.ok) {
+				return { host: outcome.host, port: outcome.port, ip: outcome.ip, ok: false, error: outcome.error };
+			}
+
+			try {
+				const target = normalizeCertificateTarget(outcome.host, outcome.port, targets[index]);
+				const store = storeFor(env, workspace, target.key);
+				const inspection = await store.saveInspection(workspace, target.host, target.port, outcome.result, target);
+				return { host: target.host, port: target.port, ip: outcome.ip, ok: true, inspection };
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				return { host: outcome.host, port: outcome.port, ip: outcome.ip, ok: false, error: message };
+			}
+		});
+
+		return Response.json({ results });
+	},
+});
+
+router.route({
+	method: "GET",
+	path: "/api/certificates/result",
+	access: "workspace",
+	summary: "The latest stored inspection of a target",
+	tags: ["certificates"],
+	query: targetQuerySchema,
+	responses: { 200: "The stored inspection", 404: "The target has not been inspected" },
+	handler: async ({ env, principal, query }) => {
+		const target = normalizeCertificateTarget(query.host, query.port, query);
+		const result = await storeFor(env, principal.workspace, target.key).getStoredInspection();
+
+		if (!result) {
+			return Response.json({ error: "No stored inspection exists for this host and port." }, { status: 404 });
+		}
+
+		return Response.json(result);
+	},
+});
+
+router.route({
+	method: "GET",
+	path: "/api/certificates/history",
+	access: "workspace",
+	summary: "A page of a target's stored inspections",
+	tags: ["certificates"],
+	query: object({
+		...targetFields,
+		limit: withDefault(integer({ minimum: 1, maximum: MAX_HISTORY_PAGE_SIZE }), DEFAULT_HISTORY_PAGE_SIZE),
+		offset: withDefault(integer({ minimum: 0 }), 0),
+		from: timestampSchema,
+		to: timestampSchema,
+	}),
+	handler: async ({ env, principal, query }) => {
+		const target = normalizeCertificateTarget(query.host, query.port, query);
+		const page = await storeFor(env, principal.workspace, target.key).getHistory({
+			from: query.from,
+			to: query.to,
+			limit: query.limit,
+			offset: query.offset,
+		});
+
+		return Response.json({ host: target.host, port: target.port, ip: target.ip ?? null, servername: target.servername ?? target.host, ...page });
+	},
+});
+
+router.route({
+	method: "GET",
+	path: "/api/certificates/diff",
+	access: "workspace",
+	summary: "What changed between two stored inspections",
+	description: "Without ids, the latest inspection is compared with the one before it.",
+	tags: ["certificates"],
+	query: object({
+		...targetFields,
+		from: optional(integer({ minimum: 1, description: "An inspection id from the history" })),
+		to: optional(integer({ minimum: 1, description: "An inspection id from the history" })),
+	}),
+	responses: { 200: "The changes", 404: "One of the inspections does not exist" },
+	handler: async ({ env, principal, query }) => {
+		const target = normalizeCertificateTarget(query.host, query.port, query);
+		const store = storeFor(env, principal.workspace, target.key);
+
+		const after = query.to !== undefined ? await store.getInspection(query.to) : await store.getStoredInspection();
+		if (!after) {
+			return Response.json({ error: "The inspection to compare to does not exist for this host and port." }, { status: 404 });
+		}
+
+		const before = query.from !== undefined ? await store.getInspection(query.from) : await store.getPreviousInspection(after.id);
+		if (!before) {
+			return Response.json({ error: "The inspection to compare from does not exist for this host and port." }, { status: 404 });
+		}
+
+		return Response.json({
+			host: target.host,
+			port: target.port,
+			from: { id: before.id, storedAt: before.storedAt },
+			to: { id: after.id, storedAt: after.storedAt },
+			changes: diffCertificates(before.result, after.result),
+		});
+	},
+});
+
+router.route({
+	method: "POST",
+	path: "/api/certificates/monitors",
+	access: "workspace",
+	summary: "Start or update monitoring of a target",
+	tags: ["monitors"],
+	body: object({
+		host: hostSchema,
+		port: portSchema,
+		protocol: protocolSchema,
+		intervalMinutes: optional(integer({ minimum: MIN_MONITOR_INTERVAL_MINUTES, maximum: MAX_MONITOR_INTERVAL_MINUTES })),
+		thresholds: optional(
+			array(integer({ minimum: 0, maximum: MAX_ALERT_THRESHOLD_DAYS }), { minItems: 1, description: "Days before expiry to alert at" })
+		),
+		rules: optional(
+			custom({ type: "object", description: "Finding rule configuration" }, (value, fail) => {
+				const rules = parseFindingRules(value);
+				return typeof rules === "string" ? fail(rules) : rules;
+			})
+		),
+	}),
+	responses: { 201: "The monitor" },
+	handler: async ({ env, principal, body }) => {
+		const { workspace } = principal;
+		const target = normalizeCertificateTarget(body.host, body.port);
+		const monitor = await storeFor(env, workspace, target.key).startMonitoring(workspace, target.host, target.port, {
+			protocol: body.protocol,
+			intervalMinutes: body.intervalMinutes,
+			thresholds: body.thresholds ? normalizeAlertThresholds(body.thresholds) : undefined,
+			rules: body.rules,
+		});
+
+		return Response.json(monitor, { status: 201 });
+	},
+});
+
+router.route({
+	method: "DELETE",
+	path: "/api/certificates/monitors",
+	access: "workspace",
+	summary: "Stop monitoring a target",
+	tags: ["monitors"],
+	query: object({ host: hostSchema, port: portSchema }),
+	responses: { 200: "The stopped monitor", 404: "The target is not being monitored" },
+	handler: async ({ env, principal, query }) => {
+		const target = normalizeCertificateTarget(query.host, query.port);
+		const monitor = await storeFor(env, principal.workspace, target.key).stopMonitoring();
+
+		if (!monitor) {
+			return Response.json({ error: "This host and port is not being monitored." }, { status: 404 });
+		}
+
+		return Response.json(monitor);
+	},
+});
+
+router.route({
+	method: "GET",
+	path: "/api/certificates/monitors",
+	access: "workspace",
+	summary: "List the workspace's monitors",
+	tags: ["monitors"],
+	handler: async ({ env, principal }) => Response.json({ monitors: await monitorRegistryFor(env).listMonitors(principal.workspace) }),
+});
+
+router.route({
+	method: "GET",
+	path: "/api/exports/inventory.csv",
+	access: "workspace",
+	summary: "Every target with its latest inspection, as CSV",
+	description: "One row per target the workspace has inspected or monitors, with a header row.",
+	tags: ["exports"],
+	responses: { 200: "The inventory as text/csv" },
+	handler: async ({ env, principal }) =>
+		new Response(toInventoryCsv(await monitorRegistryFor(env).listInventory(principal.workspace)), {
+			headers: {
+				"content-type": "text/csv; charset=utf-8",
+				"content-disposition": 'attachment; filename="certificates.csv"',
+			},
+		}),
+});
+
+router.route({
+	method: "GET",
+	path: "/api/exports/inventory.ndjson",
+	access: "workspace",
+	summary: "Every target with its latest inspection, as JSON Lines",
+	description: "One object per line per target the workspace has inspected or monitors, holding its monitor and whole latest inspection.",
+	tags: ["exports"],
+	responses: { 200: "The inventory as application/x-ndjson" },
+	handler: async ({ env, principal }) => {
+		const inventory = await monitorRegistryFor(env).listInventory(principal.workspace);
+		// The registry only keeps a summary, so the whole inspection comes from each target's store
+		const entries = await mapWithConcurrency(inventory, STORE_CONCURRENCY, async (entry) => {
+			if (!entry.inspection) {
+				return { ...entry, inspection: null };
+			}
+			const pinning = { ip: entry.ip ?? undefined, servername: entry.servername ?? undefined };
+			const target = normalizeCertificateTarget(entry.host, entry.port, pinning);
+			return { ...entry, inspection: await storeFor(env, principal.workspace, target.key).getStoredInspection() };
+		});
+
+		return new Response(toInventoryNdjson(entries), {
+			headers: {
+				"content-type": "application/x-ndjson; charset=utf-8",
+				"content-disposition": 'attachment; filename="certificates.ndjson"',
+			},
+		});
+	},
+});
+
+const calendarQueryFields = {
+	reminders: reminderDaysSchema,
+	domain: optional(domainSchema),
+};
+
+router.route({
+	method: "POST",
+	path: "/api/certificates/calendar-feed",
+	access: "workspace",
+	summary: "A calendar feed URL that needs no API key",
+	description:
+		"Calendar clients cannot send an API key or a session cookie, so the URL carries a signed token for the key's workspace instead. " +
+		"The token stops working when the key is revoked. The reminders and domain are carried into the URL.",
+	tags: ["exports"],
+	query: object(calendarQueryFields),
+	responses: { 200: "The feed URL", 501: "Signed URLs are not enabled" },
+	handler: async ({ env, url, principal, query }) => {
+		if (!env.SESSION_SECRET) {
+			return Response.json({ error: "Signed URLs are not enabled." }, { status: 501 });
+		}
+
+		const feed = new URL("/api/certificates/calendar.ics", url.origin);
+		feed.searchParams.set("token", await signFeedToken(principal.workspace, principal.keyId, env.SESSION_SECRET));
+		if (query.reminders) {
+			feed.searchParams.set("reminders", query.reminders.join(","));
+		}
+		if (query.domain) {
+			feed.searchParams.set("domain", query.domain);
+		}
+
+		return Response.json({ url: feed.toString() });
+	},
+});
+
+// Public so calendar clients can fetch it with a feed token; without one it takes an API key or session as usual
+router.route({
+	method: "GET",
+	path: "/api/certificates/calendar.ics",
+	access: "public",
+	summary: "When each monitored certificate expires, as an iCalendar feed",
+	description:
+		"One all-day event per monitored target on the day its latest inspection's certificate expires, for the key's workspace. " +
+		"Event UIDs follow the certificate's fingerprint, so a renewal replaces the event on the next refresh. " +
+		"Monitors have no tags, so a feed is narrowed by domain instead.",
+	tags: ["exports"],
+	query: object({ ...calendarQueryFields, token: optional(string({ description: "A token from POST /api/certificates/calendar-feed" })) }),
+	responses: {
+		200: "The calendar as text/calendar",
+		401: "Neither a valid feed token nor an API key or session was sent",
+		403: "The admin key was used",
+	},
+	handler: async ({ request, env, query }) => {
+		const principal =
+			query.token !== undefined ? await authenticateFeedToken(query.token, env) : await authorize(request, env, "workspace");
+		if (principal instanceof Response) {
+			return principal;
+		}
+		if (principal?.kind !== "workspace") {
+			return Response.json({ error: "The feed token is not valid." }, { status: 401 });
+		}
+
+		const inventory = await monitorRegistryFor(env).listInventory(principal.workspace);
+		const { domain } = query;
+		const entries = domain ? inventory.filter((entry) => isUnderDomain(entry.servername ?? entry.host, domain)) : inventory;
+
+		return new Response(toInventoryCalendar(entries, query.reminders), {
+			headers: {
+				"content-type": "text/calendar; charset=utf-8",
+				"content-disposition": 'attachment; filename="certificates.ics"',
+			},
+		});
+	},
+});
+
+// Scrapers send the API key as a bearer token, like any other client
+router.route({
+	method: "GET",
+	path: "/metrics",
+	access: "workspace",
+	summary: "Per-target gauges in the Prometheus text format",
+	description: "Seconds until expiry, authorized status, the last inspection's time and duration, findings and failed monitor checks.",
+	tags: ["exports"],
+	responses: { 200: "The metrics as text/plain; version=0.0.4" },
+	handler: async ({ env, principal }) =>
+		new Response(toPrometheusMetrics(await monitorRegistryFor(env).listInventory(principal.workspace)), {
+			headers: { "content-type": "text/plain; version=0.0.4; charset=utf-8" },
+		}),
+});
+
+router.route({
+	method: "GET",
+	path: "/api/certificates/alerts",
+	access: "workspace",
+	summary: "A target's most recent alerts",
+	tags: ["monitors"],
+	query: object({
+		...targetFields,
+		limit: withDefault(integer({ minimum: 1, maximum: MAX_HISTORY_PAGE_SIZE }), DEFAULT_HISTORY_PAGE_SIZE),
+	}),
+	handler: async ({ env, principal, query }) => {
+		const target = normalizeCertificateTarget(query.host, query.port, query);
+		const alerts = await storeFor(env, principal.workspace, target.key).getAlerts(query.limit);
+
+		return Response.json({ host: target.host, port: target.port, alerts });
+	},
+});
+
+function transparencyStoreFor(env: Cloudflare.Env, workspace: string, domain: string) {
+	return env.CERTIFICATE_TRANSPARENCY_STORE.get(env.CERTIFICATE_TRANSPARENCY_STORE.idFromName(workspaceObjectName(workspace, domain)));
+}
+
+router.route({
+	method: "POST",
+	path: "/api/transparency/lookup",
+	access: "workspace",
+	summary: "Look up the certificates logged for a domain and its subdomains",
+	description:
+		"Searches certificate transparency logs for unexpired certificates and compares them with what the workspace's targets under the domain serve. " +
+		"A certificate never seen deployed is reported as `unknown`.",
+	tags: ["transparency"],
+	body: object({ domain: domainSchema }),
+	responses: { 200: "The stored lookup and what changed since the previous one", 429: "The rate limit was reached", 502: "The log search failed" },
+	handler: async ({ env, principal, body }) => {
+		const limited = await enforceRateLimit(env, principal, 1);
+		if (limited) {
+			return limited;
+		}
+
+		const source = ctLogSourceFor(env);
+		let search: CtSearchResult;
+		try {
+			search = await source.search(body.domain);
+		} catch (error) {
+			if (error instanceof CtLogError) {
+				return Response.json({ error: error.message }, { status: 502 });
+			}
+			throw error;
+		}
+
+		const inventory = await monitorRegistryFor(env).listInventory(principal.workspace);
+		const served = servedSerialNumbers(inventory, body.domain);
+		const store = transparencyStoreFor(env, principal.workspace, body.domain);
+
+		return Response.json(await store.saveLookup(body.domain, source.name, search, served));
+	},
+});
+
+router.route({
+	method: "GET",
+	path: "/api/transparency/result",
+	access: "workspace",
+	summary: "The latest stored lookup for a domain",
+	tags: ["transparency"],
+	query: object({ domain: domainSchema }),
+	responses: { 200: "The stored lookup", 404: "The domain has not been looked up" },
+	handler: async ({ env, principal, query }) => {
+		const lookup = await transparencyStoreFor(env, principal.workspace, query.domain).getLatestLookup();
+		if (!lookup) {
+			return Response.json({ error: "No stored lookup exists for this domain." }, { status: 404 });
+		}
+
+		return Response.json(lookup);
+	},
+});
+
+router.route({
+	method: "GET",
+	path: "/api/transparency/history",
+	access: "workspace",
+	summary: "A page of a domain's stored lookups",
+	tags: ["transparency"],
+	query: object({
+		domain: domainSchema,
+		limit: withDefault(integer({ minimum: 1, maximum: MAX_HISTORY_PAGE_SIZE }), DEFAULT_HISTORY_PAGE_SIZE),
+		offset: withDefault(integer({ minimum: 0 }), 0),
+	}),
+	handler: async ({ env, principal, query }) => {
+		const store = transparencyStoreFor(env, principal.workspace, query.domain);
+		return Response.json({ domain: query.domain, ...(await store.getHistory({ limit: query.limit, offset: query.offset })) });
+	},
+});
+
+router.route({
+	method: "GET",
+	path: "/api/transparency/diff",
+	access: "workspace",
+	summary: "Which certificates were logged or dropped between two stored lookups",
+	description: "Without ids, the latest lookup is compared with the one before it.",
+	tags: ["transparency"],
+	query: object({
+		domain: domainSchema,
+		from: optional(integer({ minimum: 1, description: "A lookup id from the history" })),
+		to: optional(integer({ minimum: 1, description: "A lookup id from the history" })),
+	}),
+	responses: { 200: "The changes", 404: "One of the lookups does not exist" },
+	handler: async ({ env, principal, query }) => {
+		const store = transparencyStoreFor(env, principal.workspace, query.domain);
+
+		const after = query.to !== undefined ? await store.getLookup(query.to) : await store.getLatestLookup();
+		if (!after) {
+			return Response.json({ error: "The lookup to compare to does not exist for this domain." }, { status: 404 });
+		}
+
+		const before = query.from !== undefined ? await store.getLookup(query.from) : await store.getPreviousLookup(after.id);
+		if (!before) {
+			return Response.json({ error: "The lookup to compare from does not exist for this domain." }, { status: 404 });
+		}
+
+		return Response.json({
+			domain: query.domain,
+			from: { id: before.id, lookedUpAt: before.lookedUpAt },
+			to: { id: after.id, lookedUpAt: after.lookedUpAt },
+			changes: diffCtLookups(before, after),
+		});
+	},
+});
+
+const subscriptionTargetsSchema = array(object({ host: hostSchema, port: portSchema }), { minItems: 1 });
+
+async function updateAlertSubscriptions(
+	{ env, principal }: RouteInput<"workspace", unknown, unknown>,
+	endpoint: string,
+	requested: CertificateTarget[],
+	subscription: PushSubscription | null
+): Promise<Response> {
+	const { workspace } = principal;
+	const targets = requested.map((target) => normalizeCertificateTarget(target.host, target.port));
+	const stub = env.MY_DURABLE_OBJECT.get(env.MY_DURABLE_OBJECT.idFromName(workspaceObjectName(workspace, subscriptionObjectName(endpoint))));
+
+	if (subscription) {
+		await stub.saveSubscription(workspace, subscription);
+	}
+
+	for (const target of targets) {
+		const store = storeFor(env, workspace, target.key);
+		if (subscription) {
+			await store.addAlertSubscriber(workspace, endpoint);
+		} else {
+			await store.removeAlertSubscriber(endpoint);
+		}
+	}
+
+	if (subscription) {
+		await stub.watchCertificates(workspace, targets);
+	} else {
+		await stub.unwatchCertificates(workspace, targets);
+	}
+
+	return Response.json({ endpoint, targets: await stub.listWatchedCertificates() });
+}
+
+router.route({
+	method: "POST",
+	path: "/api/certificates/subscriptions",
+	access: "workspace",
+	summary: "Send a push subscription alerts for the given targets",
+	tags: ["subscriptions"],
+	body: object({ subscription: pushSubscriptionSchema, targets: subscriptionTargetsSchema }),
+	handler: (input) => updateAlertSubscriptions(input, input.body.subscription.endpoint, input.body.targets, input.body.subscription),
+});
+
+router.route({
+	method: "DELETE",
+	path: "/api/certificates/subscriptions",
+	access: "workspace",
+	summary: "Stop sending a push subscription alerts for the given targets",
+	tags: ["subscriptions"],
+	body: refine(
+		object({ subscription: optional(pushSubscriptionSchema), endpoint: optional(string()), targets: subscriptionTargetsSchema }),
+		(body) => (body.subscription || body.endpoint ? null : "The request body must include the subscription endpoint.")
+	),
+	handler: (input) => {
+		const { subscription, endpoint, targets } = input.body;
+		return updateAlertSubscriptions(input, subscription?.endpoint ?? endpoint ?? "", targets, null);
+	},
+});
+
+function webhookStoreFor(env: Cloudflare.Env, workspace: string) {
+	return env.WEBHOOK_STORE.get(env.WEBHOOK_STORE.idFromName(workspaceObjectName(workspace, WEBHOOK_STORE_NAME)));
+}
+
+const webhookParamsSchema = object({ id: integer({ minimum: 1 }) });
+
+router.route({
+	method: "POST",
+	path: "/api/webhooks",
+	access: "workspace",
+	summary: "Register a webhook",
+	description:
+		"Receives a JSON POST for each subscribed event on the workspace's monitored targets. With a secret, every delivery is signed: " +
+		"`x-webhook-signature` is `sha256=` and the hex HMAC-SHA256 of `<x-webhook-timestamp>.<body>`.",
+	tags: ["webhooks"],
+	body: object({
+		url: custom({ type: "string", format: "uri" }, (value, fail) =>
+			typeof value === "string" && URL.canParse(value) && new URL(value).protocol === "https:" ? value : fail("The url must be an https URL.")
+		),
+		secret: optional(string({ minLength: MIN_WEBHOOK_SECRET_LENGTH, maxLength: MAX_WEBHOOK_SECRET_LENGTH })),
+		events: withDefault(array(oneOf(WEBHOOK_EVENTS), { minItems: 1 }), [...WEBHOOK_EVENTS]),
+		description: optional(string({ maxLength: MAX_WEBHOOK_DESCRIPTION_LENGTH })),
+	}),
+	responses: { 201: "The webhook" },
+	handler: async ({ env, principal, body }) => {
+		const webhook = await webhookStoreFor(env, principal.workspace).createWebhook({
+			url: body.url,
+			secret: body.secret,
+			events: [...new Set(body.events)],
+			description: body.description?.trim(),
+		});
+
+		return Response.json(webhook, { status: 201 });
+	},
+});
+
+router.route({
+	method: "GET",
+	path: "/api/webhooks",
+	access: "workspace",
+	summary: "List the workspace's webhooks",
+	tags: ["webhooks"],
+	handler: async ({ env, principal }) => Response.json({ webhooks: await webhookStoreFor(env, principal.workspace).listWebhooks() }),
+});
+
+router.route({
+	method: "DELETE",
+	path: "/api/webhooks/:id",
+	access: "workspace",
+	summary: "Delete a webhook and anything still queued for it",
+	tags: ["webhooks"],
+	params: webhookParamsSchema,
+	responses: { 200: "The deleted webhook", 404: "No webhook with this id exists" },
+	handler: async ({ env, principal, params }) => {
+		const webhook = await webhookStoreFor(env, principal.workspace).deleteWebhook(params.id);
+		if (!webhook) {
+			return Response.json({ error: "No webhook with this id exists." }, { status: 404 });
+		}
+
+		return Response.json(webhook);
+	},
+});
+
+router.route({
+	method: "POST",
+	path: "/api/webhooks/:id/test",
+	access: "workspace",
+	summary: "Send a webhook.test event now",
+	description: "Makes a single attempt, without retries, and reports how the receiver answered.",
+	tags: ["webhooks"],
+	params: webhookParamsSchema,
+	responses: { 200: "The delivery attempt", 404: "No webhook with this id exists" },
+	handler: async ({ env, principal, params }) => {
+		const attempt = await webhookStoreFor(env, principal.workspace).testWebhook(params.id);
+		if (!attempt) {
+			return Response.json({ error: "No webhook with this id exists." }, { status: 404 });
+		}
+
+		return Response.json(attempt);
+	},
+});
+
+router.route({
+	method: "GET",
+	path: "/api/webhooks/:id/deliveries",
+	access: "workspace",
+	summary: "A webhook's most recent delivery attempts",
+	tags: ["webhooks"],
+	params: webhookParamsSchema,
+	query: object({ limit: withDefault(integer({ minimum: 1, maximum: MAX_HISTORY_PAGE_SIZE }), DEFAULT_HISTORY_PAGE_SIZE) }),
+	responses: { 200: "The delivery log, newest first", 404: "No webhook with this id exists" },
+	handler: async ({ env, principal, params, query }) => {
+		const deliveries = await webhookStoreFor(env, principal.workspace).getDeliveries(params.id, query.limit);
+		if (!deliveries) {
+			return Response.json({ error: "No webhook with this id exists." }, { status: 404 });
+		}
+
+		return Response.json({ id: params.id, deliveries });
+	},
+});
+
+function subscriptionFor(env: Cloudflare.Env, workspace: string, endpoint: string) {
+	return env.MY_DURABLE_OBJECT.get(env.MY_DURABLE_OBJECT.idFromName(workspaceObjectName(workspace, subscriptionObjectName(endpoint))));
+}
+
+const notificationUrlSchema = custom(
+	{ type: "string", description: "Opened when the notification is clicked; a path or an https URL" },
+	(value, fail) =>
+		typeof value === "string" && (/^\/(?!\/)/.test(value) || (URL.canParse(value) && new URL(value).protocol === "https:"))
+			? value
+			: fail("The url must be a path on this site or an https URL.")
+);
+
+router.route({
+	method: "POST",
+	path: "/api/notifications",
+	access: "workspace",
+	summary: "Send a push notification",
+	description:
+		"Goes to one subscription by its endpoint, to every subscription tagged with a topic, " +
+		"or with `broadcast` to all of the workspace's subscriptions. " +
+		"With `sendAt` it is held until then; the recipients are those subscribed when the request is made.",
+	tags: ["push"],
+	body: refine(
+		object({
+			title: string({ maxLength: MAX_NOTIFICATION_TITLE_LENGTH }),
+			body: optional(string({ maxLength: MAX_NOTIFICATION_BODY_LENGTH })),
+			url: optional(notificationUrlSchema),
+			data: optional(
+				custom({ type: "object", description: "Passed to the service worker as is" }, (value, fail) =>
+					value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : fail("The data must be an object.")
+				)
+			),
+			endpoint: optional(string()),
+			topic: optional(topicSchema),
+			broadcast: optional(boolean()),
+			sendAt: optional(
+				custom({ type: "string", format: "date-time" }, (value, fail) => {
+					const sendAt = typeof value === "string" ? Date.parse(value) : Number.NaN;
+					return Number.isNaN(sendAt) ? fail("The sendAt must be a valid date.") : sendAt;
+				})
+			),
+			ttl: optional(
+				integer({ minimum: 0, maximum: MAX_PUSH_TTL_SECONDS, description: "Seconds the push service keeps the message for an offline device" })
+			),
+			urgency: optional(oneOf(PUSH_URGENCIES)),
+		}),
+		(body) =>
+			[body.endpoint, body.topic, body.broadcast || undefined].filter((audience) => audience !== undefined).length === 1
+				? null
+				: "Pass exactly one of an endpoint, a topic or broadcast: true."
+	),
+	responses: {
+		202: "The number of subscriptions the notification was queued for",
+		404: "No subscription exists for this endpoint",
+		413: "The notification is too large to push",
+	},
+	handler: async ({ env, principal, body }) => {
+		const { workspace } = principal;
+		const message: PushMessage = {
+			type: "message",
+			title: body.title.trim(),
+			body: body.body ?? null,
+			url: body.url ?? null,
+			data: body.data ?? null,
+		};
+
+		if (new TextEncoder().encode(JSON.stringify(message)).length > MAX_PUSH_PAYLOAD_BYTES) {
+			return Response.json({ error: `The notification can be at most ${MAX_PUSH_PAYLOAD_BYTES} bytes as JSON.` }, { status: 413 });
+		}
+
+		const delivery: PushDelivery = { sendAt: Math.max(body.sendAt ?? 0, Date.now()), ttl: body.ttl, urgency: body.urgency };
+
+		let recipients: number;
+		if (body.endpoint !== undefined) {
+			if (!(await subscriptionFor(env, workspace, body.endpoint).queueMessage(message, delivery))) {
+				return Response.json({ error: "No subscription exists for this endpoint." }, { status: 404 });
+			}
+			recipients = 1;
+		} else {
+			const directoryId = env.SUBSCRIPTION_DIRECTORY.idFromName(workspaceObjectName(workspace, SUBSCRIPTION_DIRECTORY_NAME));
+			recipients = await env.SUBSCRIPTION_DIRECTORY.get(directoryId).send(message, delivery, body.topic);
+		}
+
+		return Response.json({ recipients, sendAt: new Date(delivery.sendAt).toISOString() }, { status: 202 });
+	},
+});
+
+router.route({
+	method: "PUT",
+	path: "/api/notifications/topics",
+	access: "workspace",
+	summary: "Replace the topics a push subscription is tagged with",
+	tags: ["push"],
+	body: object({ endpoint: string(), topics: topicsSchema }),
+	responses: { 200: "The subscription's topics", 404: "No subscription exists for this endpoint" },
+	handler: async ({ env, principal, body }) => {
+		const topics = [...new Set(body.topics)];
+		if (!(await subscriptionFor(env, principal.workspace, body.endpoint).setTopics(body.endpoint, topics))) {
+			return Response.json({ error: "No subscription exists for this endpoint." }, { status: 404 });
+		}
+
+		return Response.json({ endpoint: body.endpoint, topics });
+	},
+});
+
+router.route({
+	method: "POST",
+	path: "/subscribe",
+	access: "workspace",
+	summary: "Register a push subscription",
+	tags: ["push"],
+	body: subscribeSchema,
+	handler: async ({ env, principal, body: { subscription: jsonBody, topics } }) => {
+		console.log("Subscribe endpoint called");
+
+		const md5 = subscriptionObjectName(jsonBody.endpoint);
+		console.log("MD5 of endpoint:", md5);
+
+		// Create a `DurableObjectId` for an instance of the `MyDurableObject`
+		// class named "foo". Requests from all Workers to the instance named
+		// "foo" will go to a single globally unique Durable Object instance.
+		const id: DurableObjectId = env.MY_DURABLE_OBJECT.idFromName(workspaceObjectName(principal.workspace, md5));
+
+		// Create a stub to open a communication channel with the Durable
+		// Object instance.
+		const stub = env.MY_DURABLE_OBJECT.get(id);
+
+		await stub.registerNotification(principal.workspace, jsonBody, topics);
+		return new Response("Subscribed (log written)");
+	},
+});
+
+router.route({
+	method: "POST",
+	path: "/unsubscribe",
+	access: "workspace",
+	summary: "Remove a push subscription",
+	tags: ["push"],
+	body: object({ endpoint: string() }),
+	responses: { 200: "The subscription was removed", 404: "No subscription exists for this endpoint" },
+	handler: async ({ env, principal, body }) => {
+		const stub = env.MY_DURABLE_OBJECT.get(
+			env.MY_DURABLE_OBJECT.idFromName(workspaceObjectName(principal.workspace, subscriptionObjectName(body.endpoint)))
+		);
+		const removed = await stub.unregisterNotification(body.endpoint);
+
+		if (!removed) {
+			return Response.json({ error: "No subscription exists for this endpoint." }, { status: 404 });
+		}
+
+		return new Response("Unsubscribed");
+	},
+});
+
 /**
  * Welcome to Cloudflare Workers! This is your first Durable Objects application.
  *
@@ -29,101 +1248,46 @@ export default {
 	 * @returns The response to be sent back to the client
 	 */
 	async fetch(request: Request, env: Cloudflare.Env, ctx: ExecutionContext): Promise<Response> {
+		const routed = await router.handle(request, env, ctx);
+		if (routed) {
+			return routed;
+		}
 
 		// Parse the 'name' parameter from the request URL
 		const url = new URL(request.url);
 		const name = url.searchParams.get("name") || "world";
 
-
-		const pathname = url.pathname;
-		if (pathname === "/api/certificates/inspect" && request.method === "POST") {
-			const body = await request.json<{ host?: string; port?: number }>();
-			const host = typeof body.host === "string" ? body.host : "";
-			const port = typeof body.port === "number" && Number.isInteger(body.port) ? body.port : 443;
-
-			if (!host.trim()) {
-				return Response.json({ error: "The request body must include a host." }, { status: 400 });
-			}
-
-			if (port < 1 || port > 65535) {
-				return Response.json({ error: "The requested port must be between 1 and 65535." }, { status: 400 });
-			}
-
-			const target = normalizeCertificateTarget(host, port);
-			const inspectorId = env.CERTIFICATE_INSPECTOR.idFromName(CERTIFICATE_INSPECTOR_SINGLETON);
-			const inspector = env.CERTIFICATE_INSPECTOR.get(inspectorId);
-			const result = await inspector.inspectCertificate(target.host, target.port);
-			const storeId = env.CERTIFICATE_INSPECTION_STORE.idFromName(target.key);
-			const store = env.CERTIFICATE_INSPECTION_STORE.get(storeId);
-			const storedInspection = await store.saveInspection(target.host, target.port, result);
-
-			return Response.json(storedInspection);
-		}
-		else if (pathname === "/api/certificates/result" && request.method === "GET") {
-			const host = url.searchParams.get("host") || "";
-			const parsedPort = Number.parseInt(url.searchParams.get("port") || "443", 10);
-
-			if (!host.trim()) {
-				return Response.json({ error: "The host query parameter is required." }, { status: 400 });
-			}
-
-			if (!Number.isInteger(parsedPort) || parsedPort < 1 || parsedPort > 65535) {
-				return Response.json({ error: "The port query parameter must be between 1 and 65535." }, { status: 400 });
-			}
-
-			const target = normalizeCertificateTarget(host, parsedPort);
-			const storeId = env.CERTIFICATE_INSPECTION_STORE.idFromName(target.key);
-			const store = env.CERTIFICATE_INSPECTION_STORE.get(storeId);
-			const result = await store.getStoredInspection();
-
-			if (!result) {
-				return Response.json({ error: "No stored inspection exists for this host and port." }, { status: 404 });
-			}
-
-			return Response.json(result);
+		if (url.pathname.startsWith("/api/")) {
+			return Response.json({ error: "No route matches this path." }, { status: 404 });
 		}
-		else if (pathname === "/subscribe") {
-			console.log("Subscribe endpoint called");
-
-			const jsonBody = await request.json<PushSubscription>();
-
-			const md5 = createHash('md5').update(jsonBody.endpoint, 'utf8').digest('hex');
-			console.log("MD5 of endpoint:", md5);
-
-			// Create a `DurableObjectId` for an instance of the `MyDurableObject`
-			// class named "foo". Requests from all Workers to the instance named
-			// "foo" will go to a single globally unique Durable Object instance.
-			const id: DurableObjectId = env.MY_DURABLE_OBJECT.idFromName(md5);
 
-			// Create a stub to open a communication channel with the Durable
-			// Object instance.
-			const stub = env.MY_DURABLE_OBJECT.get(id);
-
-			await stub.registerNotification(jsonBody);
-			return new Response("Subscribed (log written)");
-		}
-		else if (pathname === "/vapidPublicKey") {
-			return new Response(env.VAPID_PUBLIC_KEY);
+		const principal = await authorize(request, env, "workspace");
+		if (principal instanceof Response) {
+			return principal;
 		}
-		else {
 
-			// Create a `DurableObjectId` for an instance of the `MyDurableObject`
-			// class named "foo". Requests from all Workers to the instance named
-			// "foo" will go to a single globally unique Durable Object instance.
-			const id: DurableObjectId = env.MY_DURABLE_OBJECT.idFromName(name);
+		// Create a `DurableObjectId` for an instance of the `MyDurableObject`
+		// class named "foo". Requests from all Workers to the instance named
+		// "foo" will go to a single globally unique Durable Object instance.
+		const id: DurableObjectId = env.MY_DURABLE_OBJECT.idFromName(workspaceObjectName(principal.workspace, name));
 
-			// Create a stub to open a communication channel with the Durable
-			// Object instance.
-			const stub = env.MY_DURABLE_OBJECT.get(id);
-			// Call the `sayHello()` RPC method on the stub to invoke the method on
-			// the remote Durable Object instance
-			const greeting = await stub.sayHello(name);
+		// Create a stub to open a communication channel with the Durable
+		// Object instance.
+		const stub = env.MY_DURABLE_OBJECT.get(id);
+		// Call the `sayHello()` RPC method on the stub to invoke the method on
+		// the remote Durable Object instance
+		const greeting = await stub.sayHello(name);
 
-			return new Response(greeting);
-		}
+		return new Response(greeting);
 	},
 } satisfies ExportedHandler<Cloudflare.Env>;
 
 export { CertificateInspectorContainer } from "./CertificateInspectorContainer";
 export { CertificateInspectionStore } from "./CertificateInspectionStore";
+export { CertificateMonitorRegistry } from "./CertificateMonitorRegistry";
+export { ApiKeyStore } from "./ApiKeyStore";
+export { RateLimiter } from "./RateLimiter";
+export { WebhookStore } from "./WebhookStore";
+export { CertificateTransparencyStore } from "./CertificateTransparencyStore";
+export { SubscriptionDirectory } from "./SubscriptionDirectory";
 export { MyDurableObject } from "./MyDurableObject";
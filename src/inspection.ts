@@ -0,0 +1,230 @@
+import {
+	type BatchInspectionOutcome,
+	type CertificateDetails,
+	type CertificateTarget,
+	type InspectionEngine,
+	type InspectOptions,
+	CERTIFICATE_INSPECTOR_SINGLETON,
+	INSPECTION_FAILED_PREFIX,
+	INSPECTOR_UNAVAILABLE_PREFIX,
+	targetNotAllowedReason,
+} from "./certificates";
+import { mapWithConcurrency } from "./concurrency";
+import { inspectInWorker, workerInspectionUnsupported } from "./workerInspection";
+
+const DEFAULT_INSPECTOR_TIMEOUT_SECONDS = 60;
+const DEFAULT_INSPECTOR_RETRIES = 1;
+const RETRY_DELAY_MS = 1000;
+
+/** The container's own default for how many batch targets it inspects at once */
+const DEFAULT_BATCH_CONCURRENCY = 8;
+
+/** The container inspects at most 16 addresses, 8 at a time */
+const ADDRESS_WAVES = 2;
+
+/** Worker inspections hold a socket each, so a batch falls back to a few at a time */
+const WORKER_FALLBACK_CONCURRENCY = 4;
+
+/** A deep scan makes a handshake per TLS version and cipher suite, so it gets this many times as long */
+const DEEP_SCAN_TIMEOUT_FACTOR = 5;
+
+export type InspectorSettings = {
+	/** How long to wait for the container to answer, cold start included */
+	timeoutMs: number;
+	/** How many more times to ask the container after it fails to answer, unless it timed out */
+	retries: number;
+	/** Whether to inspect in the worker once the container has failed every attempt */
+	fallback: boolean;
+};
+
+export type InspectionOutcome = {
+	result: CertificateDetails;
+	engine: InspectionEngine;
+	/** How many times the container was asked */
+	attempts: number;
+	/** Milliseconds the whole inspection took, retries and fallback included */
+	durationMs: number;
+};
+
+/** Reads `INSPECTOR_TIMEOUT_SECONDS`, `INSPECTOR_RETRIES` and `INSPECTOR_FALLBACK`, falling back to the defaults */
+export function inspectorSettingsFor(env: Cloudflare.Env): InspectorSettings {
+	const timeoutSeconds = Number(env.INSPECTOR_TIMEOUT_SECONDS);
+	const retries = Number.parseInt(env.INSPECTOR_RETRIES, 10);
+
+	return {
+		timeoutMs: (Number.isFinite(timeoutSeconds) && timeoutSeconds > 0 ? timeoutSeconds : DEFAULT_INSPECTOR_TIMEOUT_SECONDS) * 1000,
+		retries: Number.isInteger(retries) && retries >= 0 ? retries : DEFAULT_INSPECTOR_RETRIES,
+		fallback: env.INSPECTOR_FALLBACK === "worker",
+	};
+}
+
+/**
+ * Whether the error is the inspector's answer about the target, such as a refused host or a
+ * connection the target reset. Asking again or inspecting elsewhere would not change that answer.
+ */
+function isInspectorAnswer(error: unknown): boolean {
+	const message = error instanceof Error ? error.message : String(error);
+	return targetNotAllowedReason(error) !== null || message.startsWith(INSPECTION_FAILED_PREFIX);
+}
+
+/** Thrown when the container has not answered in time; it may still be working, so it is not asked again */
+class InspectorTimeoutError extends Error {
+	override name = "InspectorTimeoutError";
+}
+
+/** The RPC itself cannot be cancelled, so a late answer is simply ignored */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(
+			() => reject(new InspectorTimeoutError(`${INSPECTOR_UNAVAILABLE_PREFIX}No answer within ${timeoutMs / 1000} seconds.`)),
+			timeoutMs
+		);
+	});
+
+	return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function inspectorFor(env: Cloudflare.Env) {
+	return env.CERTIFICATE_INSPECTOR.get(env.CERTIFICATE_INSPECTOR.idFromName(CERTIFICATE_INSPECTOR_SINGLETON));
+}
+
+function withEngine(result: CertificateDetails): CertificateDetails {
+	return { ...result, engine: "container" };
+}
+
+type InspectorAttempts<T> = { ok: true; value: T; attempts: number } | { ok: false; error: unknown; attempts: number };
+
+/**
+ * Asks the container, again when it fails to answer, e.g. while it starts or after it crashed. A
+ * container that timed out may still be working on the request, so it is not asked again and the
+ * attempts stop there. The inspector's own answers about the target are thrown as they are.
+ */
+async function askInspector<T>(
+	env: Cloudflare.Env,
+	settings: InspectorSettings,
+	timeoutMs: number,
+	label: string,
+	call: (inspector: ReturnType<typeof inspectorFor>) => Promise<T>
+): Promise<InspectorAttempts<T>> {
+	const inspector = inspectorFor(env);
+
+	for (let attempt = 1; ; attempt++) {
+		if (attempt > 1) {
+			await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * (attempt - 1)));
+		}
+
+		try {
+			return { ok: true, value: await withTimeout(call(inspector), timeoutMs), attempts: attempt };
+		} catch (error) {
+			if (isInspectorAnswer(error)) {
+				throw error;
+			}
+
+			const message = error instanceof Error ? error.message : String(error);
+			console.error("Certificate inspector did not answer:", label, attempt, message);
+			if (error instanceof InspectorTimeoutError || attempt > settings.retries) {
+				return { ok: false, error, attempts: attempt };
+			}
+		}
+	}
+}
+
+/**
+ * Inspects through the container, asking again when it does not answer. Once it has failed, targets
+ * the worker can handle are inspected in the worker instead; anything else fails with the
+ * container's last error.
+ */
+export async function inspectWithFallback(
+	env: Cloudflare.Env,
+	host: string,
+	port: number,
+	options: InspectOptions = {}
+): Promise<InspectionOutcome> {
+	const settings = inspectorSettingsFor(env);
+	const timeoutMs = settings.timeoutMs * (options.deepScan ? DEEP_SCAN_TIMEOUT_FACTOR : 1);
+	const startedAt = Date.now();
+
+	const asked = await askInspector(env, settings, timeoutMs, `${host}:${port}`, (inspector) =>
+		inspector.inspectCertificate(host, port, options)
+	);
+	if (asked.ok) {
+		return { result: withEngine(asked.value), engine: "container", attempts: asked.attempts, durationMs: Date.now() - startedAt };
+	}
+
+	if (!settings.fallback || workerInspectionUnsupported(env, host, options)) {
+		throw asked.error;
+	}
+
+	const result = await inspectInWorker(env, host, port, options);
+	return { result, engine: "worker", attempts: asked.attempts, durationMs: Date.now() - startedAt };
+}
+
+/**
+ * Inspects every address the host resolves to through the container, with the same timeout and
+ * retries as a single target. Only the container resolves names, so there is no worker fallback.
+ */
+export async function inspectAllAddresses(
+	env: Cloudflare.Env,
+	host: string,
+	port: number,
+	options: Omit<InspectOptions, "ip"> = {}
+): Promise<{ addresses: string[]; results: BatchInspectionOutcome[] }> {
+	const settings = inspectorSettingsFor(env);
+	const timeoutMs = settings.timeoutMs * ADDRESS_WAVES * (options.deepScan ? DEEP_SCAN_TIMEOUT_FACTOR : 1);
+
+	const asked = await askInspector(env, settings, timeoutMs, `${host}:${port}`, (inspector) =>
+		inspector.inspectAllAddresses(host, port, options)
+	);
+	if (!asked.ok) {
+		throw asked.error;
+	}
+
+	const results = asked.value.results.map((outcome) => (outcome.ok ? { ...outcome, result: withEngine(outcome.result) } : outcome));
+	return { addresses: asked.value.addresses, results };
+}
+
+/**
+ * Inspects the targets through the container, which gets as long as the waves of `concurrency`
+ * targets it works through. When it fails, each target the worker can handle is inspected in the
+ * worker instead, and every other target fails with the container's last error.
+ */
+export async function inspectBatchWithFallback(
+	env: Cloudflare.Env,
+	targets: Array<CertificateTarget & InspectOptions>,
+	concurrency = DEFAULT_BATCH_CONCURRENCY
+): Promise<BatchInspectionOutcome[]> {
+	const settings = inspectorSettingsFor(env);
+	const waves = Math.ceil(targets.length / concurrency);
+	const timeoutMs = settings.timeoutMs * waves * (targets.some((target) => target.deepScan) ? DEEP_SCAN_TIMEOUT_FACTOR : 1);
+
+	const asked = await askInspector(env, settings, timeoutMs, `${targets.length} targets`, (inspector) =>
+		inspector.inspectCertificates(targets, concurrency)
+	);
+	if (asked.ok) {
+		return asked.value.map((outcome) => (outcome.ok ? { ...outcome, result: withEngine(outcome.result) } : outcome));
+	}
+	if (!settings.fallback) {
+		throw asked.error;
+	}
+
+	const containerError = asked.error instanceof Error ? asked.error.message : String(asked.error);
+	return mapWithConcurrency(targets, WORKER_FALLBACK_CONCURRENCY, async (target): Promise<BatchInspectionOutcome> => {
+		const failed = { host: target.host, port: target.port, ip: target.ip ?? null, ok: false as const };
+		if (workerInspectionUnsupported(env, target.host, target)) {
+			return { ...failed, error: containerError };
+		}
+
+		try {
+			const result = await inspectInWorker(env, target.host, target.port, target);
+			return { host: target.host, port: target.port, ip: result.ip, ok: true, result };
+		} catch (error) {
+			return { ...failed, error: error instanceof Error ? error.message : String(error) };
+		}
+	});
+}
+
+/** A `Server-Timing` header value reporting which engine answered and how long it took */
+export function inspectionServerTiming(outcome: InspectionOutcome): string {
+	return `${outcome.engine};dur=${outcome.durationMs};desc="${outcome.attempts} container attempt${outcome.attempts === 1 ? "" : "s"}"`;
+}
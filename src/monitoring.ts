@@ -0,0 +1,94 @@
+import type { CertificateAlert, CertificateMonitor } from "./certificates";
+import type { AlertRecord, MonitorRecord } from "./db/types";
+
+export const DEFAULT_MONITOR_INTERVAL_MINUTES = 24 * 60;
+export const MIN_MONITOR_INTERVAL_MINUTES = 5;
+export const MAX_MONITOR_INTERVAL_MINUTES = 7 * 24 * 60;
+export const DEFAULT_ALERT_THRESHOLDS = [30, 14, 7, 1];
+export const MAX_ALERT_THRESHOLD_DAYS = 365;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export function isValidMonitorInterval(minutes: unknown): minutes is number {
+	return (
+		typeof minutes === "number" &&
+		Number.isInteger(minutes) &&
+		minutes >= MIN_MONITOR_INTERVAL_MINUTES &&
+		minutes <= MAX_MONITOR_INTERVAL_MINUTES
+	);
+}
+
+export function isValidAlertThreshold(days: unknown): days is number {
+	return typeof days === "number" && Number.isInteger(days) && days >= 0 && days <= MAX_ALERT_THRESHOLD_DAYS;
+}
+
+/** Removes duplicates and orders thresholds from the furthest out to the closest to expiry */
+export function normalizeAlertThresholds(thresholds: number[]): number[] {
+	return [...new Set(thresholds)].sort((a, b) => b - a);
+}
+
+/** Parses a comma separated threshold list such as `30,14,7,1`, falling back to the defaults */
+export function parseAlertThresholds(value: string | undefined): number[] {
+	const thresholds = (value ?? "")
+		.split(",")
+		.map((part) => Number.parseInt(part.trim(), 10))
+		.filter(isValidAlertThreshold);
+
+	return thresholds.length > 0 ? normalizeAlertThresholds(thresholds) : DEFAULT_ALERT_THRESHOLDS;
+}
+
+export function parseMonitorInterval(value: string | undefined): number {
+	const minutes = Number.parseInt(value ?? "", 10);
+	return isValidMonitorInterval(minutes) ? minutes : DEFAULT_MONITOR_INTERVAL_MINUTES;
+}
+
+/** Whole days between `now` and `validTo`, negative once the certificate has expired */
+export function daysRemaining(validTo: string | null, now = Date.now()): number | null {
+	if (!validTo) {
+		return null;
+	}
+
+	const expiresAt = Date.parse(validTo);
+	if (Number.isNaN(expiresAt)) {
+		return null;
+	}
+
+	return Math.floor((expiresAt - now) / DAY_IN_MS);
+}
+
+export function crossedThresholds(days: number | null, thresholds: number[]): number[] {
+	if (days === null) {
+		return [];
+	}
+
+	return thresholds.filter((threshold) => days <= threshold);
+}
+
+export function toCertificateMonitor(record: MonitorRecord): CertificateMonitor {
+	return {
+		host: record.host,
+		port: record.port,
+		protocol: record.protocol,
+		intervalMinutes: record.interval_minutes,
+		thresholds: record.thresholds,
+		rules: record.rules,
+		createdAt: record.created_at,
+		lastCheckedAt: record.last_checked_at,
+		nextCheckAt: record.next_check_at,
+		lastError: record.last_error,
+	};
+}
+
+export function toCertificateAlert(record: AlertRecord): CertificateAlert {
+	return {
+		id: record.id,
+		kind: record.kind,
+		threshold: record.threshold,
+		daysRemaining: record.days_remaining,
+		fingerprint256: record.fingerprint256,
+		validTo: record.valid_to,
+		authorizationError: record.authorization_error,
+		inspectionId: record.inspection_id,
+		createdAt: record.created_at,
+	};
+}
@@ -0,0 +1,141 @@
+import { createHash } from "node:crypto";
+import type { PushSubscription } from "web-push";
+
+import type { CertificateAlert, StoredInspection } from "./certificates";
+
+export type CertificateChangeType = "expiring" | "invalid" | "changed";
+
+/** JSON payload pushed for a certificate alert; rendered by `public/sw.js` */
+export type CertificateAlertNotification = {
+	type: "certificate-alert";
+	host: string;
+	port: number;
+	change: CertificateChangeType;
+	daysRemaining: number | null;
+	validTo: string | null;
+	fingerprint256: string | null;
+	authorizationError: string | null;
+	url: string;
+};
+
+export const PUSH_URGENCIES = ["very-low", "low", "normal", "high"] as const;
+
+export type PushUrgency = (typeof PUSH_URGENCIES)[number];
+
+/** The longest TTL push services honour, four weeks */
+export const MAX_PUSH_TTL_SECONDS = 28 * 24 * 60 * 60;
+
+/** Push services accept about 4 KB once encrypted, so the JSON payload is kept below that */
+export const MAX_PUSH_PAYLOAD_BYTES = 3072;
+
+/** JSON payload pushed for a message sent through `POST /api/notifications`; rendered by `public/sw.js` */
+export type PushMessage = {
+	type: "message";
+	title: string;
+	body: string | null;
+	url: string | null;
+	data: Record<string, unknown> | null;
+};
+
+/** When to send a message and the `TTL` and `Urgency` the push service is asked to honour */
+export type PushDelivery = {
+	sendAt: number;
+	ttl?: number;
+	urgency?: PushUrgency;
+};
+
+/** Each workspace's subscriptions are indexed in the `SubscriptionDirectory` with this name */
+export const SUBSCRIPTION_DIRECTORY_NAME = "subscriptions";
+
+/** Each push subscription lives in the `MyDurableObject` named after the MD5 of its endpoint */
+export function subscriptionObjectName(endpoint: string): string {
+	return createHash("md5").update(endpoint, "utf8").digest("hex");
+}
+
+export function isPushSubscription(value: unknown): value is PushSubscription {
+	if (!value || typeof value !== "object") {
+		return false;
+	}
+
+	const { endpoint, keys } = value as Partial<PushSubscription>;
+	return (
+		typeof endpoint === "string" &&
+		URL.canParse(endpoint) &&
+		!!keys &&
+		typeof keys.p256dh === "string" &&
+		typeof keys.auth === "string"
+	);
+}
+
+/**
+ * Picks which alerts are worth a notification: every invalid or changed certificate, but only
+ * the closest expiry threshold when several are crossed by the same inspection.
+ */
+export function toCertificateAlertNotifications(
+	inspection: StoredInspection,
+	alerts: CertificateAlert[]
+): CertificateAlertNotification[] {
+	const expiring = alerts
+		.filter((alert) => alert.kind === "expiring")
+		.sort((a, b) => (a.threshold ?? 0) - (b.threshold ?? 0))
+		.slice(0, 1);
+	const selected = [...alerts.filter((alert) => alert.kind !== "expiring"), ...expiring];
+
+	const resultUrl = `/api/certificates/result?${new URLSearchParams({
+		host: inspection.requestedHost,
+		port: String(inspection.requestedPort),
+	})}`;
+
+	return selected.map((alert) => ({
+		type: "certificate-alert",
+		host: inspection.requestedHost,
+		port: inspection.requestedPort,
+		change: alert.kind === "unauthorized" ? "invalid" : alert.kind,
+		daysRemaining: alert.daysRemaining,
+		validTo: alert.validTo,
+		fingerprint256: alert.fingerprint256,
+		authorizationError: alert.authorizationError,
+		url: resultUrl,
+	}));
+}
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+/** The VAPID keys or the subscription cannot be used, so no push was sent and retrying cannot help */
+export class PushConfigurationError extends Error {
+	override name = "PushConfigurationError";
+}
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/** Push services answer 404/410 once a subscription has expired or been revoked */
+export function isGonePushStatus(status: number | undefined): boolean {
+	return status === 404 || status === 410;
+}
+
+/** Rate limiting and server errors are worth retrying; other answers would only be repeated */
+export function isRetryablePushStatus(status: number | undefined): boolean {
+	return status !== undefined && (status === 429 || status >= 500);
+}
+
+/** Parses a `Retry-After` header given either as seconds or as an HTTP date, in milliseconds from `now` */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | null {
+	if (!value) {
+		return null;
+	}
+
+	const seconds = Number(value.trim());
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const retryAt = Date.parse(value);
+	return Number.isNaN(retryAt) ? null : Math.max(0, retryAt - now);
+}
+
+/** Exponential backoff from the attempt number, never sooner than the push service asked for */
+export function pushRetryDelay(attempt: number, retryAfterMs: number | null): number {
+	const backoff = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+	return Math.max(backoff, retryAfterMs ?? 0);
+}
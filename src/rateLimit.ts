@@ -0,0 +1,65 @@
+import type { Principal } from "./auth";
+
+const DEFAULT_RATE_LIMIT_CAPACITY = 30;
+const DEFAULT_RATE_LIMIT_REFILL_PER_MINUTE = 10;
+
+export type RateLimitSettings = {
+	/** The most inspections a client can make in a burst */
+	capacity: number;
+	refillPerMinute: number;
+};
+
+export type RateLimitDecision = {
+	allowed: boolean;
+	remaining: number;
+	/** Only set when the request was refused */
+	retryAfterSeconds: number | null;
+};
+
+function parsePositiveNumber(value: string | undefined, fallback: number): number {
+	const parsed = Number(value);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** Reads `INSPECT_RATE_LIMIT_CAPACITY` and `INSPECT_RATE_LIMIT_PER_MINUTE`, falling back to the defaults */
+export function parseRateLimitSettings(env: Cloudflare.Env): RateLimitSettings {
+	return {
+		capacity: Math.floor(parsePositiveNumber(env.INSPECT_RATE_LIMIT_CAPACITY, DEFAULT_RATE_LIMIT_CAPACITY)),
+		refillPerMinute: parsePositiveNumber(env.INSPECT_RATE_LIMIT_PER_MINUTE, DEFAULT_RATE_LIMIT_REFILL_PER_MINUTE),
+	};
+}
+
+type WorkspacePrincipal = Extract<Principal, { kind: "workspace" }>;
+
+/** Each API key gets its own bucket, which its sessions share */
+export function rateLimitObjectName(principal: WorkspacePrincipal): string {
+	return `key:${principal.keyId}`;
+}
+
+function rateLimiterFor(env: Cloudflare.Env, principal: WorkspacePrincipal) {
+	return env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(rateLimitObjectName(principal)));
+}
+
+/**
+ * Charges `cost` inspections to the client, resolving a 429 response to return when it has run
+ * out or null when the request can go ahead.
+ */
+export async function enforceRateLimit(env: Cloudflare.Env, principal: WorkspacePrincipal, cost: number): Promise<Response | null> {
+	const decision = await rateLimiterFor(env, principal).take(cost, parseRateLimitSettings(env));
+
+	if (decision.allowed) {
+		return null;
+	}
+
+	return Response.json(
+		{ error: `Too many inspections; try again in ${decision.retryAfterSeconds} seconds.` },
+		{ status: 429, headers: { "retry-after": String(decision.retryAfterSeconds) } }
+	);
+}
+
+/** Charges inspections already made, which the next requests wait for once they exceed the bucket */
+export async function chargeRateLimit(env: Cloudflare.Env, principal: WorkspacePrincipal, cost: number): Promise<void> {
+	if (cost > 0) {
+		await rateLimiterFor(env, principal).charge(cost, parseRateLimitSettings(env));
+	}
+}
@@ -0,0 +1,123 @@
+import { type InspectionProtocol, INSPECTION_PROTOCOLS, normalizeHost, normalizeIpAddress } from "./certificates";
+import { isValidWorkspace } from "./auth";
+import { MAX_ALERT_THRESHOLD_DAYS, isValidAlertThreshold, normalizeAlertThresholds } from "./monitoring";
+import { isPushSubscription } from "./push";
+import { array, boolean, custom, integer, object, oneOf, optional, withDefault } from "./validation";
+
+const MAX_SUBSCRIPTION_TOPICS = 32;
+const MAX_CALENDAR_REMINDERS = 8;
+
+/** Labels of letters, digits, dashes and underscores; a `/` in a host would reach into another workspace's objects */
+const HOST_PATTERN = /^(?=.{1,253}$)[a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9_])?(?:\.[a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9_])?)*\.?$/;
+
+/** A DNS name or an IPv4 or IPv6 literal, lowercased, or null */
+function parseTargetHost(value: unknown): string | null {
+	const host = typeof value === "string" ? normalizeHost(value) : "";
+	return HOST_PATTERN.test(host) || normalizeIpAddress(host) !== null ? host : null;
+}
+
+export const hostSchema = custom({ type: "string", description: "The name or address to inspect" }, (value, fail) =>
+	parseTargetHost(value) ?? fail("The host must be a DNS name or an IP address.")
+);
+
+export const portSchema = withDefault(integer({ minimum: 1, maximum: 65535 }), 443);
+
+export const protocolSchema = optional(oneOf(INSPECTION_PROTOCOLS, { description: "How to start TLS; `tls` unless a STARTTLS protocol is named" }));
+
+export const ipSchema = optional(
+	custom({ type: "string", description: "Connect to this address instead of resolving the host" }, (value, fail) =>
+		(typeof value === "string" && normalizeIpAddress(value)) || fail("The ip must be an IPv4 or IPv6 address.")
+	)
+);
+
+export const servernameSchema = optional(
+	custom({ type: "string", description: "Send this name as SNI and check the certificate against it instead of the host" }, (value, fail) =>
+		parseTargetHost(value) ?? fail("The servername must be a DNS name or an IP address.")
+	)
+);
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{0,61}[a-z0-9]$/;
+
+/** A registered name such as `example.com`; a leading `*.` or trailing dot is dropped */
+export const domainSchema = custom({ type: "string", description: "The domain whose subdomains are included too" }, (value, fail) => {
+	const domain = typeof value === "string" ? normalizeHost(value).replace(/^\*\./, "").replace(/\.$/, "") : "";
+	return DOMAIN_PATTERN.test(domain) ? domain : fail("The domain must be a DNS name such as example.com.");
+});
+
+export const workspaceSchema = custom({ type: "string", pattern: "^[a-z0-9][a-z0-9-]{0,62}$" }, (value, fail) =>
+	isValidWorkspace(value) ? value : fail("The workspace must be lowercase letters, digits and dashes.")
+);
+
+export const pushSubscriptionSchema = custom(
+	{
+		type: "object",
+		properties: {
+			endpoint: { type: "string", format: "uri" },
+			keys: { type: "object", properties: { p256dh: { type: "string" }, auth: { type: "string" } }, required: ["p256dh", "auth"] },
+		},
+		required: ["endpoint", "keys"],
+	},
+	(value, fail) => (isPushSubscription(value) ? value : fail("The push subscription must have an endpoint URL and p256dh and auth keys."))
+);
+
+const TOPIC_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+
+export const topicSchema = custom({ type: "string", pattern: TOPIC_PATTERN.source }, (value, fail) => {
+	const topic = typeof value === "string" ? value.trim().toLowerCase() : "";
+	return TOPIC_PATTERN.test(topic) ? topic : fail("A topic must be up to 64 letters, digits, dots, dashes and underscores.");
+});
+
+export const topicsSchema = array(topicSchema, { maxItems: MAX_SUBSCRIPTION_TOPICS, description: "Topics to tag the subscription with" });
+
+/** A push subscription as the browser serializes it, optionally with the topics to tag it with */
+export const subscribeSchema = custom(
+	{
+		...pushSubscriptionSchema.jsonSchema,
+		properties: { ...(pushSubscriptionSchema.jsonSchema.properties as object), topics: topicsSchema.jsonSchema },
+	},
+	(value) => {
+		const subscription = pushSubscriptionSchema.parse(value, "", false);
+		const topics = optional(topicsSchema).parse((value as Record<string, unknown>).topics, "topics", false);
+		return { subscription, topics: topics && [...new Set(topics)] };
+	}
+);
+
+/** Identifies a target's stored history; pinned addresses and SNI overrides each have their own */
+export const targetFields = {
+	host: hostSchema,
+	port: portSchema,
+	ip: ipSchema,
+	servername: servernameSchema,
+};
+
+export const inspectOptionFields = {
+	protocol: protocolSchema,
+	deepScan: optional(boolean({ description: "Also probe every TLS version and cipher suite; much slower" })),
+	includePem: optional(boolean({ description: "Include each chain certificate's PEM encoding" })),
+	http: optional(boolean({ description: "Also check HSTS, security headers and the redirect from plain HTTP; tls only" })),
+};
+
+/** The HTTP checks send HTTP over the inspected connection, which a STARTTLS session does not carry */
+export function inspectOptionsProblem(options: { protocol?: InspectionProtocol; http?: boolean }): string | null {
+	return options.http && (options.protocol ?? "tls") !== "tls" ? "The http option only applies to the tls protocol." : null;
+}
+
+export const targetQuerySchema = object(targetFields);
+
+/** Normalized to an ISO timestamp */
+export const timestampSchema = optional(
+	custom({ type: "string", format: "date-time" }, (value, fail) => {
+		const date = typeof value === "string" ? new Date(value) : null;
+		return date && !Number.isNaN(date.getTime()) ? date.toISOString() : fail("The from and to query parameters must be valid dates.");
+	})
+);
+
+/** A comma separated list such as `30,7`, since a query parameter is read once */
+export const reminderDaysSchema = optional(
+	custom({ type: "string", pattern: "^\\d+(,\\d+)*$", description: "Days before expiry to remind at, e.g. `30,7`" }, (value, fail) => {
+		const days = typeof value === "string" && /^\d+(,\d+)*$/.test(value) ? value.split(",").map(Number) : [];
+		return days.length > 0 && days.length <= MAX_CALENDAR_REMINDERS && days.every(isValidAlertThreshold)
+			? normalizeAlertThresholds(days)
+			: fail(`The reminders must be up to ${MAX_CALENDAR_REMINDERS} comma separated day counts between 0 and ${MAX_ALERT_THRESHOLD_DAYS}.`);
+	})
+);
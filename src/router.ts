@@ -0,0 +1,241 @@
+import { SESSION_COOKIE_NAME, type Principal, authenticate } from "./auth";
+import { type JsonSchema, type Schema, ValidationError, parseQuery } from "./validation";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/** `public` routes skip authentication; `workspace` routes refuse the admin key, which only manages keys */
+export type RouteAccess = "public" | "authenticated" | "workspace";
+
+export type WorkspacePrincipal = Extract<Principal, { kind: "workspace" }>;
+
+type PrincipalFor<A extends RouteAccess> = A extends "workspace" ? WorkspacePrincipal : A extends "authenticated" ? Principal : null;
+
+export type RouteInput<A extends RouteAccess, Query, Body, Params = Record<string, string>> = {
+	request: Request;
+	env: Cloudflare.Env;
+	ctx: ExecutionContext;
+	url: URL;
+	/** Values of the `:name` segments in the route's path */
+	params: Params;
+	query: Query;
+	body: Body;
+	principal: PrincipalFor<A>;
+};
+
+export type RouteDefinition<A extends RouteAccess, Query, Body, Params> = {
+	method: HttpMethod;
+	/** e.g. `/api/keys/:id`; each `:name` segment matches one path segment */
+	path: string;
+	access: A;
+	summary: string;
+	description?: string;
+	tags?: string[];
+	/** Validates the `:name` segments, which are strings until then */
+	params?: Schema<Params>;
+	query?: Schema<Query>;
+	/** A JSON body, parsed and validated before the handler runs */
+	body?: Schema<Body>;
+	/** For routes that read the body themselves, the content types they accept */
+	rawBody?: string[];
+	/** Successful responses by status, for the OpenAPI document; defaults to a 200 */
+	responses?: Record<number, string>;
+	handler(input: RouteInput<A, Query, Body, Params>): Promise<Response> | Response;
+};
+
+type CompiledRoute = RouteDefinition<RouteAccess, unknown, unknown, unknown> & {
+	pattern: RegExp;
+	paramNames: string[];
+};
+
+const ERROR_SCHEMA: JsonSchema = {
+	type: "object",
+	properties: { error: { type: "string" } },
+	required: ["error"],
+};
+
+function errorResponse(status: number, error: string, headers?: HeadersInit): Response {
+	return Response.json({ error }, { status, headers });
+}
+
+/**
+ * Identifies the caller for a route with the given access, resolving the error response to return
+ * instead when the caller is missing or not allowed there.
+ */
+export async function authorize<A extends RouteAccess>(
+	request: Request,
+	env: Cloudflare.Env,
+	access: A
+): Promise<PrincipalFor<A> | Response> {
+	if (access === "public") {
+		return null as PrincipalFor<A>;
+	}
+
+	const principal = await authenticate(request, env);
+	if (!principal) {
+		return errorResponse(401, "A valid API key or session is required.", { "www-authenticate": 'Bearer realm="api"' });
+	}
+	if (access === "workspace" && principal.kind === "admin") {
+		return errorResponse(403, "The admin key can only manage API keys.");
+	}
+
+	return principal as PrincipalFor<A>;
+}
+
+/** A malformed escape is passed through as sent rather than failing the request */
+function decodePathSegment(segment: string): string {
+	try {
+		return decodeURIComponent(segment);
+	} catch {
+		return segment;
+	}
+}
+
+async function readJsonBody<T>(request: Request, bodySchema: Schema<T>): Promise<T> {
+	let value: unknown;
+	try {
+		value = await request.json();
+	} catch {
+		throw new ValidationError("The request body must be valid JSON.");
+	}
+	return bodySchema.parse(value, "", false);
+}
+
+export type RouterOptions = {
+	/** The status for an error a handler left unhandled, such as a 502 for a failed upstream, or null for a 500 */
+	errorStatus?: (error: unknown) => number | null;
+};
+
+/**
+ * Matches requests by method and path, authenticates them, validates their query string and JSON
+ * body, and describes every route in an OpenAPI document. Validation failures become 400
+ * responses, so handlers only see well-formed input, and anything else a handler throws becomes a
+ * JSON error too.
+ */
+export class Router {
+	private readonly routes: CompiledRoute[] = [];
+
+	constructor(private readonly options: RouterOptions = {}) {}
+
+	route<A extends RouteAccess, Query = undefined, Body = undefined, Params = Record<string, string>>(
+		definition: RouteDefinition<A, Query, Body, Params>
+	): this {
+		const paramNames: string[] = [];
+		const source = definition.path.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/:(\w+)/g, (_, name: string) => {
+			paramNames.push(name);
+			return "([^/]+)";
+		});
+
+		this.routes.push({ ...(definition as unknown as RouteDefinition<RouteAccess, unknown, unknown, unknown>), pattern: new RegExp(`^${source}$`), paramNames });
+		return this;
+	}
+
+	/** Resolves null when no route has the request's path, so the caller can fall back */
+	async handle(request: Request, env: Cloudflare.Env, ctx: ExecutionContext): Promise<Response | null> {
+		const url = new URL(request.url);
+		const candidates = this.routes.flatMap((route) => {
+			const match = route.pattern.exec(url.pathname);
+			return match ? [{ route, match }] : [];
+		});
+
+		if (candidates.length === 0) {
+			return null;
+		}
+
+		const matched = candidates.find(({ route }) => route.method === request.method);
+		if (!matched) {
+			const allowed = [...new Set(candidates.map(({ route }) => route.method))].join(", ");
+			return errorResponse(405, `${request.method} is not allowed here; use ${allowed}.`, { allow: allowed });
+		}
+
+		const { route, match } = matched;
+		const segments = Object.fromEntries(route.paramNames.map((name, index) => [name, decodePathSegment(match[index + 1])]));
+
+		const principal = await authorize(request, env, route.access);
+		if (principal instanceof Response) {
+			return principal;
+		}
+
+		try {
+			const params = route.params ? route.params.parse(segments, "", true) : segments;
+			const query = route.query ? parseQuery(route.query, url.searchParams) : undefined;
+			const body = route.body ? await readJsonBody(request, route.body) : undefined;
+
+			return await route.handler({ request, env, ctx, url, params, query, body, principal });
+		} catch (error) {
+			if (error instanceof ValidationError) {
+				return errorResponse(400, error.message);
+			}
+
+			const message = error instanceof Error ? error.message : String(error);
+			const status = this.options.errorStatus?.(error) ?? null;
+			console.error("Unhandled error:", request.method, url.pathname, message);
+
+			// Only a classified error's message is meant for the client
+			return status === null ? errorResponse(500, "The request failed unexpectedly.") : errorResponse(status, message);
+		}
+	}
+
+	openApi(info: { title: string; version: string }): Record<string, unknown> {
+		const paths: Record<string, Record<string, unknown>> = {};
+
+		for (const route of this.routes) {
+			const path = route.path.replace(/:(\w+)/g, "{$1}");
+			const paramSchemas = (route.params?.jsonSchema.properties ?? {}) as Record<string, JsonSchema>;
+			const querySchema = route.query?.jsonSchema as { properties?: Record<string, JsonSchema>; required?: string[] } | undefined;
+			const parameters = [
+				...route.paramNames.map((name) => ({ name, in: "path", required: true, schema: paramSchemas[name] ?? { type: "string" } })),
+				...Object.entries(querySchema?.properties ?? {}).map(([name, schema]) => ({
+					name,
+					in: "query",
+					required: querySchema?.required?.includes(name) ?? false,
+					description: schema.description,
+					schema,
+				})),
+			];
+
+			const responses: Record<string, unknown> = Object.fromEntries(
+				Object.entries(route.responses ?? { 200: "OK" }).map(([status, description]) => [status, { description }])
+			);
+			const error = (description: string) => ({ description, content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } });
+			if (route.params || route.query || route.body || route.rawBody) {
+				responses[400] ??= error("The request was malformed");
+			}
+			if (route.access !== "public") {
+				responses[401] ??= error("No valid API key or session was sent");
+			}
+			if (route.access === "workspace") {
+				responses[403] ??= error("The admin key was used on a workspace route");
+			}
+			responses[500] ??= error("The request failed unexpectedly");
+
+			paths[path] ??= {};
+			paths[path][route.method.toLowerCase()] = {
+				summary: route.summary,
+				description: route.description,
+				tags: route.tags,
+				security: route.access === "public" ? [] : undefined,
+				parameters: parameters.length > 0 ? parameters : undefined,
+				requestBody: route.body
+					? { required: true, content: { "application/json": { schema: route.body.jsonSchema } } }
+					: route.rawBody
+						? { required: true, content: Object.fromEntries(route.rawBody.map((type) => [type, { schema: { type: "string", format: "binary" } }])) }
+						: undefined,
+				responses,
+			};
+		}
+
+		return {
+			openapi: "3.1.0",
+			info,
+			security: [{ apiKey: [] }, { session: [] }],
+			components: {
+				securitySchemes: {
+					apiKey: { type: "http", scheme: "bearer" },
+					session: { type: "apiKey", in: "cookie", name: SESSION_COOKIE_NAME },
+				},
+				schemas: { Error: ERROR_SCHEMA },
+			},
+			paths,
+		};
+	}
+}
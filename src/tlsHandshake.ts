@@ -0,0 +1,281 @@
+import { connect } from "cloudflare:sockets";
+import type { NegotiatedConnection, TlsVersion } from "./certificates";
+
+/** The handshake failed or the server answered with something that is not TLS */
+export class TlsHandshakeError extends Error {
+	override name = "TlsHandshakeError";
+}
+
+/** What a server's first flight gives away before any key is agreed */
+export type ServerHandshake = {
+	remoteAddress: string | null;
+	tlsVersion: TlsVersion;
+	cipher: string | null;
+	cipherStandardName: string | null;
+	ephemeralKey: NegotiatedConnection["ephemeralKey"];
+	/** DER of each certificate in the order the server sent them */
+	certificates: Uint8Array[];
+};
+
+/** OpenSSL and IANA names for the suites the ClientHello offers, strongest first */
+const CIPHER_SUITES: Array<{ id: number; name: string; standardName: string }> = [
+	{ id: 0xc02b, name: "ECDHE-ECDSA-AES128-GCM-SHA256", standardName: "TLS_ECDHE_ECDSA_WITH_AES_128_GCM_SHA256" },
+	{ id: 0xc02f, name: "ECDHE-RSA-AES128-GCM-SHA256", standardName: "TLS_ECDHE_RSA_WITH_AES_128_GCM_SHA256" },
+	{ id: 0xc02c, name: "ECDHE-ECDSA-AES256-GCM-SHA384", standardName: "TLS_ECDHE_ECDSA_WITH_AES_256_GCM_SHA384" },
+	{ id: 0xc030, name: "ECDHE-RSA-AES256-GCM-SHA384", standardName: "TLS_ECDHE_RSA_WITH_AES_256_GCM_SHA384" },
+	{ id: 0xcca9, name: "ECDHE-ECDSA-CHACHA20-POLY1305", standardName: "TLS_ECDHE_ECDSA_WITH_CHACHA20_POLY1305_SHA256" },
+	{ id: 0xcca8, name: "ECDHE-RSA-CHACHA20-POLY1305", standardName: "TLS_ECDHE_RSA_WITH_CHACHA20_POLY1305_SHA256" },
+	{ id: 0xc009, name: "ECDHE-ECDSA-AES128-SHA", standardName: "TLS_ECDHE_ECDSA_WITH_AES_128_CBC_SHA" },
+	{ id: 0xc013, name: "ECDHE-RSA-AES128-SHA", standardName: "TLS_ECDHE_RSA_WITH_AES_128_CBC_SHA" },
+	{ id: 0xc00a, name: "ECDHE-ECDSA-AES256-SHA", standardName: "TLS_ECDHE_ECDSA_WITH_AES_256_CBC_SHA" },
+	{ id: 0xc014, name: "ECDHE-RSA-AES256-SHA", standardName: "TLS_ECDHE_RSA_WITH_AES_256_CBC_SHA" },
+	{ id: 0x009c, name: "AES128-GCM-SHA256", standardName: "TLS_RSA_WITH_AES_128_GCM_SHA256" },
+	{ id: 0x009d, name: "AES256-GCM-SHA384", standardName: "TLS_RSA_WITH_AES_256_GCM_SHA384" },
+	{ id: 0x002f, name: "AES128-SHA", standardName: "TLS_RSA_WITH_AES_128_CBC_SHA" },
+	{ id: 0x0035, name: "AES256-SHA", standardName: "TLS_RSA_WITH_AES_256_CBC_SHA" },
+];
+
+/** Named groups as Node reports them in `getEphemeralKeyInfo` */
+const GROUPS: Record<number, { name: string; size: number }> = {
+	0x001d: { name: "X25519", size: 253 },
+	0x0017: { name: "prime256v1", size: 256 },
+	0x0018: { name: "secp384r1", size: 384 },
+};
+
+const SIGNATURE_SCHEMES = [0x0403, 0x0804, 0x0401, 0x0503, 0x0805, 0x0501, 0x0806, 0x0601, 0x0203, 0x0201];
+
+const VERSIONS: Record<number, TlsVersion> = { 0x0301: "TLSv1", 0x0302: "TLSv1.1", 0x0303: "TLSv1.2" };
+
+const RECORD_HANDSHAKE = 22;
+const RECORD_ALERT = 21;
+
+const HANDSHAKE_SERVER_HELLO = 2;
+const HANDSHAKE_CERTIFICATE = 11;
+const HANDSHAKE_SERVER_KEY_EXCHANGE = 12;
+const HANDSHAKE_SERVER_HELLO_DONE = 14;
+
+const ALERT_DESCRIPTIONS: Record<number, string> = {
+	40: "handshake_failure",
+	47: "illegal_parameter",
+	70: "protocol_version",
+	71: "insufficient_security",
+	80: "internal_error",
+	112: "unrecognized_name",
+};
+
+/** A certificate chain is rarely more than a few kilobytes; anything far past this is not worth reading */
+const MAX_HANDSHAKE_BYTES = 256 * 1024;
+
+function concat(parts: Array<Uint8Array | number[]>): Uint8Array {
+	const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+	let offset = 0;
+	for (const part of parts) {
+		bytes.set(part, offset);
+		offset += part.length;
+	}
+	return bytes;
+}
+
+function uint16(value: number): number[] {
+	return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function uint24(value: number): number[] {
+	return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function vector8(data: Uint8Array | number[]): Uint8Array {
+	return concat([[data.length], data]);
+}
+
+function vector16(data: Uint8Array | number[]): Uint8Array {
+	return concat([uint16(data.length), data]);
+}
+
+function extension(type: number, data: Uint8Array | number[]): Uint8Array {
+	return concat([uint16(type), vector16(data)]);
+}
+
+function readUint16(bytes: Uint8Array, offset: number): number {
+	return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function readUint24(bytes: Uint8Array, offset: number): number {
+	return (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2];
+}
+
+/**
+ * A TLS 1.2 ClientHello. Leaving out `supported_versions` keeps the server from choosing TLS 1.3,
+ * which would encrypt its certificates before we could read them.
+ */
+function clientHello(servername: string | undefined): Uint8Array {
+	const extensions = [
+		...(servername ? [extension(0x0000, vector16(concat([[0], vector16(new TextEncoder().encode(servername))])))] : []),
+		extension(0x000a, vector16(Object.keys(GROUPS).flatMap((group) => uint16(Number(group))))),
+		extension(0x000b, vector8([0])),
+		extension(0x000d, vector16(SIGNATURE_SCHEMES.flatMap(uint16))),
+		extension(0x0017, []),
+		extension(0xff01, [0]),
+	];
+
+	const body = concat([
+		uint16(0x0303),
+		crypto.getRandomValues(new Uint8Array(32)),
+		[0],
+		vector16(CIPHER_SUITES.flatMap(({ id }) => uint16(id))),
+		[1, 0],
+		vector16(concat(extensions)),
+	]);
+	const handshake = concat([[1], uint24(body.length), body]);
+	return concat([[RECORD_HANDSHAKE, 0x03, 0x01], uint16(handshake.length), handshake]);
+}
+
+/** Reads the parts of the server's first flight the inspection needs, ignoring everything else */
+class ServerFlight {
+	tlsVersion: TlsVersion | null = null;
+	cipherSuite: number | null = null;
+	group: number | null = null;
+	certificates: Uint8Array[] | null = null;
+	done = false;
+
+	private records: Uint8Array = new Uint8Array(0);
+	private handshake: Uint8Array = new Uint8Array(0);
+
+	receive(chunk: Uint8Array): void {
+		this.records = concat([this.records, chunk]);
+		if (this.records.length + this.handshake.length > MAX_HANDSHAKE_BYTES) {
+			throw new TlsHandshakeError("The server's handshake was too large to read.");
+		}
+
+		while (this.records.length >= 5) {
+			const length = readUint16(this.records, 3);
+			if (this.records.length < 5 + length) {
+				break;
+			}
+
+			const type = this.records[0];
+			const fragment = this.records.slice(5, 5 + length);
+			this.records = this.records.slice(5 + length);
+
+			if (type === RECORD_ALERT) {
+				const description = ALERT_DESCRIPTIONS[fragment[1]] ?? `alert ${fragment[1]}`;
+				throw new TlsHandshakeError(
+					fragment[1] === 70
+						? "The server only accepts TLS 1.3, which encrypts the certificates the worker would read."
+						: `The server ended the handshake with ${description}.`
+				);
+			}
+			if (type !== RECORD_HANDSHAKE) {
+				throw new TlsHandshakeError(`The server sent a TLS record of type ${type} before finishing its handshake.`);
+			}
+
+			this.handshake = concat([this.handshake, fragment]);
+			this.readMessages();
+		}
+	}
+
+	private readMessages(): void {
+		while (this.handshake.length >= 4) {
+			const length = readUint24(this.handshake, 1);
+			if (this.handshake.length < 4 + length) {
+				return;
+			}
+
+			const type = this.handshake[0];
+			const body = this.handshake.slice(4, 4 + length);
+			this.handshake = this.handshake.slice(4 + length);
+
+			if (type === HANDSHAKE_SERVER_HELLO) {
+				this.readServerHello(body);
+			} else if (type === HANDSHAKE_CERTIFICATE) {
+				this.certificates = this.readCertificates(body);
+			} else if (type === HANDSHAKE_SERVER_KEY_EXCHANGE && body[0] === 3) {
+				// ECParameters: a named_curve followed by the curve's id
+				this.group = readUint16(body, 1);
+			} else if (type === HANDSHAKE_SERVER_HELLO_DONE) {
+				this.done = true;
+			}
+		}
+	}
+
+	private readServerHello(body: Uint8Array): void {
+		const version = VERSIONS[readUint16(body, 0)];
+		if (!version) {
+			throw new TlsHandshakeError(`The server chose an unsupported protocol version ${readUint16(body, 0).toString(16)}.`);
+		}
+
+		const sessionIdLength = body[34];
+		this.tlsVersion = version;
+		this.cipherSuite = readUint16(body, 35 + sessionIdLength);
+	}
+
+	private readCertificates(body: Uint8Array): Uint8Array[] {
+		const certificates: Uint8Array[] = [];
+		const end = 3 + readUint24(body, 0);
+
+		for (let offset = 3; offset + 3 <= end; ) {
+			const length = readUint24(body, offset);
+			certificates.push(body.slice(offset + 3, offset + 3 + length));
+			offset += 3 + length;
+		}
+
+		return certificates;
+	}
+}
+
+/**
+ * Starts a TLS 1.2 handshake over a plain socket and reads the server's first flight, which carries
+ * its certificates in the clear. The handshake is abandoned there, so nothing is verified and no
+ * key is agreed; it only shows what the server sends.
+ */
+export async function readServerHandshake(
+	target: { address: string; port: number; servername: string | undefined },
+	timeoutMs: number
+): Promise<ServerHandshake> {
+	const socket = connect({ hostname: target.address, port: target.port }, { secureTransport: "off", allowHalfOpen: false });
+	let timedOut = false;
+	const timer = setTimeout(() => {
+		timedOut = true;
+		socket.close().catch(() => undefined);
+	}, timeoutMs);
+
+	try {
+		const { remoteAddress } = await socket.opened;
+		const writer = socket.writable.getWriter();
+		await writer.write(clientHello(target.servername));
+		writer.releaseLock();
+
+		const reader = socket.readable.getReader();
+		const flight = new ServerFlight();
+		while (!flight.done) {
+			const { value, done } = await reader.read();
+			if (done) {
+				throw new TlsHandshakeError("The server closed the connection during the handshake.");
+			}
+			flight.receive(value);
+		}
+
+		if (!flight.tlsVersion || !flight.certificates || flight.certificates.length === 0) {
+			throw new TlsHandshakeError("The server finished its handshake without sending a certificate.");
+		}
+
+		const suite = CIPHER_SUITES.find(({ id }) => id === flight.cipherSuite);
+		const group = flight.group === null ? undefined : GROUPS[flight.group];
+		return {
+			remoteAddress: remoteAddress ?? null,
+			tlsVersion: flight.tlsVersion,
+			cipher: suite?.name ?? null,
+			cipherStandardName: suite?.standardName ?? null,
+			ephemeralKey: group ? { type: "ECDH", ...group } : null,
+			certificates: flight.certificates,
+		};
+	} catch (error) {
+		if (timedOut) {
+			throw new TlsHandshakeError("Timed out while reading the server's handshake.");
+		}
+		throw error;
+	} finally {
+		clearTimeout(timer);
+		await socket.close().catch(() => undefined);
+	}
+}
@@ -0,0 +1,228 @@
+import { type CertificateInventoryEntry, isUnderDomain } from "./certificates";
+import type { CtLookupRecord } from "./db/types";
+
+export const DEFAULT_CT_LOG_SEARCH_URL = "https://crt.sh/";
+const CT_LOG_TIMEOUT_MS = 30 * 1000;
+
+/** Popular domains have tens of thousands of entries; a lookup keeps at most this many, newest first */
+export const MAX_CT_CERTIFICATES = 2000;
+
+/** The log search could not be reached or answered with something unreadable; answered with a 502 */
+export class CtLogError extends Error {
+	override name = "CtLogError";
+}
+
+/** A leaf certificate as logged, without anything the lookup concluded about it */
+export type CtCertificate = {
+	/** The search service's id for the log entry */
+	id: number;
+	/** Lowercase hex without leading zeros, the form inspections are matched on */
+	serialNumber: string;
+	issuer: string;
+	commonName: string | null;
+	/** Every name the certificate covers */
+	names: string[];
+	notBefore: string;
+	notAfter: string;
+	loggedAt: string;
+};
+
+/**
+ * `served` certificates are what a target under the domain serves now, and `known` ones were served
+ * at an earlier lookup. Anything else is `unknown`: issued for the domain, but never seen deployed.
+ */
+export type CtCertificateStatus = "served" | "known" | "unknown";
+
+export type CtLookupCertificate = CtCertificate & { status: CtCertificateStatus };
+
+export type CtLookup = {
+	id: number;
+	domain: string;
+	lookedUpAt: string;
+	/** The search service the lookup ran against */
+	source: string;
+	/** Whether more than `MAX_CT_CERTIFICATES` unexpired certificates were logged */
+	truncated: boolean;
+	summary: Record<CtCertificateStatus, number> & { total: number };
+	certificates: CtLookupCertificate[];
+};
+
+export type CtLookupChanges = {
+	/** Certificates logged since the earlier lookup */
+	added: CtLookupCertificate[];
+	/** Certificates that have expired, or been dropped from the log search, since */
+	removed: CtLookupCertificate[];
+};
+
+export type SavedCtLookup = CtLookup & { changes: CtLookupChanges | null };
+
+export type CtLookupHistoryPage = {
+	domain: string;
+	total: number;
+	limit: number;
+	offset: number;
+	items: CtLookup[];
+};
+
+export type CtSearchResult = { certificates: CtCertificate[]; truncated: boolean };
+
+/** Where lookups come from; tests can point `CT_LOG_SEARCH_URL` at a local stand-in instead of crt.sh */
+export type CtLogSource = {
+	name: string;
+	search(domain: string): Promise<CtSearchResult>;
+};
+
+export function toCtLookup(record: CtLookupRecord): CtLookup {
+	const summary = { total: record.certificates.length, served: 0, known: 0, unknown: 0 };
+	for (const certificate of record.certificates) {
+		summary[certificate.status]++;
+	}
+
+	return {
+		id: record.id,
+		domain: record.domain,
+		lookedUpAt: record.looked_up_at,
+		source: record.source,
+		truncated: record.truncated,
+		summary,
+		certificates: record.certificates,
+	};
+}
+
+/** Serial numbers are printed with and without colons, in either case and with leading zeros */
+export function normalizeSerialNumber(serial: string): string {
+	return serial.toLowerCase().replace(/[^0-9a-f]/g, "").replace(/^0+(?=.)/, "");
+}
+
+/** crt.sh reports UTC times without a zone */
+function utcTimestamp(value: unknown): string | null {
+	if (typeof value !== "string") {
+		return null;
+	}
+
+	const time = Date.parse(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value}Z`);
+	return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function parseCrtShEntry(entry: unknown): CtCertificate | null {
+	if (!entry || typeof entry !== "object") {
+		return null;
+	}
+
+	const record = entry as Record<string, unknown>;
+	const notBefore = utcTimestamp(record.not_before);
+	const notAfter = utcTimestamp(record.not_after);
+	if (typeof record.id !== "number" || typeof record.serial_number !== "string" || !notBefore || !notAfter) {
+		return null;
+	}
+
+	const names = typeof record.name_value === "string" ? record.name_value.split("\n") : [];
+	return {
+		id: record.id,
+		serialNumber: normalizeSerialNumber(record.serial_number),
+		issuer: typeof record.issuer_name === "string" ? record.issuer_name : "",
+		commonName: typeof record.common_name === "string" ? record.common_name.toLowerCase() : null,
+		names: [...new Set(names.map((name) => name.trim().toLowerCase()).filter(Boolean))].sort(),
+		notBefore,
+		notAfter,
+		loggedAt: utcTimestamp(record.entry_timestamp) ?? notBefore,
+	};
+}
+
+/**
+ * Searches a crt.sh-compatible service for the unexpired certificates of the domain and of its
+ * subdomains, which crt.sh only returns from separate queries. A certificate logged as both a
+ * precertificate and a final certificate is kept once.
+ */
+export function crtShSource(baseUrl: string): CtLogSource {
+	async function query(identity: string): Promise<unknown[]> {
+		const url = new URL(baseUrl);
+		url.searchParams.set("q", identity);
+		url.searchParams.set("output", "json");
+		url.searchParams.set("exclude", "expired");
+		url.searchParams.set("deduplicate", "Y");
+
+		let response: Response;
+		try {
+			response = await fetch(url, {
+				headers: { accept: "application/json", "user-agent": "certificate-inspector" },
+				signal: AbortSignal.timeout(CT_LOG_TIMEOUT_MS),
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new CtLogError(`The certificate transparency search could not be reached: ${message}`);
+		}
+
+		if (!response.ok) {
+			await response.body?.cancel();
+			throw new CtLogError(`The certificate transparency search answered with HTTP ${response.status}.`);
+		}
+
+		const body: unknown = await response.json().catch(() => null);
+		if (!Array.isArray(body)) {
+			throw new CtLogError("The certificate transparency search did not answer with a JSON list.");
+		}
+		return body;
+	}
+
+	return {
+		name: new URL(baseUrl).host,
+		async search(domain) {
+			const [exact, subdomains] = await Promise.all([query(domain), query(`%.${domain}`)]);
+
+			const bySerial = new Map<string, CtCertificate>();
+			for (const certificate of [...exact, ...subdomains].map(parseCrtShEntry)) {
+				const key = certificate && `${certificate.issuer}/${certificate.serialNumber}`;
+				if (certificate && key && !bySerial.has(key)) {
+					bySerial.set(key, certificate);
+				}
+			}
+
+			const certificates = [...bySerial.values()].sort((a, b) => b.loggedAt.localeCompare(a.loggedAt) || b.id - a.id);
+			return { certificates: certificates.slice(0, MAX_CT_CERTIFICATES), truncated: certificates.length > MAX_CT_CERTIFICATES };
+		},
+	};
+}
+
+export function ctLogSourceFor(env: Cloudflare.Env): CtLogSource {
+	return crtShSource(env.CT_LOG_SEARCH_URL || DEFAULT_CT_LOG_SEARCH_URL);
+}
+
+/** The serial numbers of the leaf certificates the workspace's targets under `domain` serve now */
+export function servedSerialNumbers(entries: CertificateInventoryEntry[], domain: string): string[] {
+	const serials = entries
+		.filter((entry) => isUnderDomain(entry.servername ?? entry.host, domain))
+		.map((entry) => entry.inspection?.result.serialNumber)
+		.filter((serial): serial is string => typeof serial === "string" && serial.length > 0)
+		.map(normalizeSerialNumber);
+
+	return [...new Set(serials)];
+}
+
+/** Anything served now, or at the previous lookup, counts as deployed */
+export function classifyCtCertificates(
+	certificates: CtCertificate[],
+	served: string[],
+	previous: CtLookupCertificate[]
+): CtLookupCertificate[] {
+	const servedNow = new Set(served);
+	const servedBefore = new Set(
+		previous.filter((certificate) => certificate.status !== "unknown").map((certificate) => certificate.serialNumber)
+	);
+
+	return certificates.map((certificate) => ({
+		...certificate,
+		status: servedNow.has(certificate.serialNumber) ? "served" : servedBefore.has(certificate.serialNumber) ? "known" : "unknown",
+	}));
+}
+
+export function diffCtLookups(before: CtLookup, after: CtLookup): CtLookupChanges {
+	const key = (certificate: CtCertificate) => `${certificate.issuer}/${certificate.serialNumber}`;
+	const beforeKeys = new Set(before.certificates.map(key));
+	const afterKeys = new Set(after.certificates.map(key));
+
+	return {
+		added: after.certificates.filter((certificate) => !beforeKeys.has(key(certificate))),
+		removed: before.certificates.filter((certificate) => !afterKeys.has(key(certificate))),
+	};
+}
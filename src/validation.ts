@@ -0,0 +1,183 @@
+/** A request body or query string did not match its schema; answered with a 400 */
+export class ValidationError extends Error {
+	override name = "ValidationError";
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Validates one value and describes itself as JSON Schema for the OpenAPI document. `coerce` is
+ * set for query strings, where every value arrives as a string.
+ */
+export type Schema<T> = {
+	parse(value: unknown, path: string, coerce: boolean): T;
+	jsonSchema: JsonSchema;
+	/** Whether an object may leave the field out */
+	optional: boolean;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+
+export type InferShape<S extends Shape> = { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+	[K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+function fail(path: string, expectation: string): never {
+	throw new ValidationError(`${path ? `The ${path}` : "The request body"} must be ${expectation}.`);
+}
+
+function schema<T>(jsonSchema: JsonSchema, parse: Schema<T>["parse"]): Schema<T> {
+	return { parse, jsonSchema, optional: false };
+}
+
+export function string(options: { minLength?: number; maxLength?: number; description?: string } = {}): Schema<string> {
+	const { minLength = 1, maxLength, description } = options;
+	const expectation = maxLength === undefined ? "a non-empty string" : `a string of ${minLength} to ${maxLength} characters`;
+
+	return schema({ type: "string", minLength, maxLength, description }, (value, path) => {
+		if (typeof value !== "string" || value.trim().length < minLength || (maxLength !== undefined && value.length > maxLength)) {
+			fail(path, expectation);
+		}
+		return value;
+	});
+}
+
+export function integer(options: { minimum?: number; maximum?: number; description?: string } = {}): Schema<number> {
+	const { minimum, maximum, description } = options;
+	const range =
+		minimum !== undefined && maximum !== undefined
+			? ` between ${minimum} and ${maximum}`
+			: minimum !== undefined
+				? ` of at least ${minimum}`
+				: "";
+
+	return schema({ type: "integer", minimum, maximum, description }, (value, path, coerce) => {
+		const number = coerce && typeof value === "string" && /^-?\d+$/.test(value) ? Number(value) : value;
+		if (
+			typeof number !== "number" ||
+			!Number.isInteger(number) ||
+			(minimum !== undefined && number < minimum) ||
+			(maximum !== undefined && number > maximum)
+		) {
+			fail(path, `an integer${range}`);
+		}
+		return number;
+	});
+}
+
+export function boolean(options: { description?: string } = {}): Schema<boolean> {
+	return schema({ type: "boolean", description: options.description }, (value, path, coerce) => {
+		if (coerce && (value === "true" || value === "false")) {
+			return value === "true";
+		}
+		if (typeof value !== "boolean") {
+			fail(path, "a boolean");
+		}
+		return value;
+	});
+}
+
+export function oneOf<const T extends string>(values: readonly T[], options: { description?: string } = {}): Schema<T> {
+	return schema({ type: "string", enum: values, description: options.description }, (value, path) => {
+		if (typeof value !== "string" || !(values as readonly string[]).includes(value)) {
+			fail(path, `one of ${values.join(", ")}`);
+		}
+		return value as T;
+	});
+}
+
+export function array<T>(item: Schema<T>, options: { minItems?: number; maxItems?: number; description?: string } = {}): Schema<T[]> {
+	const { minItems = 0, maxItems, description } = options;
+	const size = maxItems === undefined ? `at least ${minItems}` : `${minItems} to ${maxItems}`;
+
+	return schema({ type: "array", items: item.jsonSchema, minItems, maxItems, description }, (value, path, coerce) => {
+		if (!Array.isArray(value) || value.length < minItems || (maxItems !== undefined && value.length > maxItems)) {
+			fail(path, `a list of ${size} items`);
+		}
+		return value.map((entry, index) => item.parse(entry, `${path}[${index}]`, coerce));
+	});
+}
+
+export function object<S extends Shape>(shape: S, options: { description?: string } = {}): Schema<InferShape<S>> {
+	const required = Object.entries(shape)
+		.filter(([, field]) => !field.optional)
+		.map(([name]) => name);
+	const properties = Object.fromEntries(Object.entries(shape).map(([name, field]) => [name, field.jsonSchema]));
+
+	return schema(
+		{ type: "object", properties, required: required.length > 0 ? required : undefined, description: options.description },
+		(value, path, coerce) => {
+			if (!value || typeof value !== "object" || Array.isArray(value)) {
+				fail(path, "an object");
+			}
+
+			const record = value as Record<string, unknown>;
+			const parsed: Record<string, unknown> = {};
+			for (const [name, field] of Object.entries(shape)) {
+				const result = field.parse(record[name], path ? `${path}.${name}` : name, coerce);
+				if (result !== undefined) {
+					parsed[name] = result;
+				}
+			}
+			return parsed as InferShape<S>;
+		}
+	);
+}
+
+/** Lets a field be left out (or sent as null or an empty query parameter) */
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+	return {
+		parse: (value, path, coerce) => (value === undefined || value === null || (coerce && value === "") ? undefined : inner.parse(value, path, coerce)),
+		jsonSchema: inner.jsonSchema,
+		optional: true,
+	};
+}
+
+/** Like `optional`, but fills in `fallback` when the field is left out */
+export function withDefault<T>(inner: Schema<T>, fallback: T): Schema<T> {
+	return {
+		parse: (value, path, coerce) => (value === undefined || value === null || (coerce && value === "") ? fallback : inner.parse(value, path, coerce)),
+		jsonSchema: { ...inner.jsonSchema, default: fallback },
+		optional: true,
+	};
+}
+
+/**
+ * Validates with a hand-written check, which calls `fail` with a message naming the field. The path
+ * is only added for values nested inside an object or list, where the message alone is ambiguous.
+ */
+export function custom<T>(jsonSchema: JsonSchema, parse: (value: unknown, fail: (message: string) => never) => T): Schema<T> {
+	return schema(jsonSchema, (value, path) =>
+		parse(value, (message) => {
+			throw new ValidationError(/[.[]/.test(path) ? `${path}: ${message}` : message);
+		})
+	);
+}
+
+/** Checks a parsed value further, e.g. that two options are not combined */
+export function refine<T>(inner: Schema<T>, check: (value: T) => string | null): Schema<T> {
+	return {
+		...inner,
+		parse: (value, path, coerce) => {
+			const parsed = inner.parse(value, path, coerce);
+			const problem = check(parsed);
+			if (problem) {
+				throw new ValidationError(problem);
+			}
+			return parsed;
+		},
+	};
+}
+
+/** Reads a query string against an object schema, taking the first value of each parameter */
+export function parseQuery<T>(querySchema: Schema<T>, params: URLSearchParams): T {
+	const values: Record<string, string> = {};
+	for (const [name, value] of params) {
+		values[name] ??= value;
+	}
+	return querySchema.parse(values, "", true);
+}
@@ -0,0 +1,161 @@
+import type { CertificateAlert, CertificateChange, Finding, FindingRule, StoredInspection } from "./certificates";
+import type { WebhookDeliveryAttemptRecord, WebhookRecord } from "./db/types";
+import { CONTAINER_ONLY_RULES } from "./findings";
+import type { WebhookDeliveryOutcome } from "./db/WebhookDeliveryAttemptRecords";
+
+/** Each workspace's webhooks live in the `WebhookStore` with this name in the workspace */
+export const WEBHOOK_STORE_NAME = "webhooks";
+
+export const WEBHOOK_EVENTS = ["inspection.failed", "certificate.changed", "certificate.expiring", "finding.new"] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+/** Only sent by the test route, so it cannot be subscribed to */
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+export type WebhookEventName = WebhookEventType | typeof WEBHOOK_TEST_EVENT;
+
+export type WebhookEvent = {
+	id: string;
+	type: WebhookEventName;
+	createdAt: string;
+	host: string | null;
+	port: number | null;
+	data: Record<string, unknown>;
+};
+
+export type Webhook = {
+	id: number;
+	url: string;
+	events: WebhookEventType[];
+	description: string | null;
+	/** Whether deliveries carry an `x-webhook-signature` header; the secret itself is never returned */
+	signed: boolean;
+	createdAt: string;
+};
+
+export type WebhookDeliveryAttempt = {
+	id: number;
+	eventId: string;
+	event: WebhookEventName;
+	attempt: number;
+	outcome: WebhookDeliveryOutcome;
+	statusCode: number | null;
+	error: string | null;
+	durationMs: number;
+	createdAt: string;
+};
+
+export const MAX_WEBHOOK_DELIVERY_ATTEMPTS = 8;
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export function toWebhook(record: WebhookRecord): Webhook {
+	return {
+		id: record.id,
+		url: record.url,
+		events: record.events,
+		description: record.description,
+		signed: record.secret !== null,
+		createdAt: record.created_at,
+	};
+}
+
+export function toWebhookDeliveryAttempt(record: WebhookDeliveryAttemptRecord): WebhookDeliveryAttempt {
+	return {
+		id: record.id,
+		eventId: record.event_id,
+		event: record.event,
+		attempt: record.attempt,
+		outcome: record.outcome,
+		statusCode: record.status_code,
+		error: record.error,
+		durationMs: record.duration_ms,
+		createdAt: record.created_at,
+	};
+}
+
+function createEvent(type: WebhookEventType, inspection: StoredInspection, data: Record<string, unknown>): WebhookEvent {
+	return {
+		id: crypto.randomUUID(),
+		type,
+		createdAt: inspection.storedAt,
+		host: inspection.requestedHost,
+		port: inspection.requestedPort,
+		data: { inspectionId: inspection.id, ...data },
+	};
+}
+
+/**
+ * The events a newly stored inspection raises: a changed leaf certificate, the closest expiry
+ * threshold crossed, and each finding the previous inspection did not have. Nothing is new about
+ * a target's first inspection, so it raises no finding events.
+ */
+export function toWebhookEvents(
+	previous: StoredInspection | null,
+	current: StoredInspection,
+	alerts: CertificateAlert[],
+	changes: CertificateChange[] | null
+): WebhookEvent[] {
+	const events: WebhookEvent[] = [];
+
+	for (const alert of alerts.filter((alert) => alert.kind === "changed")) {
+		events.push(
+			createEvent("certificate.changed", current, {
+				fingerprint256: alert.fingerprint256,
+				previousFingerprint256: previous?.result.fingerprint256 ?? null,
+				changes: changes ?? [],
+			})
+		);
+	}
+
+	const [closest] = alerts.filter((alert) => alert.kind === "expiring").sort((a, b) => (a.threshold ?? 0) - (b.threshold ?? 0));
+	if (closest) {
+		events.push(
+			createEvent("certificate.expiring", current, {
+				threshold: closest.threshold,
+				daysRemaining: closest.daysRemaining,
+				validTo: closest.validTo,
+				fingerprint256: closest.fingerprint256,
+			})
+		);
+	}
+
+	if (previous) {
+		const findingKey = (finding: Finding) => `${finding.rule}:${finding.certificateIndex}`;
+		const known = new Set(previous.findings.map(findingKey));
+		// A worker result skips the container-only rules, so what they find afterwards is not news
+		const unevaluated: ReadonlySet<FindingRule> = previous.result.engine === "worker" ? CONTAINER_ONLY_RULES : new Set();
+		for (const finding of current.findings.filter((finding) => !known.has(findingKey(finding)) && !unevaluated.has(finding.rule))) {
+			events.push(createEvent("finding.new", current, { finding }));
+		}
+	}
+
+	return events;
+}
+
+export function inspectionFailedEvent(host: string, port: number, error: string): WebhookEvent {
+	return { id: crypto.randomUUID(), type: "inspection.failed", createdAt: new Date().toISOString(), host, port, data: { error } };
+}
+
+/**
+ * Hex HMAC-SHA256 of `<timestamp>.<body>`, sent as `x-webhook-signature: sha256=<hex>`. Including
+ * the timestamp lets receivers reject old deliveries being replayed.
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+	const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+	const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${timestamp}.${body}`));
+	return [...new Uint8Array(signature)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** Timeouts, network failures, rate limiting and server errors are worth retrying; other answers are final */
+export function isRetryableWebhookStatus(status: number | null): boolean {
+	return status === null || status === 408 || status === 429 || status >= 500;
+}
+
+/** Exponential backoff from the attempt number, never sooner than the receiver asked for */
+export function webhookRetryDelay(attempt: number, retryAfterMs: number | null): number {
+	const backoff = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+	return Math.max(backoff, retryAfterMs ?? 0);
+}
@@ -0,0 +1,272 @@
+import { X509Certificate } from "node:crypto";
+import { connect } from "cloudflare:sockets";
+import {
+	type CertificateDetails,
+	type ChainCertificate,
+	type InspectOptions,
+	type SentCertificate,
+	TARGET_NOT_ALLOWED_PREFIX,
+	normalizeHost,
+	normalizeIpAddress,
+} from "./certificates";
+import { readServerHandshake } from "./tlsHandshake";
+import { loadTargetLists, targetListsRefusal } from "../shared/targetLists";
+
+const HANDSHAKE_TIMEOUT_MS = 15000;
+
+/** The algorithms the findings care about; anything else is reported by OID */
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+	"1.2.840.113549.1.1.4": "md5WithRSAEncryption",
+	"1.2.840.113549.1.1.5": "sha1WithRSAEncryption",
+	"1.2.840.113549.1.1.10": "rsassaPss",
+	"1.2.840.113549.1.1.11": "sha256WithRSAEncryption",
+	"1.2.840.113549.1.1.12": "sha384WithRSAEncryption",
+	"1.2.840.113549.1.1.13": "sha512WithRSAEncryption",
+	"1.2.840.10045.4.1": "ecdsa-with-SHA1",
+	"1.2.840.10045.4.3.2": "ecdsa-with-SHA256",
+	"1.2.840.10045.4.3.3": "ecdsa-with-SHA384",
+	"1.2.840.10045.4.3.4": "ecdsa-with-SHA512",
+	"1.3.101.112": "Ed25519",
+	"1.3.101.113": "Ed448",
+};
+
+const CURVE_SIZES: Record<string, number> = {
+	prime256v1: 256,
+	secp256k1: 256,
+	secp384r1: 384,
+	secp521r1: 521,
+};
+
+/** Why a request can only go to the container, or null when the worker can inspect it too */
+export function workerInspectionUnsupported(env: Cloudflare.Env, host: string, options: InspectOptions): string | null {
+	if ((options.protocol ?? "tls") !== "tls") {
+		return "STARTTLS protocols are only inspected by the container.";
+	}
+	if (options.deepScan || options.http) {
+		return "Deep scans and HTTP checks are only run by the container.";
+	}
+	if (options.ip || normalizeIpAddress(host)) {
+		return "Addresses are only inspected by the container, which checks them against the blocked ranges.";
+	}
+	// The worker connects by name without seeing the address, so it cannot honour configured ranges
+	if (env.TARGET_ALLOW_CIDRS || env.TARGET_DENY_CIDRS) {
+		return "The target policy's address ranges are only applied by the container.";
+	}
+	return null;
+}
+
+/**
+ * The host and port lists the container applies. Its address ranges are not: the worker is not
+ * used at all while any are configured.
+ */
+function checkTargetPolicy(env: Cloudflare.Env, host: string, port: number): void {
+	const refusal = targetListsRefusal(loadTargetLists(env), host, port);
+	if (refusal !== null) {
+		throw new Error(`${TARGET_NOT_ALLOWED_PREFIX}${refusal}`);
+	}
+}
+
+/**
+ * Lets the runtime's TLS stack check the chain and the name against its own trust store. The
+ * runtime finishes the handshake before it reports the socket open, so a refused certificate
+ * rejects `opened`. Returns why the certificate was refused, or null when it was accepted.
+ */
+async function verifyWithRuntime(host: string, port: number, servername: string): Promise<string | null> {
+	const socket = connect({ hostname: host, port }, { secureTransport: "starttls", allowHalfOpen: false });
+	const secure = socket.startTls({ expectedServerHostname: servername });
+	const timer = setTimeout(() => {
+		secure.close().catch(() => undefined);
+	}, HANDSHAKE_TIMEOUT_MS);
+
+	try {
+		await secure.opened;
+		return null;
+	} catch (error) {
+		return error instanceof Error ? error.message : String(error);
+	} finally {
+		clearTimeout(timer);
+		await secure.close().catch(() => undefined);
+	}
+}
+
+/** Returns the offset of the content and of the end of the DER element at `offset` */
+function derElement(der: Uint8Array, offset: number): { start: number; end: number } {
+	const first = der[offset + 1];
+	if (first < 0x80) {
+		return { start: offset + 2, end: offset + 2 + first };
+	}
+
+	let length = 0;
+	for (let index = 0; index < (first & 0x7f); index++) {
+		length = length * 256 + der[offset + 2 + index];
+	}
+	const start = offset + 2 + (first & 0x7f);
+	return { start, end: start + length };
+}
+
+/** Certificate ::= SEQUENCE { tbsCertificate, signatureAlgorithm SEQUENCE { OID, ... }, signature } */
+function signatureAlgorithm(der: Uint8Array): string {
+	const certificate = derElement(der, 0);
+	const tbs = derElement(der, certificate.start);
+	const algorithm = derElement(der, tbs.end);
+	const oid = derElement(der, algorithm.start);
+	const bytes = der.slice(oid.start, oid.end);
+
+	const arcs = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+	let value = 0;
+	for (const byte of bytes.slice(1)) {
+		value = value * 128 + (byte & 0x7f);
+		if ((byte & 0x80) === 0) {
+			arcs.push(value);
+			value = 0;
+		}
+	}
+
+	const dotted = arcs.join(".");
+	return SIGNATURE_ALGORITHMS[dotted] ?? dotted;
+}
+
+/** Turns `X509Certificate#subject` text such as `C=US\nCN=R3` into a name record */
+function nameRecord(name: string): Record<string, string> | null {
+	const entries = name
+		.split("\n")
+		.map((line) => line.match(/^([^=]+)=(.*)$/))
+		.filter((match): match is RegExpMatchArray => match !== null && match[2].length > 0)
+		.map(([, key, value]) => [key, value]);
+
+	return entries.length > 0 ? Object.fromEntries(entries) : null;
+}
+
+function isSelfSigned(certificate: X509Certificate): boolean {
+	try {
+		return certificate.checkIssued(certificate) && certificate.verify(certificate.publicKey);
+	} catch {
+		return false;
+	}
+}
+
+function describePublicKey(certificate: X509Certificate): ChainCertificate["publicKey"] {
+	const { asymmetricKeyType, asymmetricKeyDetails } = certificate.publicKey;
+	const curve = asymmetricKeyDetails?.namedCurve ?? null;
+
+	let size = asymmetricKeyDetails?.modulusLength ?? (curve ? CURVE_SIZES[curve] : undefined) ?? null;
+	if (asymmetricKeyType === "ed25519") {
+		size = 256;
+	} else if (asymmetricKeyType === "ed448") {
+		size = 448;
+	}
+
+	return { type: asymmetricKeyType ?? null, size, curve };
+}
+
+/** The extension-derived fields need the container's DER parser, so they are left empty */
+function describeChainCertificate(certificate: X509Certificate, der: Uint8Array, includePem: boolean): ChainCertificate {
+	return {
+		subject: nameRecord(certificate.subject),
+		issuer: nameRecord(certificate.issuer),
+		validFrom: certificate.validFrom,
+		validTo: certificate.validTo,
+		fingerprint256: certificate.fingerprint256,
+		serialNumber: certificate.serialNumber,
+		publicKey: describePublicKey(certificate),
+		signatureAlgorithm: signatureAlgorithm(der),
+		keyUsage: [],
+		extendedKeyUsage: [],
+		basicConstraints: null,
+		ocspUrls: [],
+		caIssuerUrls: [],
+		crlUrls: [],
+		embeddedSctCount: 0,
+		selfSigned: isSelfSigned(certificate),
+		...(includePem ? { pem: certificate.toString() } : {}),
+	};
+}
+
+/** Follows issuers through the certificates the server sent, from the leaf up */
+function orderChain(sent: X509Certificate[]): number[] {
+	const order = [0];
+
+	for (;;) {
+		const current = sent[order[order.length - 1]];
+		if (isSelfSigned(current)) {
+			return order;
+		}
+
+		const issuer = sent.findIndex((candidate, index) => !order.includes(index) && current.checkIssued(candidate));
+		if (issuer === -1) {
+			return order;
+		}
+		order.push(issuer);
+	}
+}
+
+/**
+ * The lighter inspection used when the container cannot be reached. It reads the certificates from
+ * a TLS 1.2 handshake over the runtime's sockets and leaves verification to the runtime's own TLS
+ * stack. Revocation, DNS, deep scans and the HTTP checks are only done by the container, and the
+ * chain ends with the last certificate the server sent rather than the trusted root.
+ */
+export async function inspectInWorker(env: Cloudflare.Env, host: string, port: number, options: InspectOptions): Promise<CertificateDetails> {
+	const startedAt = Date.now();
+	const normalizedHost = normalizeHost(host);
+	const servername = options.servername ?? normalizedHost;
+	checkTargetPolicy(env, normalizedHost, port);
+
+	// SNI can only carry host names, so an IP servername is left out of the handshake
+	const sni = normalizeIpAddress(servername) ? undefined : servername;
+	const [handshake, authorizationError] = await Promise.all([
+		readServerHandshake({ address: normalizedHost, port, servername: sni }, HANDSHAKE_TIMEOUT_MS),
+		verifyWithRuntime(normalizedHost, port, servername),
+	]);
+
+	const sent = handshake.certificates.map((der) => new X509Certificate(Buffer.from(der)));
+	const [leaf] = sent;
+	const sentChain: SentCertificate[] = sent.map((certificate) => ({
+		subject: nameRecord(certificate.subject),
+		issuer: nameRecord(certificate.issuer),
+		fingerprint256: certificate.fingerprint256,
+		selfSigned: isSelfSigned(certificate),
+	}));
+
+	return {
+		host: normalizedHost,
+		port,
+		ip: handshake.remoteAddress,
+		servername,
+		protocol: "tls",
+		negotiated: {
+			tlsVersion: handshake.tlsVersion,
+			cipher: handshake.cipher,
+			cipherStandardName: handshake.cipherStandardName,
+			ephemeralKey: handshake.ephemeralKey,
+		},
+		revocation: {
+			status: "unavailable",
+			source: null,
+			url: null,
+			thisUpdate: null,
+			nextUpdate: null,
+			revokedAt: null,
+			reason: null,
+			signatureValid: null,
+			errors: ["Revocation is only checked by the container."],
+		},
+		authorized: authorizationError === null,
+		authorizationError,
+		validFrom: leaf.validFrom,
+		validTo: leaf.validTo,
+		fingerprint: leaf.fingerprint,
+		fingerprint256: leaf.fingerprint256,
+		serialNumber: leaf.serialNumber,
+		subjectAltName: leaf.subjectAltName ?? null,
+		subject: nameRecord(leaf.subject),
+		issuer: nameRecord(leaf.issuer),
+		chain: orderChain(sent).map((index) =>
+			describeChainCertificate(sent[index], handshake.certificates[index], options.includePem ?? false)
+		),
+		sentChain,
+		inspectedAt: new Date().toISOString(),
+		durationMs: Date.now() - startedAt,
+		engine: "worker",
+	};
+}
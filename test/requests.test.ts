@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { workspaceObjectName } from "../src/auth";
+import { hostSchema, servernameSchema } from "../src/requests";
+import { ValidationError } from "../src/validation";
+
+describe("hostSchema", () => {
+	it("accepts DNS names and IP literals, lowercased", () => {
+		expect(hostSchema.parse(" Example.COM ", "host", false)).toBe("example.com");
+		expect(hostSchema.parse("_acme-challenge.example.com.", "host", false)).toBe("_acme-challenge.example.com.");
+		expect(hostSchema.parse("192.0.2.1", "host", false)).toBe("192.0.2.1");
+		expect(hostSchema.parse("2001:DB8::1", "host", false)).toBe("2001:db8::1");
+	});
+
+	it("refuses anything that could name another workspace's objects", () => {
+		for (const host of ["acme/example.com", "example.com:443", "exa mple.com", "-example.com", "example..com", ""]) {
+			expect(() => hostSchema.parse(host, "host", false)).toThrow(ValidationError);
+		}
+		expect(() => servernameSchema.parse("acme/example.com", "servername", false)).toThrow(
+			"The servername must be a DNS name or an IP address."
+		);
+	});
+});
+
+describe("workspaceObjectName", () => {
+	it("prefixes every workspace, the default one included", () => {
+		expect(workspaceObjectName("default", "acme/example.com:443")).toBe("default/acme/example.com:443");
+		expect(workspaceObjectName("acme", "example.com:443")).toBe("acme/example.com:443");
+	});
+});
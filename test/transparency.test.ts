@@ -0,0 +1,145 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+	type CtCertificate,
+	CtLogError,
+	classifyCtCertificates,
+	crtShSource,
+	ctLogSourceFor,
+	normalizeSerialNumber,
+} from "../src/transparency";
+
+/** crt.sh entries as its JSON output has them, keyed by the `q` parameter */
+const ENTRIES: Record<string, unknown[]> = {
+	"example.com": [
+		{
+			id: 2,
+			issuer_name: "C=US, O=Let's Encrypt, CN=R11",
+			common_name: "example.com",
+			name_value: "example.com\nwww.example.com",
+			serial_number: "03ab",
+			not_before: "2026-09-01T00:00:00",
+			not_after: "2026-11-30T00:00:00",
+			entry_timestamp: "2026-09-01T01:00:00.123",
+		},
+	],
+	"%.example.com": [
+		// The precertificate of the certificate above, which must only be kept once
+		{
+			id: 1,
+			issuer_name: "C=US, O=Let's Encrypt, CN=R11",
+			common_name: "example.com",
+			name_value: "example.com\nwww.example.com",
+			serial_number: "03AB",
+			not_before: "2026-09-01T00:00:00",
+			not_after: "2026-11-30T00:00:00",
+			entry_timestamp: "2026-09-01T00:59:00.000",
+		},
+		{
+			id: 3,
+			issuer_name: "C=US, O=Let's Encrypt, CN=R10",
+			common_name: "API.example.com",
+			name_value: "API.example.com",
+			serial_number: "0004cd",
+			not_before: "2026-10-01T00:00:00",
+			not_after: "2026-12-30T00:00:00",
+			entry_timestamp: "2026-10-01T00:00:00",
+		},
+		{ id: 4, serial_number: "ff" },
+	],
+};
+
+let server: Server;
+let baseUrl: string;
+const queries: URLSearchParams[] = [];
+
+beforeAll(async () => {
+	server = createServer((request, response) => {
+		const url = new URL(request.url ?? "/", "http://localhost");
+		queries.push(url.searchParams);
+
+		const q = url.searchParams.get("q") ?? "";
+		if (q.endsWith("unavailable.test")) {
+			response.writeHead(503).end();
+		} else if (q.endsWith("garbled.test")) {
+			response.writeHead(200, { "content-type": "text/html" }).end("<html>Too many requests</html>");
+		} else {
+			response.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify(ENTRIES[q] ?? []));
+		}
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+afterAll(async () => {
+	await new Promise((resolve) => server.close(resolve));
+});
+
+describe("crtShSource", () => {
+	it("merges the domain and subdomain queries, keeping each certificate once", async () => {
+		const result = await crtShSource(baseUrl).search("example.com");
+
+		expect(result.truncated).toBe(false);
+		expect(result.certificates.map((certificate) => [certificate.id, certificate.serialNumber])).toEqual([
+			[3, "4cd"],
+			[2, "3ab"],
+		]);
+		expect(result.certificates[0]).toMatchObject({
+			commonName: "api.example.com",
+			names: ["api.example.com"],
+			notBefore: "2026-10-01T00:00:00.000Z",
+			loggedAt: "2026-10-01T00:00:00.000Z",
+		});
+
+		const searched = queries.slice(-2).map((params) => Object.fromEntries(params));
+		expect(searched).toEqual([
+			{ q: "example.com", output: "json", exclude: "expired", deduplicate: "Y" },
+			{ q: "%.example.com", output: "json", exclude: "expired", deduplicate: "Y" },
+		]);
+	});
+
+	it("rejects an error status or an answer that is not a JSON list", async () => {
+		await expect(crtShSource(baseUrl).search("unavailable.test")).rejects.toThrow(CtLogError);
+		await expect(crtShSource(baseUrl).search("garbled.test")).rejects.toThrow("did not answer with a JSON list");
+	});
+});
+
+describe("ctLogSourceFor", () => {
+	it("searches CT_LOG_SEARCH_URL when it is set", async () => {
+		const source = ctLogSourceFor({ CT_LOG_SEARCH_URL: baseUrl } as Cloudflare.Env);
+
+		expect(source.name).toBe(new URL(baseUrl).host);
+		expect((await source.search("example.com")).certificates).toHaveLength(2);
+	});
+});
+
+describe("classifyCtCertificates", () => {
+	const certificate = (serialNumber: string): CtCertificate => ({
+		id: 1,
+		serialNumber,
+		issuer: "CN=R11",
+		commonName: "example.com",
+		names: ["example.com"],
+		notBefore: "2026-09-01T00:00:00.000Z",
+		notAfter: "2026-11-30T00:00:00.000Z",
+		loggedAt: "2026-09-01T00:00:00.000Z",
+	});
+
+	it("marks what is served now, what was served before and everything else", () => {
+		const previous = [
+			{ ...certificate("2"), status: "served" as const },
+			{ ...certificate("3"), status: "unknown" as const },
+		];
+		const classified = classifyCtCertificates([certificate("1"), certificate("2"), certificate("3")], ["1"], previous);
+
+		expect(classified.map((entry) => entry.status)).toEqual(["served", "known", "unknown"]);
+	});
+});
+
+describe("normalizeSerialNumber", () => {
+	it("matches serials printed with colons, capitals and leading zeros", () => {
+		expect(normalizeSerialNumber("00:0A:BC")).toBe("abc");
+		expect(normalizeSerialNumber("00")).toBe("0");
+	});
+});
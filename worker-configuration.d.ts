@@ -4,16 +4,39 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
-		durableNamespaces: "MyDurableObject" | "CertificateInspectorContainer" | "CertificateInspectionStore";
+		durableNamespaces: "MyDurableObject" | "CertificateInspectorContainer" | "CertificateInspectionStore" | "CertificateMonitorRegistry" | "ApiKeyStore" | "RateLimiter" | "WebhookStore" | "CertificateTransparencyStore" | "SubscriptionDirectory";
 	}
 	interface Env {
 		VAPID_PUBLIC_KEY: "BLQLjROLgIgXQXHd6ykhxje8bZiaPe8JcdbTOOG9OgafZnyetcw68Fu69RVHOHEW6DRpqNNJ7rlUjkhxMiceheU";
-		DEBUG_URL: "webhook.site/ed4089f1-06be-4b55-ac53-987703bc0600";
+		INSPECTION_HISTORY_LIMIT: "500";
+		CERTIFICATE_MONITOR_INTERVAL_MINUTES: "1440";
+		CERTIFICATE_ALERT_THRESHOLDS: "30,14,7,1";
+		TARGET_ALLOW_HOSTS: "";
+		TARGET_DENY_HOSTS: "";
+		TARGET_ALLOW_CIDRS: "";
+		TARGET_DENY_CIDRS: "";
+		TARGET_ALLOW_PORTS: "";
+		TARGET_DENY_PORTS: "";
+		INSPECT_RATE_LIMIT_CAPACITY: "30";
+		INSPECT_RATE_LIMIT_PER_MINUTE: "10";
+		CT_LOG_SEARCH_URL: "https://crt.sh/";
+		DNS_RESOLVERS: "";
+		INSPECTOR_TIMEOUT_SECONDS: "60";
+		INSPECTOR_RETRIES: "1";
+		INSPECTOR_FALLBACK: "worker";
 		VAPID_PRIVATE_KEY: string;
 		GCM_APIKey: string;
+		API_ADMIN_KEY: string;
+		SESSION_SECRET: string;
 		MY_DURABLE_OBJECT: DurableObjectNamespace<import("./src/index").MyDurableObject>;
 		CERTIFICATE_INSPECTOR: DurableObjectNamespace<import("./src/index").CertificateInspectorContainer>;
 		CERTIFICATE_INSPECTION_STORE: DurableObjectNamespace<import("./src/index").CertificateInspectionStore>;
+		CERTIFICATE_MONITOR_REGISTRY: DurableObjectNamespace<import("./src/index").CertificateMonitorRegistry>;
+		API_KEY_STORE: DurableObjectNamespace<import("./src/index").ApiKeyStore>;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/index").RateLimiter>;
+		WEBHOOK_STORE: DurableObjectNamespace<import("./src/index").WebhookStore>;
+		CERTIFICATE_TRANSPARENCY_STORE: DurableObjectNamespace<import("./src/index").CertificateTransparencyStore>;
+		SUBSCRIPTION_DIRECTORY: DurableObjectNamespace<import("./src/index").SubscriptionDirectory>;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -21,7 +44,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "VAPID_PUBLIC_KEY" | "DEBUG_URL" | "VAPID_PRIVATE_KEY" | "GCM_APIKey">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "VAPID_PUBLIC_KEY" | "INSPECTION_HISTORY_LIMIT" | "CERTIFICATE_MONITOR_INTERVAL_MINUTES" | "CERTIFICATE_ALERT_THRESHOLDS" | "TARGET_ALLOW_HOSTS" | "TARGET_DENY_HOSTS" | "TARGET_ALLOW_CIDRS" | "TARGET_DENY_CIDRS" | "TARGET_ALLOW_PORTS" | "TARGET_DENY_PORTS" | "INSPECT_RATE_LIMIT_CAPACITY" | "INSPECT_RATE_LIMIT_PER_MINUTE" | "CT_LOG_SEARCH_URL" | "DNS_RESOLVERS" | "INSPECTOR_TIMEOUT_SECONDS" | "INSPECTOR_RETRIES" | "INSPECTOR_FALLBACK" | "VAPID_PRIVATE_KEY" | "GCM_APIKey" | "API_ADMIN_KEY" | "SESSION_SECRET">> {}
 }
 declare module "*.sql" {
 	const value: string;